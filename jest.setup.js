@@ -0,0 +1,3 @@
+// Runs before each test file is loaded
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+process.env.NODE_ENV = process.env.NODE_ENV || 'test';
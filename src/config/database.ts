@@ -3,6 +3,13 @@ import { Transaction } from '../models/Transaction';
 import { Merchant } from '../models/Merchant';
 import { RoutingRule } from '../models/RoutingRule';
 import { WebhookDelivery } from '../models/WebhookDelivery';
+import { Refund } from '../models/Refund';
+import { MerchantPSPAccount } from '../models/MerchantPSPAccount';
+import { CardBin } from '../models/CardBin';
+import { RoutingRuleVersion } from '../models/RoutingRuleVersion';
+import { PSPQuota } from '../models/PSPQuota';
+import { PSPFeeSchedule } from '../models/PSPFeeSchedule';
+import { IdempotencyKey } from '../models/IdempotencyKey';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -42,9 +49,13 @@ export const AppDataSource = new DataSource({
   ...dataSourceOptions,
   // Allow explicit override via DB_SYNCHRONIZE=true for first-time Railway deploys
   synchronize: process.env.DB_SYNCHRONIZE === 'true' || !isProduction,
+  // Pending migrations run on startup, before the schema sync — several of
+  // them convert data (e.g. amounts to minor units) that synchronize would
+  // otherwise change the column type of in place, without converting it
+  migrationsRun: true,
   logging: !isProduction,
-  entities: [Transaction, Merchant, RoutingRule, WebhookDelivery],
-  migrations: [isProduction ? 'dist/migrations/**/*.js' : 'src/migrations/**/*.ts'],
+  entities: [Transaction, Merchant, RoutingRule, WebhookDelivery, Refund, MerchantPSPAccount, CardBin, RoutingRuleVersion, PSPQuota, PSPFeeSchedule, IdempotencyKey],
+  migrations: [isProduction ? 'dist/migrations/*.js' : 'src/migrations/*.ts'],
   subscribers: []
 });
 
@@ -0,0 +1,28 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface FailoverConfig {
+  /** Master switch — cascading is off unless FAILOVER_ENABLED=true */
+  enabled: boolean;
+  /** Maximum number of PSPs tried for one payment, including the first */
+  max_attempts: number;
+  /**
+   * Declines worth retrying at another PSP. Entries are a normalized decline
+   * code ("processor_unavailable"), a raw PSP code matching any PSP ("91"),
+   * or a raw code scoped to one PSP as "<psp>:<code>" ("paytabs:481").
+   */
+  soft_decline_codes: string[];
+}
+
+/**
+ * Build the PSP failover (cascading) settings from environment variables.
+ */
+export const loadFailoverConfig = (): FailoverConfig => ({
+  enabled: (process.env.FAILOVER_ENABLED ?? '').trim() === 'true',
+  max_attempts: Math.max(1, parseInt(process.env.FAILOVER_MAX_ATTEMPTS || '2')),
+  soft_decline_codes: (process.env.FAILOVER_SOFT_DECLINE_CODES ?? 'processor_unavailable')
+    .split(',')
+    .map((c) => c.trim())
+    .filter(Boolean)
+});
@@ -0,0 +1,157 @@
+import * as dotenv from 'dotenv';
+import { PSPConfig, PSPProvider } from '../types/payment.types';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+const env = (key: string): string => (process.env[key] ?? '').trim();
+
+/**
+ * A PSP is enabled when its credentials are present, unless explicitly
+ * switched off with <PSP>_ENABLED=false (useful to drain traffic from a
+ * provider without removing its keys).
+ */
+const isEnabled = (prefix: string, apiKey: string): boolean =>
+  !!apiKey && env(`${prefix}_ENABLED`) !== 'false';
+
+/**
+ * Build the per-provider configuration from environment variables.
+ * This is the single source the connector registry is configured from.
+ */
+export const loadPSPConfigs = (): PSPConfig[] => {
+  const moyasarKey = env('MOYASAR_API_KEY');
+  const paytabsKey = env('PAYTABS_SERVER_KEY');
+  const hyperpayToken = env('HYPERPAY_ACCESS_TOKEN');
+  const tapKey = env('TAP_SECRET_KEY');
+  const checkoutKey = env('CHECKOUT_SECRET_KEY');
+
+  // Startup diagnostic — confirms PSP credentials are loaded (never logs full keys)
+  logger.info('[psp-init] Moyasar key loaded', {
+    present: !!moyasarKey,
+    length: moyasarKey.length,
+    prefix: moyasarKey ? moyasarKey.substring(0, 10) + '...' : 'MISSING',
+    expected_format: moyasarKey.startsWith('sk_test_') || moyasarKey.startsWith('sk_live_') ? 'OK' : 'WARNING: expected sk_test_ or sk_live_ prefix'
+  });
+
+  logger.info('[psp-init] PayTabs key loaded', {
+    present: !!paytabsKey,
+    length: paytabsKey.length,
+    prefix: paytabsKey ? paytabsKey.substring(0, 8) + '...' : 'MISSING',
+    profile_id: env('PAYTABS_PROFILE_ID') || 'MISSING'
+  });
+
+  logger.info('[psp-init] HyperPay token loaded', {
+    present: !!hyperpayToken,
+    length: hyperpayToken.length,
+    entity_id: env('HYPERPAY_ENTITY_ID') || 'MISSING',
+    mada_entity_id: env('HYPERPAY_MADA_ENTITY_ID') || 'MISSING (card entity used for mada)'
+  });
+
+  logger.info('[psp-init] Tap key loaded', {
+    present: !!tapKey,
+    length: tapKey.length,
+    prefix: tapKey ? tapKey.substring(0, 8) + '...' : 'MISSING',
+    expected_format: tapKey.startsWith('sk_test_') || tapKey.startsWith('sk_live_') ? 'OK' : 'WARNING: expected sk_test_ or sk_live_ prefix'
+  });
+
+  logger.info('[psp-init] Checkout.com key loaded', {
+    present: !!checkoutKey,
+    length: checkoutKey.length,
+    prefix: checkoutKey ? checkoutKey.substring(0, 8) + '...' : 'MISSING',
+    processing_channel_id: env('CHECKOUT_PROCESSING_CHANNEL_ID') || 'MISSING'
+  });
+
+  return [
+    {
+      name: PSPProvider.MOYASAR,
+      api_key: moyasarKey,
+      api_url: env('MOYASAR_API_URL') || 'https://api.moyasar.com/v1',
+      webhook_secret: env('MOYASAR_WEBHOOK_SECRET') || undefined,
+      enabled: isEnabled('MOYASAR', moyasarKey)
+    },
+    {
+      name: PSPProvider.PAYTABS,
+      api_key: paytabsKey,
+      api_url: env('PAYTABS_API_URL') || 'https://secure.paytabs.sa',
+      enabled: isEnabled('PAYTABS', paytabsKey),
+      options: {
+        profile_id: env('PAYTABS_PROFILE_ID') || '0'
+      }
+    },
+    {
+      name: PSPProvider.HYPERPAY,
+      api_key: hyperpayToken,
+      api_url: env('HYPERPAY_API_URL') || 'https://eu-prod.oppwa.com',
+      webhook_secret: env('HYPERPAY_WEBHOOK_SECRET') || undefined,
+      enabled: isEnabled('HYPERPAY', hyperpayToken),
+      options: {
+        entity_id: env('HYPERPAY_ENTITY_ID'),
+        mada_entity_id: env('HYPERPAY_MADA_ENTITY_ID')
+      }
+    },
+    {
+      name: PSPProvider.TAP,
+      api_key: tapKey,
+      api_url: env('TAP_API_URL') || 'https://api.tap.company/v2',
+      // Tap signs webhooks (hashstring) with the secret API key itself
+      webhook_secret: tapKey || undefined,
+      enabled: isEnabled('TAP', tapKey)
+    },
+    {
+      name: PSPProvider.CHECKOUT,
+      api_key: checkoutKey,
+      api_url: env('CHECKOUT_API_URL') || 'https://api.checkout.com',
+      webhook_secret: env('CHECKOUT_WEBHOOK_SECRET') || undefined,
+      enabled: isEnabled('CHECKOUT', checkoutKey),
+      options: {
+        processing_channel_id: env('CHECKOUT_PROCESSING_CHANNEL_ID')
+      }
+    },
+    {
+      // Offline mock PSP — no credentials; the connector registry only knows
+      // about it outside production, with MOCK_PSP_ENABLED=true. api_url is
+      // our own API base, where the mock sends its webhooks and hosts its 3DS page.
+      name: PSPProvider.MOCK,
+      api_key: 'mock',
+      api_url: env('MOCK_PSP_BASE_URL') ||
+        `http://localhost:${env('PORT') || '3000'}/api/${env('API_VERSION') || 'v1'}`,
+      webhook_secret: env('MOCK_PSP_WEBHOOK_SECRET') || 'mock_webhook_secret',
+      enabled: env('MOCK_PSP_ENABLED') === 'true',
+      options: {
+        webhook_delay_ms: env('MOCK_PSP_WEBHOOK_DELAY_MS') || '3000',
+        timeout_ms: env('MOCK_PSP_TIMEOUT_MS') || '5000'
+      }
+    }
+  ];
+};
+
+/**
+ * Hosts a merchant's own PSP account may point api_url at: the PSP's live and
+ * sandbox APIs, subdomains included (e.g. eu-test.oppwa.com,
+ * {prefix}.api.sandbox.checkout.com). The server calls that URL with the
+ * merchant's credentials, so anything else — internal services, cloud
+ * metadata endpoints — is refused.
+ */
+const PSP_API_HOSTS: Record<PSPProvider, string[]> = {
+  [PSPProvider.MOYASAR]: ['api.moyasar.com'],
+  // secure.paytabs.sa plus the regional secure-<region>.paytabs.com hosts
+  [PSPProvider.PAYTABS]: ['paytabs.sa', 'paytabs.com'],
+  [PSPProvider.HYPERPAY]: ['oppwa.com'],
+  [PSPProvider.TAP]: ['api.tap.company'],
+  [PSPProvider.CHECKOUT]: ['checkout.com'],
+  [PSPProvider.MOCK]: []
+};
+
+/** True when `value` is an https URL on one of the provider's API hosts */
+export const isAllowedPSPApiUrl = (provider: PSPProvider, value: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) return false;
+
+  const host = url.hostname.toLowerCase();
+  return (PSP_API_HOSTS[provider] ?? []).some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+};
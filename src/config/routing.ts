@@ -0,0 +1,51 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+export type RoutingMode = 'rules' | 'auto' | 'cost';
+
+export const ROUTING_MODES: RoutingMode[] = ['rules', 'auto', 'cost'];
+
+export interface RoutingConfig {
+  /**
+   * Platform default for merchants that haven't picked a mode:
+   *  - rules: the first matching rule wins (priority order)
+   *  - auto:  matching rules only decide which PSPs are eligible; the one
+   *           with the best recent approval rate goes first
+   *  - cost:  as auto, but the PSP with the lowest estimated fee goes first
+   */
+  default_mode: RoutingMode;
+  /** Share of auto-routed payments sent to a random other PSP, 0–1 */
+  exploration_share: number;
+  /** Length of the rolling success-rate window */
+  window_minutes: number;
+  /** Outcomes needed before a success rate is trusted */
+  min_samples: number;
+  /** IANA time zone of time_of_day / day_of_week conditions and quota periods */
+  timezone: string;
+  /**
+   * How long an instance trusts its cached rules without Redis. With Redis,
+   * rule changes reach every instance at once over pub/sub instead.
+   */
+  rule_cache_ttl_seconds: number;
+  /** How often PSP quota usage is re-counted from the database */
+  quota_refresh_seconds: number;
+  /** Cards issued here get `domestic` fee schedules, others `international` */
+  domestic_country: string;
+}
+
+const clamp01 = (n: number): number => Math.min(1, Math.max(0, n));
+
+/**
+ * Build the dynamic-routing settings from environment variables.
+ */
+export const loadRoutingConfig = (): RoutingConfig => ({
+  default_mode: ROUTING_MODES.find(m => m === (process.env.ROUTING_MODE ?? '').trim()) ?? 'rules',
+  exploration_share: clamp01(parseFloat(process.env.ROUTING_EXPLORATION_SHARE || '0.1')),
+  window_minutes: Math.max(1, parseInt(process.env.SUCCESS_RATE_WINDOW_MINUTES || '60')),
+  min_samples: Math.max(1, parseInt(process.env.SUCCESS_RATE_MIN_SAMPLES || '20')),
+  timezone: process.env.ROUTING_TIMEZONE || 'Asia/Riyadh',
+  rule_cache_ttl_seconds: Math.max(1, parseInt(process.env.ROUTING_RULE_CACHE_TTL_SECONDS || '30')),
+  quota_refresh_seconds: Math.max(5, parseInt(process.env.ROUTING_QUOTA_REFRESH_SECONDS || '60')),
+  domestic_country: (process.env.ROUTING_DOMESTIC_COUNTRY || 'SA').trim().toUpperCase()
+});
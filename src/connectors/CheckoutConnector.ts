@@ -0,0 +1,425 @@
+import crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import {
+  PaymentRequest,
+  PaymentResponse,
+  RefundRequest,
+  RefundResponse,
+  PaymentStatus,
+  PaymentMethod,
+  PSPProvider,
+  Currency,
+  DeclineCode
+} from '../types/payment.types';
+import { logger } from '../utils/logger';
+import { toMinorUnits, fromMinorUnits } from '../utils/currency';
+import { PSPConnector, PSPCapabilities, WebhookVerificationInput } from './PSPConnector';
+import { PSPError } from './PSPError';
+import { DeclineTable, ISO8583_DECLINE_CODES, normalizeDecline } from './declineCodes';
+
+/**
+ * Checkout.com response codes: 200xx soft and 300xx hard declines carry the
+ * ISO 8583 code in their last two digits (20051 = insufficient funds). API
+ * errors report error_codes such as card_expired.
+ */
+const CHECKOUT_DECLINES: DeclineTable = {
+  codes: {
+    ...Object.fromEntries(
+      Object.entries(ISO8583_DECLINE_CODES).flatMap(([iso, code]) => [[`200${iso}`, code], [`300${iso}`, code]])
+    ),
+    '20087': DeclineCode.INCORRECT_CVC,    // bad track data (CVV / expiry)
+    '20150': DeclineCode.THREE_DS_FAILED,  // card not 3DS enabled
+    '20151': DeclineCode.THREE_DS_FAILED,  // cardholder failed 3DS authentication
+    card_expired: DeclineCode.EXPIRED_CARD,
+    card_number_invalid: DeclineCode.INVALID_CARD,
+    cvv_invalid: DeclineCode.INCORRECT_CVC
+  }
+};
+
+/**
+ * Checkout.com Connector — international card acquiring (USD / AED cross-border)
+ * Docs: https://api-reference.checkout.com/
+ *
+ * Token flow:
+ *  Frontend tokenises the card with Frames / Flow and sends
+ *  { source: { type: "token", token: "tok_..." } } to our backend.
+ *  Backend requests a payment with source.type = 'token'.
+ *
+ * 3DS:
+ *  When the issuer requires authentication Checkout.com answers 202 Pending
+ *  with _links.redirect.href — exposed as payment_url so the frontend can
+ *  redirect the customer. The outcome arrives by webhook.
+ *
+ * Authentication: secret key as a Bearer token. Amounts are minor units.
+ * Webhooks are signed with the `Cko-Signature` header
+ * (HMAC-SHA256 of the raw body, keyed by the webhook secret).
+ */
+export class CheckoutConnector implements PSPConnector {
+  private client: AxiosInstance;
+  private processingChannelId?: string;
+  private webhookSecret?: string;
+
+  constructor(
+    secretKey: string,
+    baseURL: string = 'https://api.checkout.com',
+    processingChannelId?: string,
+    webhookSecret?: string
+  ) {
+    this.processingChannelId = processingChannelId;
+    this.webhookSecret = webhookSecret;
+
+    this.client = axios.create({
+      baseURL,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${secretKey}`
+      }
+    });
+
+    this.client.interceptors.request.use(
+      (config) => {
+        logger.info(`Checkout.com API Request: ${config.method?.toUpperCase()} ${config.url}`);
+        return config;
+      },
+      (error) => {
+        logger.error('Checkout.com API Request Error:', { message: error.message });
+        return Promise.reject(error);
+      }
+    );
+
+    this.client.interceptors.response.use(
+      (response) => {
+        logger.info(`Checkout.com API Response: ${response.status}`);
+        return response;
+      },
+      (error) => {
+        logger.error('Checkout.com API Response Error:', {
+          status: error.response?.status,
+          error_type: error.response?.data?.error_type,
+          error_codes: error.response?.data?.error_codes,
+          request_id: error.response?.data?.request_id,
+          message: error.message
+        });
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Request a payment with a token source
+   */
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    try {
+      const payload = this.buildPaymentPayload(request);
+
+      const response = await this.client.post('/payments', payload);
+
+      logger.info('Checkout.com payment requested', {
+        id: response.data.id,
+        status: response.data.status,
+        approved: response.data.approved,
+        response_code: response.data.response_code
+      });
+
+      return this.mapCheckoutResponse(response.data, request);
+    } catch (error: any) {
+      // Do NOT log the request payload — it may contain token data
+      logger.error('Checkout.com createPayment error:', {
+        status: error.response?.status,
+        error_type: error.response?.data?.error_type,
+        error_codes: error.response?.data?.error_codes,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get payment details by id (pay_…)
+   */
+  async getPayment(paymentId: string): Promise<PaymentResponse> {
+    try {
+      const response = await this.client.get(`/payments/${encodeURIComponent(paymentId)}`);
+      return this.mapCheckoutResponse(response.data);
+    } catch (error: any) {
+      logger.error('Checkout.com getPayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Refund a captured payment (full or partial).
+   * Checkout.com processes refunds asynchronously — 202 Accepted means the
+   * refund was queued; the payment_refunded webhook confirms it.
+   */
+  async refundPayment(paymentId: string, refundRequest?: RefundRequest): Promise<RefundResponse> {
+    try {
+      // Needed for the currency (minor-unit conversion) and full-refund amount
+      const original = await this.getPayment(paymentId);
+      const refundAmount = refundRequest?.amount ?? original.amount;
+
+      const payload: Record<string, any> = {
+        reference: `refund_${paymentId}_${Date.now()}`
+      };
+
+      if (refundRequest?.amount) {
+        payload.amount = toMinorUnits(refundRequest.amount, original.currency);
+      }
+
+      if (refundRequest?.reason) {
+        payload.metadata = { reason: refundRequest.reason };
+      }
+
+      const response = await this.client.post(
+        `/payments/${encodeURIComponent(paymentId)}/refunds`,
+        payload
+      );
+
+      return {
+        id: response.data.action_id,
+        payment_id: paymentId,
+        amount: refundAmount,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      };
+    } catch (error: any) {
+      logger.error('Checkout.com refundPayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Void an authorized, uncaptured payment
+   */
+  async voidPayment(paymentId: string): Promise<void> {
+    try {
+      await this.client.post(`/payments/${encodeURIComponent(paymentId)}/voids`, {
+        reference: `void_${paymentId}_${Date.now()}`
+      });
+    } catch (error: any) {
+      logger.error('Checkout.com voidPayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Capture an authorized payment (full or partial).
+   * The capture is asynchronous: the refreshed payment is returned, reported
+   * as PROCESSING until Checkout.com settles it (payment_captured webhook).
+   */
+  async capturePayment(paymentId: string, amount?: number): Promise<PaymentResponse> {
+    try {
+      const payload: Record<string, any> = {
+        reference: `capture_${paymentId}_${Date.now()}`
+      };
+
+      if (amount) {
+        const { currency } = await this.getPayment(paymentId);
+        payload.amount = toMinorUnits(amount, currency);
+      }
+
+      await this.client.post(`/payments/${encodeURIComponent(paymentId)}/captures`, payload);
+
+      const payment = await this.getPayment(paymentId);
+      if (payment.status === PaymentStatus.AUTHORIZED) {
+        payment.status = PaymentStatus.PROCESSING;
+      }
+      return payment;
+    } catch (error: any) {
+      logger.error('Checkout.com capturePayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  getProviderName(): PSPProvider {
+    return PSPProvider.CHECKOUT;
+  }
+
+  getCapabilities(): PSPCapabilities {
+    return {
+      payment_methods: [
+        PaymentMethod.CREDITCARD,
+        PaymentMethod.MADA,
+        PaymentMethod.APPLEPAY,
+        PaymentMethod.TOKEN
+      ],
+      currencies: [
+        Currency.SAR, Currency.AED, Currency.KWD, Currency.BHD,
+        Currency.QAR, Currency.OMR, Currency.USD, Currency.EUR
+      ],
+      supports_token: true,
+      supports_card_data: false,
+      supports_hosted_page: false,
+      supports_refund: true,
+      supports_void: true,
+      supports_capture: true,
+      method_currencies: { [PaymentMethod.MADA]: [Currency.SAR] }
+    };
+  }
+
+  /**
+   * Verify the Cko-Signature header: HMAC-SHA256 of the raw request body
+   * keyed by the webhook secret, hex-encoded.
+   */
+  verifyWebhook(input: WebhookVerificationInput): boolean {
+    if (!this.webhookSecret) {
+      logger.error('CHECKOUT_WEBHOOK_SECRET is not configured — rejecting webhook');
+      return false;
+    }
+
+    const signature = input.headers['cko-signature'] as string | undefined;
+    if (!signature) {
+      logger.warn('Checkout.com webhook received without Cko-Signature');
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(input.rawBody)
+      .digest('hex');
+
+    if (expected.length !== signature.length) return false;
+    return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  /**
+   * Checkout.com payment statuses → our unified status
+   */
+  mapStatus(ckoStatus: string | undefined): PaymentStatus {
+    const statusMap: Record<string, PaymentStatus> = {
+      'Pending': PaymentStatus.PENDING,
+      'Authorized': PaymentStatus.AUTHORIZED,
+      'Card Verified': PaymentStatus.AUTHORIZED,
+      'Partially Captured': PaymentStatus.PAID,
+      'Captured': PaymentStatus.PAID,
+      'Paid': PaymentStatus.PAID,
+      'Partially Refunded': PaymentStatus.PARTIALLY_REFUNDED,
+      'Refunded': PaymentStatus.REFUNDED,
+      'Voided': PaymentStatus.VOIDED,
+      'Canceled': PaymentStatus.VOIDED,
+      'Declined': PaymentStatus.FAILED,
+      'Expired': PaymentStatus.FAILED
+    };
+
+    return statusMap[ckoStatus ?? ''] ?? PaymentStatus.FAILED;
+  }
+
+  mapDeclineCode(rawCode?: string, message?: string): DeclineCode {
+    return normalizeDecline(CHECKOUT_DECLINES, rawCode, message) ?? DeclineCode.GENERIC_DECLINE;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private buildPaymentPayload(request: PaymentRequest): Record<string, any> {
+    const env = (key: string): string => (process.env[key] ?? '').trim();
+    const returnUrl = (request.callback_url ?? '').trim() || env('CHECKOUT_RETURN_URL');
+    if (!returnUrl) {
+      // 3DS sends the shopper back here — never to a URL the merchant didn't choose
+      throw new PSPError(
+        PSPProvider.CHECKOUT,
+        'Checkout.com Error: no return URL — send callback_url or set CHECKOUT_RETURN_URL',
+        { declineCode: DeclineCode.CONFIGURATION_ERROR }
+      );
+    }
+
+    const payload: Record<string, any> = {
+      source: {
+        type: 'token',
+        token: request.source?.token
+      },
+      amount: toMinorUnits(request.amount, request.currency),
+      currency: request.currency,
+      reference: `txn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      description: request.description || 'Payment',
+      capture: request.capture !== false,
+      '3ds': { enabled: true },
+      success_url: returnUrl,
+      failure_url: returnUrl
+    };
+
+    if (this.processingChannelId) {
+      payload.processing_channel_id = this.processingChannelId;
+    }
+
+    const customer = request.metadata?.customer;
+    if (customer?.email) {
+      payload.customer = { email: customer.email, name: customer.name };
+    }
+
+    if (request.metadata) {
+      const { customer: _c, ...rest } = request.metadata;
+      if (Object.keys(rest).length > 0) payload.metadata = rest;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Map a Checkout.com payment to our unified format.
+   * _links.redirect.href (3DS challenge) is exposed as payment_url.
+   */
+  private mapCheckoutResponse(payment: any, request?: PaymentRequest): PaymentResponse {
+    const scheme: string | undefined = payment.source?.scheme;
+    const lastFour: string | undefined = payment.source?.last4;
+
+    // Payment request responses omit status for some declines — fall back to approved flag
+    const status = payment.status
+      ? this.mapStatus(payment.status)
+      : payment.approved ? PaymentStatus.PAID : PaymentStatus.FAILED;
+
+    const currency = (payment.currency as Currency) || request?.currency || Currency.USD;
+
+    return {
+      id: payment.id,
+      status,
+      amount: payment.amount !== undefined ? fromMinorUnits(payment.amount, currency) : request?.amount ?? 0,
+      currency,
+      source: payment.source
+        ? {
+            type: (scheme || '').toLowerCase() === 'mada' ? PaymentMethod.MADA : PaymentMethod.CREDITCARD,
+            company: scheme,
+            name: payment.source.name,
+            number: lastFour ? `****${lastFour}` : undefined,
+            token: payment.source.id
+          }
+        : undefined,
+      created_at: payment.requested_on || payment.processed_on || new Date().toISOString(),
+      description: payment.description ?? request?.description,
+      metadata: payment.metadata ?? request?.metadata,
+      callback_url: request?.callback_url,
+      payment_url: payment._links?.redirect?.href,
+      response_code: payment.response_code,
+      decline_code: status === PaymentStatus.FAILED
+        ? this.mapDeclineCode(payment.response_code, payment.response_summary)
+        : undefined
+    };
+  }
+
+  private handleError(error: any): PSPError {
+    const data = error.response?.data;
+    const msg = data?.error_codes?.join(', ') || data?.error_type || error.message || 'Checkout.com API error';
+    logger.error(`Checkout.com Error [${data?.request_id ?? 'no request id'}]: ${msg}`);
+    const code: string | undefined = data?.error_codes?.[0];
+    return PSPError.from(
+      PSPProvider.CHECKOUT,
+      error,
+      `Checkout.com Error: ${msg}`,
+      code,
+      normalizeDecline(CHECKOUT_DECLINES, code, msg) ?? DeclineCode.INVALID_REQUEST
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import { PSPConfig, PSPProvider } from '../types/payment.types';
+import { loadPSPConfigs } from '../config/psp';
+import { logger } from '../utils/logger';
+import { PSPCapabilities, PSPConnector } from './PSPConnector';
+import { MoyasarConnector } from './MoyasarConnector';
+import { PayTabsConnector } from './PayTabsConnector';
+import { HyperPayConnector } from './HyperPayConnector';
+import { TapConnector } from './TapConnector';
+import { CheckoutConnector } from './CheckoutConnector';
+import { MockConnector } from './MockConnector';
+
+export type ConnectorFactory = (config: PSPConfig) => PSPConnector;
+
+/**
+ * Central registry of PSP connectors.
+ *
+ * Connectors register a factory; a PSPConfig decides whether the provider is
+ * enabled and supplies its credentials. Routes, validation, routing and
+ * webhooks all ask the registry which providers exist instead of hard-coding
+ * provider lists.
+ *
+ * Connector instances are built lazily on first use and reused afterwards.
+ * The configs held here are the platform-wide accounts from env; merchants'
+ * own accounts are built through build() by PSPAccountService.
+ */
+export class ConnectorRegistry {
+  private factories = new Map<PSPProvider, ConnectorFactory>();
+  private configs = new Map<PSPProvider, PSPConfig>();
+  private instances = new Map<PSPProvider, PSPConnector>();
+  private capabilities = new Map<PSPProvider, PSPCapabilities>();
+
+  /** Register the factory used to build a provider's connector */
+  register(provider: PSPProvider, factory: ConnectorFactory): void {
+    this.factories.set(provider, factory);
+    this.instances.delete(provider);
+    this.capabilities.delete(provider);
+  }
+
+  /** Apply (or replace) the configuration for a provider */
+  configure(config: PSPConfig): void {
+    this.configs.set(config.name, config);
+    this.instances.delete(config.name);
+  }
+
+  /** True when a connector implementation exists for the provider */
+  isSupported(provider: string): boolean {
+    return this.factories.has(provider as PSPProvider);
+  }
+
+  /** True when the provider is implemented AND configured as enabled */
+  isEnabled(provider: string): boolean {
+    return this.isSupported(provider) && !!this.configs.get(provider as PSPProvider)?.enabled;
+  }
+
+  getSupportedProviders(): PSPProvider[] {
+    return [...this.factories.keys()];
+  }
+
+  getEnabledProviders(): PSPProvider[] {
+    return this.getSupportedProviders().filter(p => this.isEnabled(p));
+  }
+
+  getConfig(provider: PSPProvider): PSPConfig | undefined {
+    return this.configs.get(provider);
+  }
+
+  /**
+   * What the provider's connector can do — undefined when unsupported.
+   * Capabilities belong to the implementation, not the account, so they are
+   * read once from a connector built with the platform config (or a blank
+   * one when the provider is only used through merchant accounts).
+   */
+  getCapabilities(provider: PSPProvider): PSPCapabilities | undefined {
+    const factory = this.factories.get(provider);
+    if (!factory) return undefined;
+
+    let capabilities = this.capabilities.get(provider);
+    if (!capabilities) {
+      const config = this.configs.get(provider) ?? { name: provider, api_key: '', api_url: '', enabled: false };
+      capabilities = factory(config).getCapabilities();
+      this.capabilities.set(provider, capabilities);
+    }
+    return capabilities;
+  }
+
+  /**
+   * Build a fresh, uncached connector from an arbitrary config — used for
+   * merchant-owned PSP accounts, which are cached by their own service.
+   */
+  build(config: PSPConfig): PSPConnector {
+    const factory = this.factories.get(config.name);
+    if (!factory) {
+      throw new Error(`Unsupported PSP provider: ${config.name}`);
+    }
+    return factory(config);
+  }
+
+  /**
+   * Get the platform connector for a provider.
+   * Throws when the provider has no implementation or is disabled.
+   */
+  get(provider: PSPProvider): PSPConnector {
+    if (!this.isSupported(provider)) {
+      throw new Error(`Unsupported PSP provider: ${provider}`);
+    }
+    if (!this.isEnabled(provider)) {
+      throw new Error(`PSP provider is not enabled: ${provider}`);
+    }
+
+    let connector = this.instances.get(provider);
+    if (!connector) {
+      connector = this.factories.get(provider)!(this.configs.get(provider)!);
+      this.instances.set(provider, connector);
+    }
+    return connector;
+  }
+}
+
+export const connectorRegistry = new ConnectorRegistry();
+
+connectorRegistry.register(
+  PSPProvider.MOYASAR,
+  (config) => new MoyasarConnector(config.api_key, config.api_url, config.webhook_secret)
+);
+
+connectorRegistry.register(
+  PSPProvider.PAYTABS,
+  (config) => new PayTabsConnector(
+    config.api_key,
+    parseInt(config.options?.profile_id || '0'),
+    config.api_url
+  )
+);
+
+connectorRegistry.register(
+  PSPProvider.HYPERPAY,
+  (config) => new HyperPayConnector(
+    config.api_key,
+    config.options?.entity_id || '',
+    config.options?.mada_entity_id,
+    config.api_url,
+    config.webhook_secret
+  )
+);
+
+connectorRegistry.register(
+  PSPProvider.TAP,
+  (config) => new TapConnector(config.api_key, config.api_url)
+);
+
+connectorRegistry.register(
+  PSPProvider.CHECKOUT,
+  (config) => new CheckoutConnector(
+    config.api_key,
+    config.api_url,
+    config.options?.processing_channel_id || undefined,
+    config.webhook_secret
+  )
+);
+
+// The mock PSP is a test tool, opted into with MOCK_PSP_ENABLED=true. Without
+// a factory (always in production) it is neither supported nor enabled, so
+// no rule, request or merchant account can use it.
+if (process.env.NODE_ENV !== 'production' && process.env.MOCK_PSP_ENABLED === 'true') {
+  connectorRegistry.register(
+    PSPProvider.MOCK,
+    (config) => new MockConnector(
+      config.api_url,
+      config.webhook_secret || '',
+      parseInt(config.options?.webhook_delay_ms || '3000'),
+      parseInt(config.options?.timeout_ms || '5000')
+    )
+  );
+}
+
+for (const config of loadPSPConfigs()) {
+  connectorRegistry.configure(config);
+}
+
+logger.info('[psp-init] Connector registry ready', {
+  supported: connectorRegistry.getSupportedProviders(),
+  enabled: connectorRegistry.getEnabledProviders()
+});
@@ -0,0 +1,546 @@
+import crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import {
+  PaymentRequest,
+  PaymentResponse,
+  RefundRequest,
+  RefundResponse,
+  PaymentStatus,
+  PaymentMethod,
+  PSPProvider,
+  Currency,
+  DeclineCode
+} from '../types/payment.types';
+import { logger } from '../utils/logger';
+import { formatAmount } from '../utils/currency';
+import { PSPConnector, PSPCapabilities, WebhookVerificationInput } from './PSPConnector';
+import { PSPError } from './PSPError';
+import { DeclineTable, normalizeDecline } from './declineCodes';
+
+/**
+ * HyperPay (OPPWA) result codes are grouped by prefix; the description text
+ * ("transaction declined (insufficient funds)") covers the rest.
+ */
+const HYPERPAY_DECLINES: DeclineTable = {
+  codePatterns: [
+    [/^800\.100\.(155|203)$/, DeclineCode.INSUFFICIENT_FUNDS],
+    [/^800\.100\.153$/, DeclineCode.INCORRECT_CVC],
+    [/^800\.100\.151$/, DeclineCode.INVALID_CARD],
+    [/^800\.100\.16[1-3]$/, DeclineCode.LIMIT_EXCEEDED],
+    [/^100\.100\./, DeclineCode.INVALID_CARD],
+    [/^(100\.390\.|100\.380\.401$)/, DeclineCode.THREE_DS_FAILED],
+    [/^(100\.400\.|800\.300\.|800\.400\.1)/, DeclineCode.FRAUD_SUSPECTED],
+    [/^(900\.|800\.5|999\.)/, DeclineCode.PROCESSOR_UNAVAILABLE],
+    [/^200\./, DeclineCode.INVALID_REQUEST]
+  ]
+};
+
+/**
+ * HyperPay (OPPWA) Payment Gateway Connector
+ * Docs: https://wordpresshyperpay.docs.oppwa.com/
+ *
+ * Supports two integration flows — selected automatically based on the request:
+ *
+ * ── Flow A: Server-to-server with a registration token ───────────────────────
+ *  The card was previously tokenised with HyperPay (createRegistration=true).
+ *  Frontend sends { source: { token: "REGISTRATION_ID" } } to our backend.
+ *  Backend debits the token via POST /v1/registrations/{id}/payments.
+ *
+ * ── Flow B: COPYandPAY checkout (fallback when no token) ─────────────────────
+ *  Backend prepares a checkout via POST /v1/checkouts and returns payment_url
+ *  pointing at the payment widget script for that checkout id.
+ *  Frontend renders the widget:
+ *    <script src="{payment_url}"></script>
+ *    <form action="{shopperResultUrl}" class="paymentWidgets" data-brands="MADA VISA MASTER"></form>
+ *  HyperPay notifies our webhook (encrypted) once the shopper completes payment.
+ *
+ * mada entity split:
+ *  HyperPay requires mada cards to be processed on a separate entity ID from
+ *  Visa/Mastercard. Requests with source.type === 'mada' use madaEntityId.
+ *
+ * Authentication: Bearer access token in the `Authorization` header.
+ * Requests are application/x-www-form-urlencoded; amounts are major-unit
+ * strings with the currency's decimals (e.g. "92.00" SAR, "92.000" KWD).
+ */
+export class HyperPayConnector implements PSPConnector {
+  private client: AxiosInstance;
+  private baseURL: string;
+  private entityId: string;
+  private madaEntityId: string;
+  private webhookSecret?: string;
+
+  constructor(
+    accessToken: string,
+    entityId: string,
+    madaEntityId?: string,
+    baseURL: string = 'https://eu-prod.oppwa.com',
+    webhookSecret?: string
+  ) {
+    this.baseURL = baseURL;
+    this.entityId = entityId;
+    // Fall back to the card entity when the merchant has no dedicated mada entity
+    this.madaEntityId = madaEntityId || entityId;
+    this.webhookSecret = webhookSecret;
+
+    this.client = axios.create({
+      baseURL: this.baseURL,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Bearer ${accessToken}`
+      }
+    });
+
+    this.client.interceptors.request.use(
+      (config) => {
+        logger.info(`HyperPay API Request: ${config.method?.toUpperCase()} ${config.url}`);
+        return config;
+      },
+      (error) => {
+        logger.error('HyperPay API Request Error:', { message: error.message });
+        return Promise.reject(error);
+      }
+    );
+
+    this.client.interceptors.response.use(
+      (response) => {
+        logger.info(`HyperPay API Response: ${response.status}`);
+        return response;
+      },
+      (error) => {
+        logger.error('HyperPay API Response Error:', {
+          status: error.response?.status,
+          result_code: error.response?.data?.result?.code,
+          result_description: error.response?.data?.result?.description,
+          message: error.message
+        });
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Create a payment via HyperPay.
+   *
+   * When source.token is present (Flow A): debits the registration token
+   * server-to-server and returns the final status.
+   *
+   * When no token is present (Flow B): prepares a COPYandPAY checkout and
+   * returns payment_url for the widget. Status is PENDING until the webhook.
+   */
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    if (request.source?.token) {
+      return this.createTokenPayment(request);
+    }
+    return this.createCheckout(request);
+  }
+
+  /**
+   * Flow A — server-to-server debit of a stored registration token.
+   */
+  private async createTokenPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    try {
+      const params = this.buildPaymentParams(request);
+      params.set('paymentType', request.capture === false ? 'PA' : 'DB');
+      // Customer-initiated use of a stored credential — the shopper is present
+      params.set('standingInstruction.mode', 'REPEATED');
+      params.set('standingInstruction.type', 'UNSCHEDULED');
+      params.set('standingInstruction.source', 'CIT');
+
+      const response = await this.client.post(
+        `/v1/registrations/${encodeURIComponent(request.source!.token!)}/payments`,
+        params.toString()
+      );
+
+      logger.info('HyperPay token payment processed', {
+        id: response.data.id,
+        result_code: response.data.result?.code
+      });
+
+      return this.mapHyperPayResponse(response.data, request);
+    } catch (error: any) {
+      logger.error('HyperPay createTokenPayment error:', {
+        status: error.response?.status,
+        result_code: error.response?.data?.result?.code,
+        result_description: error.response?.data?.result?.description,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Flow B — prepare a COPYandPAY checkout.
+   *
+   * The checkout id is stored as our psp_transaction_id; the webhook payload
+   * carries it back as `ndc` so the transaction can be matched.
+   */
+  private async createCheckout(request: PaymentRequest): Promise<PaymentResponse> {
+    try {
+      const params = this.buildPaymentParams(request);
+      params.set('paymentType', request.capture === false ? 'PA' : 'DB');
+
+      const response = await this.client.post('/v1/checkouts', params.toString());
+      const data = response.data;
+
+      if (!this.isPending(data.result?.code) && !this.isSuccessful(data.result?.code)) {
+        throw new Error(data.result?.description || 'Checkout preparation rejected');
+      }
+
+      logger.info('HyperPay checkout created', { checkout_id: data.id });
+
+      return {
+        id: data.id,
+        status: PaymentStatus.PENDING,
+        amount: request.amount,
+        currency: request.currency,
+        description: request.description,
+        metadata: request.metadata,
+        callback_url: request.callback_url,
+        created_at: new Date().toISOString(),
+        payment_url: `${this.baseURL}/v1/paymentWidgets.js?checkoutId=${encodeURIComponent(data.id)}`
+      };
+    } catch (error: any) {
+      logger.error('HyperPay createCheckout error:', {
+        status: error.response?.status,
+        result_code: error.response?.data?.result?.code,
+        result_description: error.response?.data?.result?.description,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Query payment status.
+   *
+   * Accepts either a payment id or a checkout id — checkout ids are resolved
+   * through /v1/checkouts/{id}/payment, payment ids through /v1/query/{id}.
+   */
+  async getPayment(paymentId: string): Promise<PaymentResponse> {
+    try {
+      const entityId = encodeURIComponent(this.entityId);
+      try {
+        const response = await this.client.get(
+          `/v1/checkouts/${encodeURIComponent(paymentId)}/payment?entityId=${entityId}`
+        );
+        return this.mapHyperPayResponse(response.data, undefined, paymentId);
+      } catch (checkoutError: any) {
+        // 404 / "invalid checkout id" means this is a payment id, not a checkout id
+        if (checkoutError.response?.status && checkoutError.response.status < 500) {
+          const response = await this.client.get(
+            `/v1/query/${encodeURIComponent(paymentId)}?entityId=${entityId}`
+          );
+          const payment = response.data.payments?.[0] ?? response.data;
+          return this.mapHyperPayResponse(payment, undefined, paymentId);
+        }
+        throw checkoutError;
+      }
+    } catch (error: any) {
+      logger.error('HyperPay getPayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Refund a payment (full or partial) — paymentType RF against the original.
+   */
+  async refundPayment(paymentId: string, refundRequest?: RefundRequest): Promise<RefundResponse> {
+    try {
+      const original = await this.getPayment(paymentId);
+      const refundAmount = refundRequest?.amount ?? original.amount;
+
+      const response = await this.client.post(
+        `/v1/payments/${encodeURIComponent(original.id)}`,
+        this.buildBackOfficeParams('RF', refundAmount, original.currency, original.source?.type).toString()
+      );
+      const data = response.data;
+
+      return {
+        id: data.id,
+        payment_id: paymentId,
+        amount: refundAmount,
+        status: this.isSuccessful(data.result?.code) ? 'refunded' : 'failed',
+        created_at: data.timestamp || new Date().toISOString()
+      };
+    } catch (error: any) {
+      logger.error('HyperPay refundPayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Reverse (void) a payment — paymentType RV against the original.
+   */
+  async voidPayment(paymentId: string): Promise<void> {
+    try {
+      const original = await this.getPayment(paymentId);
+      const params = new URLSearchParams({
+        entityId: this.entityIdFor(original.source?.type),
+        paymentType: 'RV'
+      });
+      const response = await this.client.post(
+        `/v1/payments/${encodeURIComponent(original.id)}`,
+        params.toString()
+      );
+      if (!this.isSuccessful(response.data.result?.code)) {
+        throw new Error(response.data.result?.description || 'Reversal rejected');
+      }
+    } catch (error: any) {
+      logger.error('HyperPay voidPayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Capture a pre-authorization (full or partial) — paymentType CP.
+   */
+  async capturePayment(paymentId: string, amount?: number): Promise<PaymentResponse> {
+    try {
+      const original = await this.getPayment(paymentId);
+      const captureAmount = amount ?? original.amount;
+
+      const response = await this.client.post(
+        `/v1/payments/${encodeURIComponent(original.id)}`,
+        this.buildBackOfficeParams('CP', captureAmount, original.currency, original.source?.type).toString()
+      );
+
+      return this.mapHyperPayResponse(response.data);
+    } catch (error: any) {
+      logger.error('HyperPay capturePayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  getProviderName(): PSPProvider {
+    return PSPProvider.HYPERPAY;
+  }
+
+  getCapabilities(): PSPCapabilities {
+    return {
+      payment_methods: [
+        PaymentMethod.CREDITCARD,
+        PaymentMethod.MADA,
+        PaymentMethod.APPLEPAY,
+        PaymentMethod.STC_PAY,
+        PaymentMethod.TOKEN
+      ],
+      currencies: [
+        Currency.SAR, Currency.AED, Currency.KWD, Currency.BHD,
+        Currency.QAR, Currency.OMR, Currency.USD, Currency.EUR
+      ],
+      supports_token: true,
+      supports_card_data: false,
+      supports_hosted_page: true,
+      supports_refund: true,
+      supports_void: true,
+      supports_capture: true,
+      method_currencies: { [PaymentMethod.MADA]: [Currency.SAR], [PaymentMethod.STC_PAY]: [Currency.SAR] }
+    };
+  }
+
+  /**
+   * HyperPay webhooks are AES-256-GCM encrypted; a payload that decrypts and
+   * passes the GCM authentication tag can only come from HyperPay.
+   */
+  verifyWebhook(input: WebhookVerificationInput): boolean {
+    try {
+      this.decryptWebhook(input);
+      return true;
+    } catch (error: any) {
+      logger.warn('HyperPay webhook decryption failed', { message: error.message });
+      return false;
+    }
+  }
+
+  /**
+   * Decrypt a HyperPay webhook notification.
+   *
+   * The body is the hex-encoded ciphertext; the IV and GCM auth tag are sent
+   * hex-encoded in the X-Initialization-Vector and X-Authentication-Tag
+   * headers. The key is the hex webhook secret from the HyperPay dashboard.
+   *
+   * @returns The decrypted notification, e.g. { type: 'PAYMENT', payload: {...} }
+   */
+  decryptWebhook(input: WebhookVerificationInput): any {
+    if (!this.webhookSecret) {
+      throw new Error('HYPERPAY_WEBHOOK_SECRET is not configured');
+    }
+
+    const iv = input.headers['x-initialization-vector'] as string | undefined;
+    const authTag = input.headers['x-authentication-tag'] as string | undefined;
+    if (!iv || !authTag) {
+      throw new Error('Missing X-Initialization-Vector or X-Authentication-Tag header');
+    }
+
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      Buffer.from(this.webhookSecret, 'hex'),
+      Buffer.from(iv, 'hex')
+    );
+    decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(input.rawBody.trim(), 'hex')),
+      decipher.final()
+    ]).toString('utf8');
+
+    return JSON.parse(plaintext);
+  }
+
+  /**
+   * Map a HyperPay result code to our unified status.
+   *
+   * HyperPay reports outcomes as result.code patterns rather than a status
+   * field — see https://wordpresshyperpay.docs.oppwa.com/reference/resultCodes
+   *  000.000.*, 000.100.1*, 000.3*, 000.6*  = successful
+   *  000.400.0*, 000.400.100                = successful, flagged for manual review
+   *  000.200.*, 800.400.5*, 100.400.500     = pending
+   *  anything else                          = rejected
+   *
+   * paymentType decides what a success means: PA (pre-authorization) leaves
+   * the payment AUTHORIZED, RF a refund, RV a reversal.
+   */
+  mapStatus(resultCode: string | undefined, paymentType?: string): PaymentStatus {
+    if (this.isPending(resultCode)) return PaymentStatus.PENDING;
+    if (!this.isSuccessful(resultCode)) return PaymentStatus.FAILED;
+
+    const map: Record<string, PaymentStatus> = {
+      PA: PaymentStatus.AUTHORIZED,
+      RF: PaymentStatus.REFUNDED,
+      RV: PaymentStatus.VOIDED
+    };
+    return map[paymentType ?? ''] ?? PaymentStatus.PAID;
+  }
+
+  mapDeclineCode(rawCode?: string, message?: string): DeclineCode {
+    return normalizeDecline(HYPERPAY_DECLINES, rawCode, message) ?? DeclineCode.GENERIC_DECLINE;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private isSuccessful(code: string | undefined): boolean {
+    return /^(000\.000\.|000\.100\.1|000\.[36]|000\.400\.0[^3]|000\.400\.100)/.test(code ?? '');
+  }
+
+  private isPending(code: string | undefined): boolean {
+    return /^(000\.200|800\.400\.5|100\.400\.500)/.test(code ?? '');
+  }
+
+  private entityIdFor(type: PaymentMethod | undefined): string {
+    return type === PaymentMethod.MADA ? this.madaEntityId : this.entityId;
+  }
+
+  private buildPaymentParams(request: PaymentRequest): URLSearchParams {
+    const params = new URLSearchParams({
+      entityId: this.entityIdFor(request.source?.type),
+      amount: formatAmount(request.amount, request.currency),
+      currency: request.currency,
+      merchantTransactionId: `txn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+    });
+
+    if (request.description) {
+      params.set('descriptor', request.description.slice(0, 127));
+    }
+
+    if (request.callback_url) {
+      params.set('shopperResultUrl', request.callback_url);
+    }
+
+    // Customer details improve 3DS frictionless rates
+    const customer = request.metadata?.customer;
+    if (customer?.email) params.set('customer.email', customer.email);
+    if (customer?.name) params.set('customer.givenName', customer.name);
+
+    if (request.metadata) {
+      const { customer: _c, ...rest } = request.metadata;
+      for (const [key, value] of Object.entries(rest)) {
+        params.set(`customParameters[${key}]`, String(value));
+      }
+    }
+
+    return params;
+  }
+
+  private buildBackOfficeParams(
+    paymentType: 'RF' | 'CP',
+    amount: number,
+    currency: Currency,
+    sourceType?: PaymentMethod
+  ): URLSearchParams {
+    return new URLSearchParams({
+      entityId: this.entityIdFor(sourceType),
+      amount: formatAmount(amount, currency),
+      currency,
+      paymentType
+    });
+  }
+
+  /**
+   * Map a HyperPay payment object to our unified format.
+   *
+   * HyperPay returns only bin + last4Digits for cards — we expose the
+   * last four only, consistent with the other connectors.
+   */
+  private mapHyperPayResponse(
+    data: any,
+    request?: PaymentRequest,
+    fallbackId?: string
+  ): PaymentResponse {
+    const lastFour: string | undefined = data.card?.last4Digits;
+    const brand: string | undefined = data.paymentBrand;
+
+    // 3DS challenge — redirect.url is where the customer must authenticate
+    const redirectUrl: string | undefined = data.redirect?.url;
+
+    const status = this.mapStatus(data.result?.code, data.paymentType);
+
+    return {
+      id: data.id ?? fallbackId,
+      status,
+      amount: data.amount !== undefined ? parseFloat(data.amount) : request?.amount ?? 0,
+      currency: (data.currency as Currency) || request?.currency || Currency.SAR,
+      source: {
+        type: brand?.toUpperCase() === 'MADA' ? PaymentMethod.MADA : PaymentMethod.CREDITCARD,
+        company: brand,
+        name: data.card?.holder,
+        number: lastFour ? `****${lastFour}` : undefined,
+        token: data.registrationId
+      },
+      created_at: data.timestamp || new Date().toISOString(),
+      description: data.descriptor ?? request?.description,
+      metadata: request?.metadata,
+      callback_url: request?.callback_url,
+      payment_url: redirectUrl,
+      response_code: data.result?.code,
+      decline_code: status === PaymentStatus.FAILED
+        ? this.mapDeclineCode(data.result?.code, data.result?.description)
+        : undefined
+    };
+  }
+
+  private handleError(error: any): PSPError {
+    const code: string | undefined = error.response?.data?.result?.code;
+    const msg =
+      error.response?.data?.result?.description ||
+      error.message ||
+      'HyperPay API error';
+    logger.error(`HyperPay Error [${code ?? 'unknown'}]: ${msg}`);
+    // HyperPay answers declines with HTTP 400 and a result code, so errors go
+    // through the same mapping as declined payments
+    return PSPError.from(PSPProvider.HYPERPAY, error, `HyperPay Error: ${msg}`, code, this.mapDeclineCode(code, msg));
+  }
+}
@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import {
+  PaymentRequest,
+  PaymentResponse,
+  RefundRequest,
+  RefundResponse,
+  PaymentStatus,
+  PaymentMethod,
+  PSPProvider,
+  Currency,
+  DeclineCode
+} from '../types/payment.types';
+import { logger } from '../utils/logger';
+import { PSPConnector, PSPCapabilities, WebhookVerificationInput } from './PSPConnector';
+import { PSPError } from './PSPError';
+import { DeclineTable, ISO8583_DECLINE_CODES, normalizeDecline } from './declineCodes';
+
+/** What the mock PSP does with a payment, chosen by card, token or amount */
+type MockScenario =
+  | 'approve'
+  | 'decline'
+  | 'insufficient_funds'
+  | 'soft_decline'
+  | '3ds'
+  | 'delayed'
+  | 'timeout'
+  | 'outage';
+
+/**
+ * Magic card numbers. Any expiry / CVC is accepted.
+ */
+export const MOCK_CARDS: Record<string, MockScenario> = {
+  '4111111111111111': 'approve',
+  '4000000000000002': 'decline',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000036': 'soft_decline',
+  '4000000000003220': '3ds',
+  '4000000000000077': 'delayed',
+  '4000000000000119': 'timeout',
+  '4000000000000500': 'outage'
+};
+
+/**
+ * Magic amounts, matched on the minor-unit part when no magic card or token
+ * was sent — handy for hosted-page flows without a source (e.g. 10.02 SAR).
+ */
+export const MOCK_AMOUNT_CENTS: Record<string, MockScenario> = {
+  '02': 'decline',
+  '51': 'insufficient_funds',
+  '91': 'soft_decline',
+  '20': '3ds',
+  '77': 'delayed',
+  '98': 'timeout',
+  '99': 'outage'
+};
+
+/** Decline codes the mock reports, ISO 8583 style like most acquirers */
+const DECLINES: Partial<Record<MockScenario, { code: string; message: string }>> = {
+  decline: { code: '05', message: 'Do not honour' },
+  insufficient_funds: { code: '51', message: 'Insufficient funds' },
+  soft_decline: { code: '91', message: 'Issuer unavailable' }
+};
+
+const MOCK_DECLINES: DeclineTable = {
+  codes: { ...ISO8583_DECLINE_CODES, '3ds_failed': DeclineCode.THREE_DS_FAILED }
+};
+
+interface MockPayment {
+  id: string;
+  status: PaymentStatus;
+  amount: number;
+  currency: Currency;
+  captured_amount: number;
+  refunded_amount: number;
+  description?: string;
+  metadata?: Record<string, any>;
+  callback_url?: string;
+  response_code?: string;
+  message?: string;
+  last_four: string;
+  created_at: string;
+}
+
+// Shared by every MockConnector instance (platform and merchant accounts) so
+// the 3DS completion page can find the payment whichever instance made it.
+const payments = new Map<string, MockPayment>();
+
+/**
+ * Mock PSP Connector — a built-in, offline PSP for QA and merchant
+ * integration testing. Only registered outside production.
+ *
+ * Behaviour is picked by magic card numbers (MOCK_CARDS), tokens of the form
+ * `tok_mock_<scenario>` (e.g. tok_mock_decline), or magic amounts
+ * (MOCK_AMOUNT_CENTS). Anything else is approved.
+ *
+ *  approve            → paid (or authorized with capture: false)
+ *  decline            → failed, code 05
+ *  insufficient_funds → failed, code 51
+ *  soft_decline       → failed, code 91 — useful with FAILOVER_SOFT_DECLINE_CODES
+ *  3ds                → pending with payment_url to a mock challenge page;
+ *                       completing it sends the webhook
+ *  delayed            → pending; the outcome arrives by webhook after the delay
+ *  timeout            → no response (network error) after the timeout
+ *  outage             → HTTP 503 from the "PSP"
+ *
+ * Webhooks are POSTed to <base url>/webhooks/mock, signed with the
+ * `x-mock-signature` header (HMAC-SHA256 of the raw body, webhook secret).
+ * State lives in memory and is lost on restart.
+ */
+export class MockConnector implements PSPConnector {
+  private baseURL: string;
+  private webhookSecret: string;
+  private webhookDelayMs: number;
+  private timeoutMs: number;
+
+  constructor(
+    baseURL: string,
+    webhookSecret: string,
+    webhookDelayMs: number = 3000,
+    timeoutMs: number = 5000
+  ) {
+    this.baseURL = baseURL.replace(/\/$/, '');
+    this.webhookSecret = webhookSecret;
+    this.webhookDelayMs = webhookDelayMs;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    const scenario = this.scenarioFor(request);
+    logger.info(`Mock PSP createPayment: scenario=${scenario}`);
+
+    if (scenario === 'timeout') {
+      await new Promise(resolve => setTimeout(resolve, this.timeoutMs));
+      throw new PSPError(PSPProvider.MOCK, 'Mock PSP Error: request timed out', { isNetworkError: true });
+    }
+    if (scenario === 'outage') {
+      throw new PSPError(PSPProvider.MOCK, 'Mock PSP Error: service unavailable', { httpStatus: 503 });
+    }
+
+    const decline = DECLINES[scenario];
+    const authorizeOnly = request.capture === false;
+    const approvedStatus = authorizeOnly ? PaymentStatus.AUTHORIZED : PaymentStatus.PAID;
+
+    const payment: MockPayment = {
+      id: `mock_${crypto.randomBytes(12).toString('hex')}`,
+      status: decline
+        ? PaymentStatus.FAILED
+        : scenario === 'approve' ? approvedStatus : PaymentStatus.PENDING,
+      amount: request.amount,
+      currency: request.currency,
+      captured_amount: scenario === 'approve' && !authorizeOnly ? request.amount : 0,
+      refunded_amount: 0,
+      description: request.description,
+      metadata: request.metadata,
+      callback_url: request.callback_url,
+      response_code: decline?.code ?? (scenario === 'approve' ? '00' : undefined),
+      message: decline?.message,
+      last_four: (request.source?.number ?? '').slice(-4) || '1111',
+      created_at: new Date().toISOString()
+    };
+    payments.set(payment.id, payment);
+
+    if (scenario === 'delayed') {
+      setTimeout(() => {
+        this.settle(payment, approvedStatus);
+      }, this.webhookDelayMs);
+    }
+
+    return this.toResponse(payment, scenario === '3ds');
+  }
+
+  async getPayment(paymentId: string): Promise<PaymentResponse> {
+    return this.toResponse(this.find(paymentId));
+  }
+
+  async refundPayment(paymentId: string, refundRequest?: RefundRequest): Promise<RefundResponse> {
+    const payment = this.find(paymentId);
+    const refundable = payment.captured_amount - payment.refunded_amount;
+    const amount = refundRequest?.amount ?? refundable;
+
+    if (payment.captured_amount === 0 || amount > refundable + 1e-9) {
+      throw new PSPError(PSPProvider.MOCK, 'Mock PSP Error: refund amount exceeds captured amount', {
+        httpStatus: 400,
+        code: 'invalid_amount',
+        declineCode: DeclineCode.INVALID_REQUEST
+      });
+    }
+
+    payment.refunded_amount += amount;
+    payment.status =
+      payment.refunded_amount >= payment.captured_amount
+        ? PaymentStatus.REFUNDED
+        : PaymentStatus.PARTIALLY_REFUNDED;
+
+    this.scheduleWebhook('payment.refunded', payment);
+
+    return {
+      id: `mock_rf_${crypto.randomBytes(8).toString('hex')}`,
+      payment_id: paymentId,
+      amount,
+      status: 'succeeded',
+      reason: refundRequest?.reason,
+      created_at: new Date().toISOString()
+    };
+  }
+
+  async voidPayment(paymentId: string): Promise<void> {
+    const payment = this.find(paymentId);
+    if (payment.status !== PaymentStatus.AUTHORIZED && payment.status !== PaymentStatus.PAID) {
+      throw new PSPError(PSPProvider.MOCK, `Mock PSP Error: cannot void a ${payment.status} payment`, {
+        httpStatus: 400,
+        declineCode: DeclineCode.INVALID_REQUEST
+      });
+    }
+    payment.status = PaymentStatus.VOIDED;
+  }
+
+  async capturePayment(paymentId: string, amount?: number): Promise<PaymentResponse> {
+    const payment = this.find(paymentId);
+    if (payment.status !== PaymentStatus.AUTHORIZED) {
+      throw new PSPError(PSPProvider.MOCK, `Mock PSP Error: cannot capture a ${payment.status} payment`, {
+        httpStatus: 400,
+        declineCode: DeclineCode.INVALID_REQUEST
+      });
+    }
+
+    payment.captured_amount = amount ?? payment.amount;
+    payment.status = PaymentStatus.PAID;
+    return this.toResponse(payment);
+  }
+
+  getProviderName(): PSPProvider {
+    return PSPProvider.MOCK;
+  }
+
+  getCapabilities(): PSPCapabilities {
+    // The mock stands in for any PSP, so it accepts every method and currency
+    return {
+      payment_methods: Object.values(PaymentMethod),
+      currencies: Object.values(Currency),
+      supports_token: true,
+      supports_card_data: true,
+      supports_hosted_page: true,
+      supports_refund: true,
+      supports_void: true,
+      supports_capture: true
+    };
+  }
+
+  /**
+   * Verify the x-mock-signature header: HMAC-SHA256 of the raw body keyed by
+   * the webhook secret, hex-encoded.
+   */
+  verifyWebhook(input: WebhookVerificationInput): boolean {
+    const signature = input.headers['x-mock-signature'] as string | undefined;
+    if (!signature) {
+      logger.warn('Mock PSP webhook received without x-mock-signature');
+      return false;
+    }
+
+    const expected = this.sign(input.rawBody);
+    if (expected.length !== signature.length) return false;
+    return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  /**
+   * Complete the mock 3DS challenge of a pending payment and send the
+   * resulting webhook. Returns the URL to send the customer back to.
+   */
+  complete3DS(paymentId: string, success: boolean): string | undefined {
+    const payment = this.find(paymentId);
+    if (payment.status === PaymentStatus.PENDING) {
+      this.settle(payment, success ? PaymentStatus.PAID : PaymentStatus.FAILED);
+    }
+    return payment.callback_url;
+  }
+
+  mapDeclineCode(rawCode?: string, message?: string): DeclineCode {
+    return normalizeDecline(MOCK_DECLINES, rawCode, message) ?? DeclineCode.GENERIC_DECLINE;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private scenarioFor(request: PaymentRequest): MockScenario {
+    const number = (request.source?.number ?? '').replace(/\s/g, '');
+    if (MOCK_CARDS[number]) return MOCK_CARDS[number];
+
+    const token = request.source?.token ?? '';
+    const fromToken = token.startsWith('tok_mock_') ? token.slice('tok_mock_'.length) : '';
+    if (Object.values(MOCK_CARDS).includes(fromToken as MockScenario)) {
+      return fromToken as MockScenario;
+    }
+
+    const cents = Number(request.amount).toFixed(2).slice(-2);
+    return MOCK_AMOUNT_CENTS[cents] ?? 'approve';
+  }
+
+  private find(paymentId: string): MockPayment {
+    const payment = payments.get(paymentId);
+    if (!payment) {
+      throw new PSPError(PSPProvider.MOCK, `Mock PSP Error: payment ${paymentId} not found`, {
+        httpStatus: 404
+      });
+    }
+    return payment;
+  }
+
+  /** Move a pending payment to its final status and send the webhook */
+  private settle(payment: MockPayment, status: PaymentStatus): void {
+    payment.status = status;
+    if (status === PaymentStatus.PAID) {
+      payment.captured_amount = payment.amount;
+      payment.response_code = '00';
+    } else if (status === PaymentStatus.FAILED) {
+      payment.response_code = '3ds_failed';
+      payment.message = 'Authentication failed';
+    }
+    this.scheduleWebhook(`payment.${status}`, payment);
+  }
+
+  private scheduleWebhook(type: string, payment: MockPayment): void {
+    const body = JSON.stringify({ type, data: this.toResponse(payment), message: payment.message });
+
+    axios
+      .post(`${this.baseURL}/webhooks/mock`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-mock-signature': this.sign(body)
+        },
+        timeout: 10_000
+      })
+      .then(() => logger.info(`Mock PSP webhook sent: ${type} for ${payment.id}`))
+      .catch((error) => logger.warn(`Mock PSP webhook ${type} for ${payment.id} failed: ${error.message}`));
+  }
+
+  private sign(rawBody: string): string {
+    return crypto.createHmac('sha256', this.webhookSecret).update(rawBody).digest('hex');
+  }
+
+  private toResponse(payment: MockPayment, challenge: boolean = false): PaymentResponse {
+    return {
+      id: payment.id,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+      source: {
+        type: PaymentMethod.CREDITCARD,
+        company: 'mock',
+        number: `****${payment.last_four}`
+      },
+      created_at: payment.created_at,
+      description: payment.description,
+      metadata: payment.metadata,
+      callback_url: payment.callback_url,
+      payment_url: challenge ? `${this.baseURL}/mock-psp/3ds/${payment.id}` : undefined,
+      response_code: payment.response_code,
+      decline_code: payment.status === PaymentStatus.FAILED
+        ? this.mapDeclineCode(payment.response_code, payment.message)
+        : undefined
+    };
+  }
+}
@@ -6,9 +6,36 @@ import {
   RefundRequest,
   RefundResponse,
   PaymentStatus,
-  PSPProvider
+  PaymentMethod,
+  PSPProvider,
+  Currency,
+  DeclineCode
 } from '../types/payment.types';
 import { logger } from '../utils/logger';
+import { toMinorUnits, fromMinorUnits } from '../utils/currency';
+import { PSPConnector, PSPCapabilities, WebhookVerificationInput } from './PSPConnector';
+import { PSPError } from './PSPError';
+import { DeclineTable, ISO8583_DECLINE_CODES, normalizeDecline } from './declineCodes';
+
+/**
+ * Moyasar reports the acquirer's ISO 8583 code in source.response_code and a
+ * message such as "INSUFFICIENT_FUNDS" in source.message; API errors carry an
+ * error `type`.
+ */
+const MOYASAR_DECLINES: DeclineTable = {
+  codes: {
+    ...ISO8583_DECLINE_CODES,
+    invalid_request_error: DeclineCode.INVALID_REQUEST,
+    authentication_error: DeclineCode.CONFIGURATION_ERROR,
+    account_inactive_error: DeclineCode.CONFIGURATION_ERROR,
+    api_error: DeclineCode.PROCESSOR_UNAVAILABLE,
+    rate_limit_error: DeclineCode.PROCESSOR_UNAVAILABLE
+  },
+  messagePatterns: [
+    [/^(declined|referred)$/i, DeclineCode.DO_NOT_HONOR],
+    [/^blocked$/i, DeclineCode.CARD_NOT_SUPPORTED]
+  ]
+};
 
 /**
  * Moyasar Payment Gateway Connector
@@ -24,7 +51,7 @@ import { logger } from '../utils/logger';
  *    <script src="https://cdn.moyasar.com/mpf/1.14.1/moyasar.js"></script>
  *    Moyasar.init({
  *      element: '.mysr-form',
- *      amount: 10000,           // in halalas
+ *      amount: 10000,           // in minor units (halalas)
  *      currency: 'SAR',
  *      description: 'Payment',
  *      publishable_api_key: 'YOUR_PUBLISHABLE_KEY',
@@ -33,14 +60,20 @@ import { logger } from '../utils/logger';
  *    // On success, Moyasar calls callback_url with ?token=TOKEN
  *    // Extract the token and POST it as source.token to our /payments endpoint
  */
-export class MoyasarConnector {
+export class MoyasarConnector implements PSPConnector {
   private client: AxiosInstance;
   private apiKey: string;
   private baseURL: string;
+  private webhookSecret?: string;
 
-  constructor(apiKey: string, baseURL: string = 'https://api.moyasar.com/v1') {
+  constructor(
+    apiKey: string,
+    baseURL: string = 'https://api.moyasar.com/v1',
+    webhookSecret?: string
+  ) {
     this.apiKey = apiKey;
     this.baseURL = baseURL;
+    this.webhookSecret = webhookSecret;
 
     // Create Axios instance with authentication
     this.client = axios.create({
@@ -143,7 +176,9 @@ export class MoyasarConnector {
       const payload: any = {};
       
       if (refundRequest?.amount) {
-        payload.amount = Math.round(refundRequest.amount * 100); // Convert to halalas
+        // Moyasar wants minor units, so the payment's currency is needed
+        const { currency } = await this.getPayment(paymentId);
+        payload.amount = toMinorUnits(refundRequest.amount, currency);
       }
       
       if (refundRequest?.reason) {
@@ -155,7 +190,7 @@ export class MoyasarConnector {
       return {
         id: response.data.id,
         payment_id: paymentId,
-        amount: response.data.amount / 100, // Convert from halalas
+        amount: fromMinorUnits(response.data.amount, response.data.currency),
         status: response.data.status,
         created_at: response.data.created_at
       };
@@ -184,6 +219,32 @@ export class MoyasarConnector {
     }
   }
 
+  /**
+   * Capture a previously authorized payment (full or partial)
+   * @param paymentId Moyasar payment ID
+   * @param amount Amount to capture in major units — omit to capture the full authorization
+   */
+  async capturePayment(paymentId: string, amount?: number): Promise<PaymentResponse> {
+    try {
+      const payload: any = {};
+
+      if (amount) {
+        const { currency } = await this.getPayment(paymentId);
+        payload.amount = toMinorUnits(amount, currency);
+      }
+
+      const response = await this.client.post(`/payments/${paymentId}/capture`, payload);
+
+      return this.mapMoyasarResponse(response.data);
+    } catch (error: any) {
+      logger.error('Moyasar capturePayment error:', {
+        message: error.message,
+        status: error.response?.status
+      });
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Build Moyasar API payload from our unified format
    */
@@ -197,14 +258,14 @@ export class MoyasarConnector {
 
     logger.info('[moyasar] buildPaymentPayload', {
       callback_url: callbackUrl,
-      amount_halalas: Math.round(request.amount * 100),
+      amount_minor: toMinorUnits(request.amount, request.currency),
       currency: request.currency,
       source_type: request.source?.type,
       has_token: !!request.source?.token
     });
 
     const payload: any = {
-      amount: Math.round(request.amount * 100), // Convert to halalas (SAR smallest unit)
+      amount: toMinorUnits(request.amount, request.currency), // halalas, fils, cents…
       currency: request.currency,
       description: request.description || 'Payment',
       callback_url: callbackUrl
@@ -234,6 +295,11 @@ export class MoyasarConnector {
       }
     }
 
+    // Authorize only — Moyasar holds the funds until POST /payments/:id/capture
+    if (request.capture === false && payload.source) {
+      payload.source.manual = 'true';
+    }
+
     // Add metadata
     if (request.metadata) {
       payload.metadata = request.metadata;
@@ -260,12 +326,14 @@ export class MoyasarConnector {
     const verificationUrl: string | undefined =
       moyasarPayment.source?.verification_url ?? undefined;
 
+    const status = this.mapStatus(moyasarPayment.status);
+
     return {
       id: moyasarPayment.id,
-      status: this.mapStatus(moyasarPayment.status),
-      amount: moyasarPayment.amount / 100, // Convert from halalas to SAR
+      status,
+      amount: fromMinorUnits(moyasarPayment.amount, moyasarPayment.currency),
       currency: moyasarPayment.currency,
-      fee: moyasarPayment.fee ? moyasarPayment.fee / 100 : undefined,
+      fee: moyasarPayment.fee ? fromMinorUnits(moyasarPayment.fee, moyasarPayment.currency) : undefined,
       source: moyasarPayment.source
         ? {
             type: moyasarPayment.source.type,
@@ -282,10 +350,18 @@ export class MoyasarConnector {
       description: moyasarPayment.description,
       metadata: moyasarPayment.metadata,
       callback_url: moyasarPayment.callback_url,
-      payment_url: verificationUrl
+      payment_url: verificationUrl,
+      response_code: moyasarPayment.source?.response_code ?? undefined,
+      decline_code: status === PaymentStatus.FAILED
+        ? this.mapDeclineCode(moyasarPayment.source?.response_code, moyasarPayment.source?.message)
+        : undefined
     };
   }
 
+  mapDeclineCode(rawCode?: string, message?: string): DeclineCode {
+    return normalizeDecline(MOYASAR_DECLINES, rawCode, message) ?? DeclineCode.GENERIC_DECLINE;
+  }
+
   /**
    * Map Moyasar payment status to our unified status
    */
@@ -296,6 +372,8 @@ export class MoyasarConnector {
       'processing': PaymentStatus.PROCESSING,
       'authorized': PaymentStatus.AUTHORIZED,
       'paid': PaymentStatus.PAID,
+      // What POST /payments/:id/capture answers with
+      'captured': PaymentStatus.PAID,
       'failed': PaymentStatus.FAILED,
       'refunded': PaymentStatus.REFUNDED,
       'partially_refunded': PaymentStatus.PARTIALLY_REFUNDED,
@@ -308,7 +386,7 @@ export class MoyasarConnector {
   /**
    * Handle and format errors from Moyasar API
    */
-  private handleError(error: any): Error {
+  private handleError(error: any): PSPError {
     if (error.response?.data) {
       const moyasarError = error.response.data;
       const errorMessage = moyasarError.message || moyasarError.error || 'Unknown Moyasar error';
@@ -316,10 +394,16 @@ export class MoyasarConnector {
       
       logger.error(`Moyasar Error [${errorType}]: ${errorMessage}`);
       
-      return new Error(`Moyasar Error: ${errorMessage}`);
+      return PSPError.from(
+        PSPProvider.MOYASAR,
+        error,
+        `Moyasar Error: ${errorMessage}`,
+        errorType,
+        normalizeDecline(MOYASAR_DECLINES, errorType, errorMessage) ?? DeclineCode.INVALID_REQUEST
+      );
     }
     
-    return new Error(error.message || 'Moyasar API error');
+    return PSPError.from(PSPProvider.MOYASAR, error, error.message || 'Moyasar API error');
   }
 
   /**
@@ -339,10 +423,57 @@ export class MoyasarConnector {
     );
   }
 
+  /**
+   * Verify an inbound webhook using the x-moyasar-signature header.
+   * Rejects when no webhook secret is configured — verification is mandatory.
+   */
+  verifyWebhook(input: WebhookVerificationInput): boolean {
+    if (!this.webhookSecret) {
+      logger.error('MOYASAR_WEBHOOK_SECRET is not configured — rejecting webhook');
+      return false;
+    }
+
+    const signature = input.headers['x-moyasar-signature'] as string | undefined;
+    if (!signature) {
+      logger.warn('Moyasar webhook received without signature');
+      return false;
+    }
+
+    // timingSafeEqual throws on length mismatch — a SHA-256 hex digest is 64 chars
+    if (!/^[0-9a-f]{64}$/i.test(signature)) return false;
+
+    return MoyasarConnector.verifyWebhookSignature(input.rawBody, signature, this.webhookSecret);
+  }
+
   /**
    * Get PSP provider name
    */
   getProviderName(): PSPProvider {
     return PSPProvider.MOYASAR;
   }
+
+  getCapabilities(): PSPCapabilities {
+    return {
+      payment_methods: [
+        PaymentMethod.CREDITCARD,
+        PaymentMethod.MADA,
+        PaymentMethod.APPLEPAY,
+        PaymentMethod.STC_PAY,
+        PaymentMethod.TOKEN
+      ],
+      currencies: [
+        Currency.SAR, Currency.USD, Currency.AED,
+        Currency.KWD, Currency.BHD, Currency.QAR, Currency.OMR
+      ],
+      supports_token: true,
+      supports_card_data: true,
+      supports_hosted_page: false,
+      supports_refund: true,
+      supports_void: true,
+      supports_capture: true,
+      // Moyasar rejects amounts under 1.00 SAR
+      amount_limits: { [Currency.SAR]: { min: 1 } },
+      method_currencies: { [PaymentMethod.MADA]: [Currency.SAR], [PaymentMethod.STC_PAY]: [Currency.SAR] }
+    };
+  }
 }
\ No newline at end of file
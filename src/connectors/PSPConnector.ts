@@ -0,0 +1,69 @@
+import { IncomingHttpHeaders } from 'http';
+import {
+  PaymentRequest,
+  PaymentResponse,
+  RefundRequest,
+  RefundResponse,
+  PaymentMethod,
+  PSPProvider,
+  Currency,
+  DeclineCode
+} from '../types/payment.types';
+
+/**
+ * What a PSP connector can do. Used by the registry, routing and the
+ * controllers to decide whether an operation is worth attempting before
+ * calling the PSP.
+ */
+export interface PSPCapabilities {
+  payment_methods: PaymentMethod[];
+  currencies: Currency[];
+  /** Charging a token (source.token) server-to-server */
+  supports_token: boolean;
+  /** Raw card details (source.number) charged directly */
+  supports_card_data: boolean;
+  /** Payments without a token or card: the PSP hosts the form (payment_url) */
+  supports_hosted_page: boolean;
+  supports_refund: boolean;
+  supports_void: boolean;
+  /** Authorize now, capture later (capture: false) */
+  supports_capture: boolean;
+  /** Per-currency amount limits in major units — no entry means no limit */
+  amount_limits?: Partial<Record<Currency, { min?: number; max?: number }>>;
+  /** Methods limited to some of `currencies` — mada and STC Pay only settle in SAR */
+  method_currencies?: Partial<Record<PaymentMethod, Currency[]>>;
+}
+
+/**
+ * Everything a connector may need to authenticate an inbound webhook.
+ * `rawBody` is the body as the PSP sent it when available, otherwise the
+ * re-serialised JSON body.
+ */
+export interface WebhookVerificationInput {
+  headers: IncomingHttpHeaders;
+  body: any;
+  rawBody: string;
+}
+
+/**
+ * Common contract implemented by every PSP connector.
+ *
+ * Amounts are always in major units (e.g. 10.50 SAR) — each connector converts
+ * to whatever the PSP expects and maps responses back to our unified types.
+ */
+export interface PSPConnector {
+  getProviderName(): PSPProvider;
+  getCapabilities(): PSPCapabilities;
+
+  createPayment(request: PaymentRequest): Promise<PaymentResponse>;
+  getPayment(pspPaymentId: string): Promise<PaymentResponse>;
+  refundPayment(pspPaymentId: string, refundRequest?: RefundRequest): Promise<RefundResponse>;
+  voidPayment(pspPaymentId: string): Promise<void>;
+  capturePayment(pspPaymentId: string, amount?: number): Promise<PaymentResponse>;
+
+  /** Returns true when the webhook genuinely originates from this PSP account */
+  verifyWebhook(input: WebhookVerificationInput): boolean;
+
+  /** Map the PSP's raw decline code / message onto our decline taxonomy */
+  mapDeclineCode(rawCode?: string, message?: string): DeclineCode;
+}
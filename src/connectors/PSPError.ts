@@ -0,0 +1,71 @@
+import axios from 'axios';
+import { DeclineCode, PSPProvider } from '../types/payment.types';
+
+/**
+ * Error thrown by every connector. Keeps the facts the orchestration layer
+ * needs to decide what to do next (fail, or fail over to another PSP) that a
+ * plain Error message would lose.
+ */
+export class PSPError extends Error {
+  readonly provider: PSPProvider;
+  /** HTTP status returned by the PSP — undefined when no response was received */
+  readonly httpStatus?: number;
+  /** Raw PSP error / response code, as the PSP reported it */
+  readonly code?: string;
+  /** True when the request never got a response (timeout, DNS, connection reset…) */
+  readonly isNetworkError: boolean;
+  /** Normalized reason. Outages and rejected credentials override the connector's mapping. */
+  readonly declineCode: DeclineCode;
+
+  constructor(
+    provider: PSPProvider,
+    message: string,
+    details: {
+      httpStatus?: number;
+      code?: string;
+      isNetworkError?: boolean;
+      declineCode?: DeclineCode;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'PSPError';
+    this.provider = provider;
+    this.httpStatus = details.httpStatus;
+    this.code = details.code;
+    this.isNetworkError = details.isNetworkError ?? false;
+
+    if (this.isOutage) {
+      this.declineCode = DeclineCode.PROCESSOR_UNAVAILABLE;
+    } else if (this.httpStatus === 401 || this.httpStatus === 403) {
+      this.declineCode = DeclineCode.CONFIGURATION_ERROR;
+    } else {
+      this.declineCode = details.declineCode ?? DeclineCode.GENERIC_DECLINE;
+    }
+  }
+
+  /**
+   * Build a PSPError from whatever a connector caught, keeping the HTTP
+   * status and network-failure flag of axios errors.
+   */
+  static from(
+    provider: PSPProvider,
+    error: any,
+    message: string,
+    code?: string,
+    declineCode?: DeclineCode
+  ): PSPError {
+    if (error instanceof PSPError) return error;
+
+    return new PSPError(provider, message, {
+      httpStatus: error?.response?.status,
+      code,
+      isNetworkError: axios.isAxiosError(error) && !error.response,
+      declineCode
+    });
+  }
+
+  /** Outage-type failure: no response at all, or a 5xx from the PSP */
+  get isOutage(): boolean {
+    return this.isNetworkError || (this.httpStatus !== undefined && this.httpStatus >= 500);
+  }
+}
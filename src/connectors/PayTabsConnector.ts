@@ -8,9 +8,26 @@ import {
   PaymentStatus,
   PaymentMethod,
   PSPProvider,
-  Currency
+  Currency,
+  DeclineCode
 } from '../types/payment.types';
 import { logger } from '../utils/logger';
+import { PSPConnector, PSPCapabilities, WebhookVerificationInput } from './PSPConnector';
+import { PSPError } from './PSPError';
+import { DeclineTable, ISO8583_DECLINE_CODES, normalizeDecline } from './declineCodes';
+
+/**
+ * PayTabs passes the acquirer's ISO 8583 code through as
+ * payment_result.response_code on declines, with response_message text such
+ * as "Insufficient Funds" or "Authentication failed" (3DS).
+ */
+const PAYTABS_DECLINES: DeclineTable = {
+  codes: ISO8583_DECLINE_CODES,
+  messagePatterns: [
+    [/authentication (failed|not available|rejected)/i, DeclineCode.THREE_DS_FAILED],
+    [/^declined$/i, DeclineCode.DO_NOT_HONOR]
+  ]
+};
 
 /**
  * PayTabs Payment Gateway Connector
@@ -36,11 +53,17 @@ import { logger } from '../utils/logger';
  *  Frontend redirects the customer to that URL.
  *  PayTabs POSTs the result to PAYTABS_CALLBACK_URL (our webhook).
  *
+ * ── Authorize then capture ───────────────────────────────────────────────────
+ *  When request.capture === false either flow uses tran_type 'auth' instead of
+ *  'sale'. The hold is later settled with tran_type 'capture' referencing the
+ *  original tran_ref (see capturePayment).
+ *
  * Authentication: Server Key in the `authorization` header.
  */
-export class PayTabsConnector {
+export class PayTabsConnector implements PSPConnector {
   private client: AxiosInstance;
   private profileId: number;
+  private serverKey: string;
 
   constructor(
     serverKey: string,
@@ -48,6 +71,7 @@ export class PayTabsConnector {
     baseURL: string = 'https://secure.paytabs.sa'
   ) {
     this.profileId = profileId;
+    this.serverKey = serverKey;
 
     this.client = axios.create({
       baseURL,
@@ -115,7 +139,7 @@ export class PayTabsConnector {
 
       const payload: Record<string, any> = {
         profile_id: this.profileId,
-        tran_type: 'sale',
+        tran_type: this.tranTypeFor(request),
         tran_class: 'ecom',
         cart_id: cartId,
         cart_currency: request.currency,
@@ -168,7 +192,7 @@ export class PayTabsConnector {
 
       const payload: Record<string, any> = {
         profile_id: this.profileId,
-        tran_type: 'sale',
+        tran_type: this.tranTypeFor(request),
         tran_class: 'ecom',
         cart_id: cartId,
         cart_currency: request.currency,
@@ -269,10 +293,151 @@ export class PayTabsConnector {
     }
   }
 
+  /**
+   * Void an authorized (or unsettled) payment.
+   *
+   * A void is a new transaction (tran_type "void") referencing the original
+   * tran_ref, for the full original amount.
+   */
+  async voidPayment(tranRef: string): Promise<void> {
+    try {
+      const original = await this.getPayment(tranRef);
+
+      const payload: Record<string, any> = {
+        profile_id: this.profileId,
+        tran_type: 'void',
+        tran_class: 'ecom',
+        tran_ref: tranRef,
+        cart_id: `void_${tranRef}_${Date.now()}`,
+        cart_currency: original.currency,
+        cart_amount: original.amount,
+        cart_description: original.description || 'Void'
+      };
+
+      const response = await this.client.post('/payment/request', payload);
+      const result = response.data.payment_result;
+
+      logger.info('PayTabs void processed', {
+        tran_ref: response.data.tran_ref,
+        original_tran_ref: tranRef,
+        response_status: result?.response_status
+      });
+
+      if (result?.response_status !== 'A') {
+        throw new Error(result?.response_message || 'Void declined');
+      }
+    } catch (error: any) {
+      logger.error('PayTabs voidPayment error:', {
+        status: error.response?.status,
+        response_code: error.response?.data?.payment_result?.response_code,
+        response_message: error.response?.data?.payment_result?.response_message,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Capture an authorized payment (full or partial).
+   *
+   * Like refunds, a capture is a new transaction (tran_type "capture")
+   * referencing the original auth tran_ref.
+   */
+  async capturePayment(tranRef: string, amount?: number): Promise<PaymentResponse> {
+    try {
+      const original = await this.getPayment(tranRef);
+      const captureAmount = amount ?? original.amount;
+
+      const payload: Record<string, any> = {
+        profile_id: this.profileId,
+        tran_type: 'capture',
+        tran_class: 'ecom',
+        tran_ref: tranRef,
+        cart_id: `capture_${tranRef}_${Date.now()}`,
+        cart_currency: original.currency,
+        cart_amount: captureAmount,
+        cart_description: original.description || 'Capture'
+      };
+
+      const response = await this.client.post('/payment/request', payload);
+
+      logger.info('PayTabs capture processed', {
+        tran_ref: response.data.tran_ref,
+        original_tran_ref: tranRef,
+        response_status: response.data.payment_result?.response_status
+      });
+
+      return this.mapPayTabsResponse(response.data);
+    } catch (error: any) {
+      logger.error('PayTabs capturePayment error:', {
+        status: error.response?.status,
+        response_code: error.response?.data?.payment_result?.response_code,
+        response_message: error.response?.data?.payment_result?.response_message,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
   getProviderName(): PSPProvider {
     return PSPProvider.PAYTABS;
   }
 
+  getCapabilities(): PSPCapabilities {
+    return {
+      payment_methods: [
+        PaymentMethod.CREDITCARD,
+        PaymentMethod.MADA,
+        PaymentMethod.APPLEPAY,
+        PaymentMethod.TOKEN
+      ],
+      currencies: [
+        Currency.SAR, Currency.AED, Currency.EGP, Currency.OMR, Currency.KWD,
+        Currency.BHD, Currency.QAR, Currency.USD, Currency.EUR
+      ],
+      supports_token: true,
+      supports_card_data: false,
+      supports_hosted_page: true,
+      supports_refund: true,
+      supports_void: true,
+      supports_capture: true,
+      method_currencies: { [PaymentMethod.MADA]: [Currency.SAR] }
+    };
+  }
+
+  /**
+   * Verify a server-to-server callback: the `signature` header is an
+   * HMAC-SHA256 of the raw body keyed by the server key, hex-encoded. The
+   * profile_id must also match this account — it is what the callback was
+   * routed to the account by, not proof it came from PayTabs.
+   */
+  verifyWebhook(input: WebhookVerificationInput): boolean {
+    const signature = input.headers['signature'] as string | undefined;
+    if (!signature) {
+      logger.warn('PayTabs webhook received without signature');
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.serverKey)
+      .update(input.rawBody)
+      .digest('hex');
+    if (expected.length !== signature.length ||
+        !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+      return false;
+    }
+
+    const receivedProfileId = Number(input.body?.merchant_info?.profile_id ?? input.body?.profile_id);
+    if (this.profileId && receivedProfileId !== this.profileId) {
+      logger.warn('PayTabs webhook: profile_id mismatch', {
+        received: receivedProfileId,
+        expected: this.profileId
+      });
+      return false;
+    }
+    return true;
+  }
+
   /**
    * Verify the signature on the PayTabs browser return URL.
    *
@@ -280,9 +445,8 @@ export class PayTabsConnector {
    * Per the PayTabs docs, the signature is:
    *   HMAC-SHA256(url_encoded_sorted_fields_excluding_signature, serverKey)
    *
-   * NOTE: This is for the RETURN (browser redirect), NOT the server callback.
-   * The server-to-server callback has NO signature — verify it by re-querying
-   * PayTabs or by checking profile_id.
+   * NOTE: This is for the RETURN (browser redirect), NOT the server callback
+   * — that one is signed over its raw body (see verifyWebhook).
    *
    * @param fields     All POST fields from the return request (req.body)
    * @param serverKey  PAYTABS_SERVER_KEY env var
@@ -337,9 +501,15 @@ export class PayTabsConnector {
     const rawPan: string | undefined = data.payment_info?.payment_description;
     const lastFour = rawPan ? rawPan.replace(/\D/g, '').slice(-4) : undefined;
 
+    // An approved 'auth' is a hold, not a sale — funds are captured later
+    let status = this.mapStatus(data.payment_result?.response_status);
+    if (status === PaymentStatus.PAID && String(data.tran_type).toLowerCase() === 'auth') {
+      status = PaymentStatus.AUTHORIZED;
+    }
+
     return {
       id: data.tran_ref,
-      status: this.mapStatus(data.payment_result?.response_status),
+      status,
       amount: parseFloat(data.cart_amount ?? '0'),
       currency: (data.cart_currency as Currency) || Currency.SAR,
       source: {
@@ -349,7 +519,11 @@ export class PayTabsConnector {
       },
       created_at: new Date().toISOString(),
       description: data.cart_description,
-      metadata: data.cart_extra
+      metadata: data.cart_extra,
+      response_code: data.payment_result?.response_code,
+      decline_code: status === PaymentStatus.FAILED
+        ? this.mapDeclineCode(data.payment_result?.response_code, data.payment_result?.response_message)
+        : undefined
     };
   }
 
@@ -374,19 +548,40 @@ export class PayTabsConnector {
     return map[responseStatus ?? ''] ?? PaymentStatus.FAILED;
   }
 
+  private tranTypeFor(request: PaymentRequest): 'auth' | 'sale' {
+    return request.capture === false ? 'auth' : 'sale';
+  }
+
+  mapDeclineCode(rawCode?: string, message?: string): DeclineCode {
+    return normalizeDecline(PAYTABS_DECLINES, rawCode, message) ?? DeclineCode.GENERIC_DECLINE;
+  }
+
   private mapCardScheme(scheme: string | undefined): PaymentMethod {
     const s = (scheme || '').toLowerCase();
     if (s.includes('mada')) return PaymentMethod.MADA;
     return PaymentMethod.CREDITCARD;
   }
 
-  private handleError(error: any): Error {
+  private handleError(error: any): PSPError {
     const msg =
       error.response?.data?.payment_result?.response_message ||
       error.response?.data?.message ||
       error.message ||
       'PayTabs API error';
+    const paymentResult = error.response?.data?.payment_result;
+    const code = paymentResult?.response_code ?? error.response?.data?.code;
+    const rawCode = code !== undefined ? String(code) : undefined;
     logger.error(`PayTabs Error: ${msg}`);
-    return new Error(`PayTabs Error: ${msg}`);
+    return PSPError.from(
+      PSPProvider.PAYTABS,
+      error,
+      `PayTabs Error: ${msg}`,
+      rawCode,
+      // A payment_result means the transaction itself was declined; otherwise
+      // PayTabs rejected the request
+      paymentResult
+        ? this.mapDeclineCode(rawCode, msg)
+        : normalizeDecline(PAYTABS_DECLINES, undefined, msg) ?? DeclineCode.INVALID_REQUEST
+    );
   }
 }
@@ -0,0 +1,408 @@
+import crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import {
+  PaymentRequest,
+  PaymentResponse,
+  RefundRequest,
+  RefundResponse,
+  PaymentStatus,
+  PaymentMethod,
+  PSPProvider,
+  Currency,
+  DeclineCode
+} from '../types/payment.types';
+import { logger } from '../utils/logger';
+import { getMinorUnits, isSupportedCurrency } from '../utils/currency';
+import { PSPConnector, PSPCapabilities, WebhookVerificationInput } from './PSPConnector';
+import { PSPError } from './PSPError';
+import { DeclineTable, normalizeDecline } from './declineCodes';
+
+/**
+ * Tap's own charge statuses already say why some charges failed; for the
+ * rest, response.message ("Insufficient Funds", …) is mapped.
+ */
+const TAP_STATUS_DECLINES: Record<string, DeclineCode> = {
+  TIMEDOUT: DeclineCode.PROCESSOR_UNAVAILABLE,
+  RESTRICTED: DeclineCode.FRAUD_SUSPECTED
+};
+
+const TAP_DECLINES: DeclineTable = {
+  messagePatterns: [[/^declined/i, DeclineCode.DO_NOT_HONOR]]
+};
+
+/**
+ * Tap Payments Connector
+ * Docs: https://developers.tap.company/reference/api-endpoint
+ *
+ * Every payment is a Tap "charge". The charge source decides the flow:
+ *
+ * ── tok_… — card token from Tap Card SDK / goSell.js ─────────────────────────
+ *  Charged immediately; Tap may still return a 3DS URL in transaction.url.
+ *
+ * ── src_… — redirect sources ─────────────────────────────────────────────────
+ *  e.g. src_kw.knet (KNET), src_bh.benefit (Benefit), src_all (Tap hosted page).
+ *  Tap returns transaction.url, which we surface as payment_url; the customer
+ *  is redirected there and Tap POSTs the result to our webhook.
+ *
+ *  Requests without a token fall back to src_all.
+ *
+ * Authentication: secret key as a Bearer token. Amounts are major units.
+ * Webhooks are signed with the `hashstring` header (HMAC-SHA256, secret key).
+ */
+export class TapConnector implements PSPConnector {
+  private client: AxiosInstance;
+  private secretKey: string;
+
+  constructor(secretKey: string, baseURL: string = 'https://api.tap.company/v2') {
+    this.secretKey = secretKey;
+
+    this.client = axios.create({
+      baseURL,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${secretKey}`
+      }
+    });
+
+    this.client.interceptors.request.use(
+      (config) => {
+        logger.info(`Tap API Request: ${config.method?.toUpperCase()} ${config.url}`);
+        return config;
+      },
+      (error) => {
+        logger.error('Tap API Request Error:', { message: error.message });
+        return Promise.reject(error);
+      }
+    );
+
+    this.client.interceptors.response.use(
+      (response) => {
+        logger.info(`Tap API Response: ${response.status}`);
+        return response;
+      },
+      (error) => {
+        logger.error('Tap API Response Error:', {
+          status: error.response?.status,
+          errors: error.response?.data?.errors
+            ? JSON.stringify(error.response.data.errors)
+            : undefined,
+          message: error.message
+        });
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Create a charge.
+   * @param request Payment request — source.token may be a tok_ or src_ id
+   */
+  async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
+    try {
+      const payload = this.buildChargePayload(request);
+
+      const response = await this.client.post('/charges', payload);
+
+      logger.info('Tap charge created', {
+        id: response.data.id,
+        status: response.data.status,
+        source: payload.source.id.startsWith('tok_') ? 'token' : payload.source.id
+      });
+
+      return this.mapTapResponse(response.data);
+    } catch (error: any) {
+      // Do NOT log the request payload — it may contain token data
+      logger.error('Tap createPayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieve a charge by id (chg_…)
+   */
+  async getPayment(chargeId: string): Promise<PaymentResponse> {
+    try {
+      const response = await this.client.get(`/charges/${encodeURIComponent(chargeId)}`);
+      return this.mapTapResponse(response.data);
+    } catch (error: any) {
+      logger.error('Tap getPayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Refund a charge (full or partial).
+   * Tap requires the currency and an amount, so the original charge is fetched
+   * when no amount is given.
+   */
+  async refundPayment(chargeId: string, refundRequest?: RefundRequest): Promise<RefundResponse> {
+    try {
+      const original = await this.getPayment(chargeId);
+      const refundAmount = refundRequest?.amount ?? original.amount;
+
+      const payload: Record<string, any> = {
+        charge_id: chargeId,
+        amount: refundAmount,
+        currency: original.currency,
+        reason: refundRequest?.reason || 'requested_by_customer'
+      };
+
+      const webhookUrl = process.env.TAP_WEBHOOK_URL;
+      if (webhookUrl) {
+        payload.post = { url: webhookUrl };
+      }
+
+      const response = await this.client.post('/refunds', payload);
+      const data = response.data;
+
+      return {
+        id: data.id,
+        payment_id: chargeId,
+        amount: data.amount ?? refundAmount,
+        status: (data.status || 'pending').toLowerCase(),
+        created_at: data.created ? new Date(Number(data.created)).toISOString() : new Date().toISOString()
+      };
+    } catch (error: any) {
+      logger.error('Tap refundPayment error:', {
+        status: error.response?.status,
+        message: error.message
+      });
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Void an authorization. Not implemented for Tap yet — charges are captured
+   * immediately.
+   */
+  async voidPayment(_chargeId: string): Promise<void> {
+    throw new Error('Tap Error: void is not supported');
+  }
+
+  /**
+   * Capture an authorization. Not implemented for Tap yet — charges are
+   * captured immediately.
+   */
+  async capturePayment(_chargeId: string, _amount?: number): Promise<PaymentResponse> {
+    throw new Error('Tap Error: capture is not supported');
+  }
+
+  getProviderName(): PSPProvider {
+    return PSPProvider.TAP;
+  }
+
+  getCapabilities(): PSPCapabilities {
+    return {
+      payment_methods: [
+        PaymentMethod.CREDITCARD,
+        PaymentMethod.MADA,
+        PaymentMethod.APPLEPAY,
+        PaymentMethod.STC_PAY,
+        PaymentMethod.TOKEN
+      ],
+      currencies: [
+        Currency.KWD, Currency.SAR, Currency.AED, Currency.BHD, Currency.QAR,
+        Currency.OMR, Currency.EGP, Currency.USD, Currency.EUR
+      ],
+      supports_token: true,
+      supports_card_data: false,
+      supports_hosted_page: true,
+      supports_refund: true,
+      supports_void: false,
+      supports_capture: false,
+      method_currencies: { [PaymentMethod.MADA]: [Currency.SAR], [PaymentMethod.STC_PAY]: [Currency.SAR] }
+    };
+  }
+
+  /**
+   * Verify the `hashstring` header Tap sends with every webhook.
+   *
+   * Tap signs a concatenation of selected fields:
+   *  charges:  x_id, x_amount, x_currency, x_gateway_reference,
+   *            x_payment_reference, x_status, x_created
+   *  refunds:  x_id, x_amount, x_currency, x_gateway_reference,
+   *            x_refund_reference, x_status, x_created
+   * with HMAC-SHA256 keyed by our secret key. The amount is formatted to the
+   * currency's minor units (3 for KWD/BHD/OMR, 2 otherwise).
+   */
+  verifyWebhook(input: WebhookVerificationInput): boolean {
+    const received = input.headers['hashstring'] as string | undefined;
+    if (!received) {
+      logger.warn('Tap webhook received without hashstring');
+      return false;
+    }
+
+    const expected = TapConnector.computeHashString(input.body, this.secretKey);
+    if (expected.length !== received.length) return false;
+
+    return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+  }
+
+  static computeHashString(body: any, secretKey: string): string {
+    const decimals = isSupportedCurrency(body.currency) ? getMinorUnits(body.currency) : 2;
+    const amount = Number(body.amount).toFixed(decimals);
+    const isRefund = String(body.id ?? '').startsWith('re_');
+
+    const toBeHashed =
+      `x_id${body.id}` +
+      `x_amount${amount}` +
+      `x_currency${body.currency}` +
+      `x_gateway_reference${body.reference?.gateway ?? ''}` +
+      (isRefund
+        ? `x_refund_reference${body.reference?.refund ?? ''}`
+        : `x_payment_reference${body.reference?.payment ?? ''}`) +
+      `x_status${body.status}` +
+      `x_created${body.transaction?.created ?? body.created ?? ''}`;
+
+    return crypto.createHmac('sha256', secretKey).update(toBeHashed).digest('hex');
+  }
+
+  /**
+   * Tap charge statuses:
+   *  INITIATED   = awaiting customer action (3DS / redirect)
+   *  IN_PROGRESS = being processed
+   *  AUTHORIZED  = authorized, capture pending
+   *  CAPTURED    = paid
+   *  DECLINED, RESTRICTED, FAILED, TIMEDOUT, ABANDONED = not paid
+   *  CANCELLED, VOID = voided
+   *  REFUNDED    = fully refunded
+   */
+  mapStatus(tapStatus: string | undefined): PaymentStatus {
+    const statusMap: Record<string, PaymentStatus> = {
+      INITIATED: PaymentStatus.PENDING,
+      IN_PROGRESS: PaymentStatus.PROCESSING,
+      AUTHORIZED: PaymentStatus.AUTHORIZED,
+      CAPTURED: PaymentStatus.PAID,
+      DECLINED: PaymentStatus.FAILED,
+      RESTRICTED: PaymentStatus.FAILED,
+      FAILED: PaymentStatus.FAILED,
+      TIMEDOUT: PaymentStatus.FAILED,
+      ABANDONED: PaymentStatus.FAILED,
+      CANCELLED: PaymentStatus.VOIDED,
+      VOID: PaymentStatus.VOIDED,
+      REFUNDED: PaymentStatus.REFUNDED
+    };
+
+    return statusMap[(tapStatus || '').toUpperCase()] ?? PaymentStatus.FAILED;
+  }
+
+  mapDeclineCode(rawCode?: string, message?: string): DeclineCode {
+    return normalizeDecline(TAP_DECLINES, rawCode, message) ?? DeclineCode.GENERIC_DECLINE;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private buildChargePayload(request: PaymentRequest): Record<string, any> {
+    const env = (key: string): string => (process.env[key] ?? '').trim();
+    const token = request.source?.token;
+
+    // tok_ (card token) and src_ (KNET, Benefit, hosted page…) ids are passed
+    // through as-is; anything else falls back to Tap's hosted page.
+    const sourceId = token && /^(tok|src)_/.test(token) ? token : 'src_all';
+
+    const redirectUrl = (request.callback_url ?? '').trim() || env('TAP_REDIRECT_URL');
+    if (!redirectUrl) {
+      // 3DS, KNET and Benefit send the shopper back here — never to a URL the merchant didn't choose
+      throw new PSPError(
+        PSPProvider.TAP,
+        'Tap Error: no redirect URL — send callback_url or set TAP_REDIRECT_URL',
+        { declineCode: DeclineCode.CONFIGURATION_ERROR }
+      );
+    }
+
+    const payload: Record<string, any> = {
+      amount: request.amount,
+      currency: request.currency,
+      threeDSecure: true,
+      save_card: false,
+      description: request.description || 'Payment',
+      reference: {
+        transaction: `txn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+      },
+      source: { id: sourceId },
+      redirect: { url: redirectUrl }
+    };
+
+    if (env('TAP_WEBHOOK_URL')) {
+      payload.post = { url: env('TAP_WEBHOOK_URL') };
+    }
+
+    // Tap requires a customer object; use what the merchant sent, if anything
+    const customer = request.metadata?.customer || {};
+    payload.customer = {
+      first_name: customer.first_name || customer.name || 'Customer',
+      last_name: customer.last_name,
+      email: customer.email,
+      phone: customer.phone
+    };
+
+    if (request.metadata) {
+      const { customer: _c, ...rest } = request.metadata;
+      if (Object.keys(rest).length > 0) payload.metadata = rest;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Map a Tap charge to our unified format.
+   *
+   * For INITIATED charges transaction.url holds the 3DS / KNET / Benefit /
+   * hosted-page redirect — exposed as payment_url.
+   */
+  private mapTapResponse(charge: any): PaymentResponse {
+    const status = this.mapStatus(charge.status);
+    const lastFour: string | undefined = charge.card?.last_four;
+    const paymentMethod: string = (charge.source?.payment_method || '').toUpperCase();
+    const brand: string | undefined = charge.card?.brand ?? charge.source?.payment_method;
+
+    return {
+      id: charge.id,
+      status,
+      amount: Number(charge.amount),
+      currency: charge.currency as Currency,
+      source: {
+        type: paymentMethod === 'MADA' || brand?.toUpperCase() === 'MADA'
+          ? PaymentMethod.MADA
+          : PaymentMethod.CREDITCARD,
+        company: brand,
+        number: lastFour ? `****${lastFour}` : undefined,
+        reference_number: charge.reference?.payment
+      },
+      created_at: charge.transaction?.created
+        ? new Date(Number(charge.transaction.created)).toISOString()
+        : new Date().toISOString(),
+      description: charge.description,
+      metadata: charge.metadata,
+      callback_url: charge.redirect?.url,
+      payment_url: charge.status === 'INITIATED' ? charge.transaction?.url : undefined,
+      response_code: charge.response?.code,
+      decline_code: status === PaymentStatus.FAILED
+        ? TAP_STATUS_DECLINES[String(charge.status).toUpperCase()] ??
+          this.mapDeclineCode(charge.response?.code, charge.response?.message)
+        : undefined
+    };
+  }
+
+  private handleError(error: any): PSPError {
+    const tapError = error.response?.data?.errors?.[0];
+    const msg = tapError?.description || error.response?.data?.message || error.message || 'Tap API error';
+    logger.error(`Tap Error [${tapError?.code ?? 'unknown'}]: ${msg}`);
+    const code = tapError?.code !== undefined ? String(tapError.code) : undefined;
+    return PSPError.from(
+      PSPProvider.TAP,
+      error,
+      `Tap Error: ${msg}`,
+      code,
+      normalizeDecline(TAP_DECLINES, code, msg) ?? DeclineCode.INVALID_REQUEST
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { CheckoutConnector } from '../CheckoutConnector';
+import { PSPError } from '../PSPError';
+import { Currency, DeclineCode, PaymentMethod, PaymentStatus } from '../../types/payment.types';
+import { StandIn, startStandIn } from './standIn';
+
+describe('CheckoutConnector', () => {
+  let standIn: StandIn;
+  const savedReturnUrl = process.env.CHECKOUT_RETURN_URL;
+
+  beforeEach(async () => {
+    delete process.env.CHECKOUT_RETURN_URL;
+    standIn = await startStandIn({
+      'POST /payments': req => [201, {
+        id: 'pay_1', status: 'Captured', approved: true, amount: req.json.amount, currency: req.json.currency
+      }]
+    });
+  });
+
+  afterEach(async () => {
+    if (savedReturnUrl === undefined) delete process.env.CHECKOUT_RETURN_URL;
+    else process.env.CHECKOUT_RETURN_URL = savedReturnUrl;
+    await standIn.close();
+  });
+
+  const request = (callback_url?: string) => ({
+    amount: 25.5,
+    currency: Currency.USD,
+    callback_url,
+    source: { type: PaymentMethod.TOKEN, token: 'tok_1' }
+  });
+
+  it('sends the shopper back to the callback_url after 3DS', async () => {
+    const connector = new CheckoutConnector('sk_test', standIn.url);
+
+    const payment = await connector.createPayment(request('https://shop.example/return'));
+
+    expect(payment.status).toBe(PaymentStatus.PAID);
+    expect(standIn.requests[0].json).toMatchObject({
+      amount: 2550,
+      success_url: 'https://shop.example/return',
+      failure_url: 'https://shop.example/return'
+    });
+  });
+
+  it('falls back to CHECKOUT_RETURN_URL', async () => {
+    process.env.CHECKOUT_RETURN_URL = 'https://platform.example/return';
+    const connector = new CheckoutConnector('sk_test', standIn.url);
+
+    await connector.createPayment(request());
+
+    expect(standIn.requests[0].json.success_url).toBe('https://platform.example/return');
+  });
+
+  it('rejects payments without any return URL before calling Checkout.com', async () => {
+    const connector = new CheckoutConnector('sk_test', standIn.url);
+
+    const error = await connector.createPayment(request('  ')).catch(e => e);
+
+    expect(error).toBeInstanceOf(PSPError);
+    expect(error.declineCode).toBe(DeclineCode.CONFIGURATION_ERROR);
+    expect(error.message).toContain('CHECKOUT_RETURN_URL');
+    expect(standIn.requests).toHaveLength(0);
+  });
+});
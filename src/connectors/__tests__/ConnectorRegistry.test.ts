@@ -0,0 +1,45 @@
+import { ConnectorRegistry } from '../ConnectorRegistry';
+import { MockConnector } from '../MockConnector';
+import { PSPConfig, PSPProvider } from '../../types/payment.types';
+
+const mockConfig = (enabled: boolean): PSPConfig => ({
+  name: PSPProvider.MOCK,
+  api_key: 'key',
+  api_url: 'http://localhost:3000/mock-psp',
+  enabled
+});
+
+describe('ConnectorRegistry', () => {
+  let registry: ConnectorRegistry;
+
+  beforeEach(() => {
+    registry = new ConnectorRegistry();
+    registry.register(PSPProvider.MOCK, config => new MockConnector(config.api_url, '', 0, 1000));
+  });
+
+  it('treats a registered provider without an enabled config as supported but not enabled', () => {
+    expect(registry.isSupported(PSPProvider.MOCK)).toBe(true);
+    expect(registry.isEnabled(PSPProvider.MOCK)).toBe(false);
+    expect(() => registry.get(PSPProvider.MOCK)).toThrow('PSP provider is not enabled: mock');
+  });
+
+  it('rejects providers without a factory', () => {
+    expect(registry.isSupported(PSPProvider.TAP)).toBe(false);
+    expect(() => registry.get(PSPProvider.TAP)).toThrow('Unsupported PSP provider: tap');
+    expect(registry.getCapabilities(PSPProvider.TAP)).toBeUndefined();
+  });
+
+  it('builds the platform connector once and rebuilds it after reconfiguration', () => {
+    registry.configure(mockConfig(true));
+    const first = registry.get(PSPProvider.MOCK);
+    expect(registry.get(PSPProvider.MOCK)).toBe(first);
+
+    registry.configure(mockConfig(true));
+    expect(registry.get(PSPProvider.MOCK)).not.toBe(first);
+    expect(registry.getEnabledProviders()).toEqual([PSPProvider.MOCK]);
+  });
+
+  it('reads capabilities without an enabled config', () => {
+    expect(registry.getCapabilities(PSPProvider.MOCK)?.supports_token).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { HyperPayConnector } from '../HyperPayConnector';
+import { Currency, PaymentMethod, PaymentStatus } from '../../types/payment.types';
+import { StandIn, startStandIn } from './standIn';
+
+const SUCCESS = { code: '000.100.110', description: 'Request successfully processed' };
+
+describe('HyperPayConnector', () => {
+  let standIn: StandIn;
+
+  afterEach(async () => {
+    await standIn?.close();
+  });
+
+  it('debits a registration token as a customer-initiated stored-credential payment', async () => {
+    standIn = await startStandIn({
+      'POST /v1/registrations/reg_1/payments': () => [200, {
+        id: 'pay_1', amount: '92.00', currency: 'SAR', paymentType: 'DB', paymentBrand: 'VISA', result: SUCCESS
+      }]
+    });
+    const connector = new HyperPayConnector('token', 'card-entity', 'mada-entity', standIn.url);
+
+    const payment = await connector.createPayment({
+      amount: 92,
+      currency: Currency.SAR,
+      source: { type: PaymentMethod.TOKEN, token: 'reg_1' }
+    });
+
+    expect(payment.status).toBe(PaymentStatus.PAID);
+    const [sent] = standIn.requests;
+    expect(sent.params.get('amount')).toBe('92.00');
+    expect(sent.params.get('paymentType')).toBe('DB');
+    expect(sent.params.get('standingInstruction.source')).toBe('CIT');
+  });
+
+  it('prepares a COPYandPAY checkout when there is no token', async () => {
+    standIn = await startStandIn({
+      'POST /v1/checkouts': () => [200, { id: 'chk_1', result: { code: '000.200.100' } }]
+    });
+    const connector = new HyperPayConnector('token', 'card-entity', undefined, standIn.url);
+
+    const payment = await connector.createPayment({ amount: 10.5, currency: Currency.KWD, capture: false });
+
+    expect(payment.status).toBe(PaymentStatus.PENDING);
+    expect(payment.payment_url).toBe(`${standIn.url}/v1/paymentWidgets.js?checkoutId=chk_1`);
+    expect(standIn.requests[0].params.get('paymentType')).toBe('PA');
+    expect(standIn.requests[0].params.get('amount')).toBe('10.500');
+  });
+
+  it('refunds mada payments on the mada entity', async () => {
+    standIn = await startStandIn({
+      'GET /v1/checkouts/pay_2/payment': () => [404, { result: { code: '200.300.404' } }],
+      'GET /v1/query/pay_2': () => [200, {
+        payments: [{ id: 'pay_2', amount: '50.00', currency: 'SAR', paymentType: 'DB', paymentBrand: 'MADA', result: SUCCESS }]
+      }],
+      'POST /v1/payments/pay_2': () => [200, { id: 'rf_1', paymentType: 'RF', result: SUCCESS }]
+    });
+    const connector = new HyperPayConnector('token', 'card-entity', 'mada-entity', standIn.url);
+
+    const refund = await connector.refundPayment('pay_2', { amount: 20 });
+
+    expect(refund.status).toBe('refunded');
+    const sent = standIn.requests.find(r => r.method === 'POST')!;
+    expect(sent.params.get('paymentType')).toBe('RF');
+    expect(sent.params.get('entityId')).toBe('mada-entity');
+    expect(sent.params.get('amount')).toBe('20.00');
+  });
+
+  it('maps a declined token payment to a normalized decline code', async () => {
+    standIn = await startStandIn({
+      'POST /v1/registrations/reg_1/payments': () => [400, {
+        id: 'pay_3', result: { code: '800.100.155', description: 'transaction declined (amount exceeds credit)' }
+      }]
+    });
+    const connector = new HyperPayConnector('token', 'card-entity', undefined, standIn.url);
+
+    await expect(connector.createPayment({
+      amount: 5,
+      currency: Currency.SAR,
+      source: { type: PaymentMethod.TOKEN, token: 'reg_1' }
+    })).rejects.toMatchObject({ declineCode: 'insufficient_funds' });
+  });
+
+  it('decrypts webhooks and rejects tampered ones', () => {
+    const key = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify({ type: 'PAYMENT', payload: { id: 'pay_1' } })),
+      cipher.final()
+    ]);
+    const headers = {
+      'x-initialization-vector': iv.toString('hex'),
+      'x-authentication-tag': cipher.getAuthTag().toString('hex')
+    };
+    const connector = new HyperPayConnector('token', 'card-entity', undefined, 'http://unused', key.toString('hex'));
+
+    const input = { headers, body: {}, rawBody: ciphertext.toString('hex') };
+    expect(connector.decryptWebhook(input)).toEqual({ type: 'PAYMENT', payload: { id: 'pay_1' } });
+
+    ciphertext[0] ^= 0xff;
+    expect(connector.verifyWebhook({ ...input, rawBody: ciphertext.toString('hex') })).toBe(false);
+  });
+});
@@ -0,0 +1,25 @@
+import { MoyasarConnector } from '../MoyasarConnector';
+import { PaymentStatus } from '../../types/payment.types';
+import { StandIn, startStandIn } from './standIn';
+
+describe('MoyasarConnector', () => {
+  let standIn: StandIn;
+
+  afterEach(async () => {
+    await standIn?.close();
+  });
+
+  it('maps a captured payment to PAID', async () => {
+    standIn = await startStandIn({
+      'POST /payments/pay_1/capture': () => [200, {
+        id: 'pay_1', status: 'captured', amount: 10000, captured: 10000, currency: 'SAR'
+      }]
+    });
+    const connector = new MoyasarConnector('sk_test', standIn.url);
+
+    const payment = await connector.capturePayment('pay_1');
+
+    expect(payment.status).toBe(PaymentStatus.PAID);
+    expect(payment.amount).toBe(100);
+  });
+});
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { PayTabsConnector } from '../PayTabsConnector';
+
+const SERVER_KEY = 'SJNX-server-key';
+
+const callback = (profileId: number, key = SERVER_KEY) => {
+  const body = { tran_ref: 'TST1', merchant_info: { profile_id: profileId }, payment_result: { response_status: 'A' } };
+  const rawBody = JSON.stringify(body);
+  const signature = crypto.createHmac('sha256', key).update(rawBody).digest('hex');
+  return { headers: { signature }, body, rawBody };
+};
+
+describe('PayTabsConnector.verifyWebhook', () => {
+  const connector = new PayTabsConnector(SERVER_KEY, 12345, 'http://unused');
+
+  it('accepts a callback signed with the server key', () => {
+    expect(connector.verifyWebhook(callback(12345))).toBe(true);
+  });
+
+  it('rejects a callback that only knows the profile id', () => {
+    const { body, rawBody } = callback(12345);
+
+    expect(connector.verifyWebhook({ headers: {}, body, rawBody })).toBe(false);
+    expect(connector.verifyWebhook(callback(12345, 'guessed-key'))).toBe(false);
+  });
+
+  it('rejects a tampered body', () => {
+    const input = callback(12345);
+
+    expect(connector.verifyWebhook({ ...input, rawBody: input.rawBody.replace('"A"', '"H"') })).toBe(false);
+  });
+
+  it('rejects a signed callback for another profile', () => {
+    expect(connector.verifyWebhook(callback(99999))).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { TapConnector } from '../TapConnector';
+import { PSPError } from '../PSPError';
+import { Currency, DeclineCode, PaymentMethod, PaymentStatus } from '../../types/payment.types';
+import { StandIn, startStandIn } from './standIn';
+
+describe('TapConnector', () => {
+  let standIn: StandIn;
+  const savedRedirectUrl = process.env.TAP_REDIRECT_URL;
+
+  beforeEach(async () => {
+    delete process.env.TAP_REDIRECT_URL;
+    standIn = await startStandIn({
+      'POST /charges': req => [200, {
+        id: 'chg_1', status: 'CAPTURED', amount: req.json.amount, currency: req.json.currency
+      }]
+    });
+  });
+
+  afterEach(async () => {
+    if (savedRedirectUrl === undefined) delete process.env.TAP_REDIRECT_URL;
+    else process.env.TAP_REDIRECT_URL = savedRedirectUrl;
+    await standIn.close();
+  });
+
+  const request = (callback_url?: string) => ({
+    amount: 12.5,
+    currency: Currency.KWD,
+    callback_url,
+    source: { type: PaymentMethod.TOKEN, token: 'tok_1' }
+  });
+
+  it('redirects the shopper to the callback_url', async () => {
+    const connector = new TapConnector('sk_test', standIn.url);
+
+    const payment = await connector.createPayment(request('https://shop.example/return'));
+
+    expect(payment.status).toBe(PaymentStatus.PAID);
+    expect(standIn.requests[0].json.redirect).toEqual({ url: 'https://shop.example/return' });
+    expect(standIn.requests[0].json.source).toEqual({ id: 'tok_1' });
+  });
+
+  it('falls back to TAP_REDIRECT_URL', async () => {
+    process.env.TAP_REDIRECT_URL = 'https://platform.example/return';
+    const connector = new TapConnector('sk_test', standIn.url);
+
+    await connector.createPayment(request());
+
+    expect(standIn.requests[0].json.redirect).toEqual({ url: 'https://platform.example/return' });
+  });
+
+  it('rejects charges without any redirect URL before calling Tap', async () => {
+    const connector = new TapConnector('sk_test', standIn.url);
+
+    const error = await connector.createPayment(request()).catch(e => e);
+
+    expect(error).toBeInstanceOf(PSPError);
+    expect(error.declineCode).toBe(DeclineCode.CONFIGURATION_ERROR);
+    expect(standIn.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,51 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  /** Form-encoded body (or query string) */
+  params: URLSearchParams;
+  /** JSON body, when the request sent one */
+  json?: any;
+}
+
+export type StandInRoute = (req: RecordedRequest) => [status: number, body: unknown];
+
+/**
+ * Offline stand-in for a PSP API: answers `METHOD /path` from `routes` and
+ * records every request the connector sends. Unknown paths get a 404.
+ */
+export const startStandIn = async (routes: Record<string, StandInRoute>) => {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://stand-in');
+      const isJson = String(req.headers['content-type']).includes('application/json');
+      const recorded: RecordedRequest = {
+        method: req.method!,
+        path: url.pathname,
+        params: new URLSearchParams(isJson ? url.search : body || url.search),
+        json: isJson && body ? JSON.parse(body) : undefined
+      };
+      requests.push(recorded);
+
+      const route = routes[`${req.method} ${url.pathname}`];
+      const [status, payload] = route ? route(recorded) : [404, { message: 'not found' }];
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+export type StandIn = Awaited<ReturnType<typeof startStandIn>>;
@@ -0,0 +1,90 @@
+import { DeclineCode } from '../types/payment.types';
+
+/**
+ * How one PSP's codes map onto DeclineCode. Exact codes are tried first,
+ * then code patterns, then message patterns (PSP-specific before the shared
+ * ones below).
+ */
+export interface DeclineTable {
+  codes?: Record<string, DeclineCode>;
+  codePatterns?: Array<[RegExp, DeclineCode]>;
+  messagePatterns?: Array<[RegExp, DeclineCode]>;
+}
+
+/**
+ * ISO 8583 issuer response codes. Most acquirers pass these through, so
+ * connectors whose PSP reports them spread this into their own table.
+ */
+export const ISO8583_DECLINE_CODES: Record<string, DeclineCode> = {
+  '01': DeclineCode.DO_NOT_HONOR,           // refer to card issuer
+  '02': DeclineCode.DO_NOT_HONOR,           // refer to card issuer, special condition
+  '04': DeclineCode.LOST_OR_STOLEN,         // pick up card
+  '05': DeclineCode.DO_NOT_HONOR,
+  '06': DeclineCode.PROCESSOR_UNAVAILABLE,  // error
+  '07': DeclineCode.LOST_OR_STOLEN,         // pick up card, special condition
+  '12': DeclineCode.INVALID_REQUEST,        // invalid transaction
+  '13': DeclineCode.INVALID_REQUEST,        // invalid amount
+  '14': DeclineCode.INVALID_CARD,           // invalid card number
+  '15': DeclineCode.INVALID_CARD,           // no such issuer
+  '19': DeclineCode.PROCESSOR_UNAVAILABLE,  // re-enter transaction
+  '34': DeclineCode.FRAUD_SUSPECTED,
+  '41': DeclineCode.LOST_OR_STOLEN,
+  '43': DeclineCode.LOST_OR_STOLEN,
+  '51': DeclineCode.INSUFFICIENT_FUNDS,
+  '54': DeclineCode.EXPIRED_CARD,
+  '56': DeclineCode.INVALID_CARD,           // no card record
+  '57': DeclineCode.CARD_NOT_SUPPORTED,     // not permitted to cardholder
+  '58': DeclineCode.CARD_NOT_SUPPORTED,     // not permitted to terminal
+  '59': DeclineCode.FRAUD_SUSPECTED,
+  '61': DeclineCode.LIMIT_EXCEEDED,         // withdrawal amount limit
+  '62': DeclineCode.CARD_NOT_SUPPORTED,     // restricted card
+  '63': DeclineCode.FRAUD_SUSPECTED,        // security violation
+  '65': DeclineCode.LIMIT_EXCEEDED,         // withdrawal frequency limit
+  '82': DeclineCode.INCORRECT_CVC,
+  N7: DeclineCode.INCORRECT_CVC,
+  '90': DeclineCode.PROCESSOR_UNAVAILABLE,  // cut-off in progress
+  '91': DeclineCode.PROCESSOR_UNAVAILABLE,  // issuer unavailable
+  '96': DeclineCode.PROCESSOR_UNAVAILABLE   // system malfunction
+};
+
+/** Free-text fallbacks shared by every PSP, tried after the PSP's own table */
+const MESSAGE_PATTERNS: Array<[RegExp, DeclineCode]> = [
+  [/insufficient|not sufficient|exceeds credit/i, DeclineCode.INSUFFICIENT_FUNDS],
+  [/expired|expiry/i, DeclineCode.EXPIRED_CARD],
+  [/\bcvv2?\b|\bcvc\b|security code/i, DeclineCode.INCORRECT_CVC],
+  [/3-?d ?s|3-?d secure|cardholder.*authenticat/i, DeclineCode.THREE_DS_FAILED],
+  [/\blost\b|stolen|pick ?up/i, DeclineCode.LOST_OR_STOLEN],
+  [/fraud|suspect|\brisk\b|blacklist/i, DeclineCode.FRAUD_SUSPECTED],
+  [/limit|too many|frequency/i, DeclineCode.LIMIT_EXCEEDED],
+  [/invalid card|card number|no such card|invalid account/i, DeclineCode.INVALID_CARD],
+  [/not (supported|permitted|allowed)|restricted card/i, DeclineCode.CARD_NOT_SUPPORTED],
+  [/do not hono|declined by issuer/i, DeclineCode.DO_NOT_HONOR],
+  [/time ?out|timed out|unavailable|try again|system (error|malfunction)|communication error/i,
+    DeclineCode.PROCESSOR_UNAVAILABLE]
+];
+
+/**
+ * Map a PSP's raw code and/or message to a DeclineCode.
+ * Returns undefined when nothing matches — callers pick the fallback.
+ */
+export const normalizeDecline = (
+  table: DeclineTable,
+  rawCode?: string,
+  message?: string
+): DeclineCode | undefined => {
+  if (rawCode) {
+    const exact = table.codes?.[rawCode];
+    if (exact) return exact;
+
+    const byPattern = table.codePatterns?.find(([re]) => re.test(rawCode));
+    if (byPattern) return byPattern[1];
+  }
+
+  if (message) {
+    const patterns = [...(table.messagePatterns ?? []), ...MESSAGE_PATTERNS];
+    const byMessage = patterns.find(([re]) => re.test(message));
+    if (byMessage) return byMessage[1];
+  }
+
+  return undefined;
+};
@@ -1,40 +1,75 @@
 import { Request, Response } from 'express';
+import { SelectQueryBuilder } from 'typeorm';
 import { AppDataSource } from '../config/database';
 import { Transaction } from '../models/Transaction';
-import { PaymentStatus } from '../types/payment.types';
+import { PaymentStatus, RoutingSource } from '../types/payment.types';
+import { APPROVED_STATUSES } from '../services/SuccessRateTracker';
 import { logger } from '../utils/logger';
+import { fromMinorUnits } from '../utils/currency';
+
+const ROUTING_SOURCES: RoutingSource[] = ['override', 'rule', 'auto', 'cost', 'fallback'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Optional query-string filters narrowing every figure */
+interface AnalyticsFilters {
+  /** Only payments routed by this rule */
+  rule_id?: string;
+  /** Only payments whose PSP was chosen this way */
+  routing_source?: RoutingSource;
+}
 
 export class AnalyticsController {
   /**
    * GET /api/v1/analytics
-   * Returns aggregated analytics for the authenticated merchant
+   * Returns aggregated analytics for the authenticated merchant.
+   * Filters: ?rule_id=<routing rule id>, ?routing_source=override|rule|auto|fallback
    */
   getAnalytics = async (req: Request, res: Response): Promise<void> => {
     try {
       const merchantId = req.merchant!.id;
-      const transactionRepository = AppDataSource.getRepository(Transaction);
+      const { rule_id, routing_source } = req.query;
+
+      if (routing_source !== undefined && !ROUTING_SOURCES.includes(routing_source as RoutingSource)) {
+        res.status(400).json({
+          success: false,
+          error: `routing_source must be one of: ${ROUTING_SOURCES.join(', ')}`
+        });
+        return;
+      }
+      if (rule_id !== undefined && !(typeof rule_id === 'string' && UUID_PATTERN.test(rule_id))) {
+        res.status(400).json({ success: false, error: 'rule_id must be a routing rule id' });
+        return;
+      }
+
+      const filters: AnalyticsFilters = {
+        rule_id: rule_id as string | undefined,
+        routing_source: routing_source as RoutingSource | undefined
+      };
+      const query = () => this.scopedQuery(merchantId, filters);
 
       // Total transaction count for this merchant
-      const totalTransactions = await transactionRepository.count({
-        where: { merchant_id: merchantId }
-      });
+      const totalTransactions = await query().getCount();
 
-      // Total revenue: sum of amount for paid transactions only
-      const revenueResult = await transactionRepository
-        .createQueryBuilder('t')
-        .select('COALESCE(SUM(t.amount), 0)', 'total_revenue')
-        .where('t.merchant_id = :merchantId', { merchantId })
+      // Revenue: sum of amount for paid transactions only. Amounts are
+      // stored in minor units, so they are summed per currency and converted.
+      const revenueRaw = await query()
+        .select('t.currency', 'currency')
+        .addSelect('COALESCE(SUM(t.amount), 0)', 'revenue')
         .andWhere('t.status = :status', { status: PaymentStatus.PAID })
-        .getRawOne();
+        .groupBy('t.currency')
+        .getRawMany();
 
-      const totalRevenue = parseFloat(revenueResult?.total_revenue ?? '0');
+      const revenueByCurrency: Record<string, number> = {};
+      for (const row of revenueRaw) {
+        revenueByCurrency[row.currency] = fromMinorUnits(Number(row.revenue), row.currency);
+      }
+      // Kept for existing dashboards: a plain sum across currencies
+      const totalRevenue = this.sumMajor(Object.values(revenueByCurrency));
 
       // Breakdown by status: count per status value
-      const statusBreakdownRaw = await transactionRepository
-        .createQueryBuilder('t')
+      const statusBreakdownRaw = await query()
         .select('t.status', 'status')
         .addSelect('COUNT(*)', 'count')
-        .where('t.merchant_id = :merchantId', { merchantId })
         .groupBy('t.status')
         .getRawMany();
 
@@ -47,25 +82,83 @@ export class AnalyticsController {
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-      const dailyDataRaw = await transactionRepository
-        .createQueryBuilder('t')
+      const dailyDataRaw = await query()
         .select('DATE(t.created_at)', 'date')
+        .addSelect('t.currency', 'currency')
         .addSelect('COUNT(*)', 'transaction_count')
         .addSelect(
           `COALESCE(SUM(CASE WHEN t.status = :paidStatus THEN t.amount ELSE 0 END), 0)`,
           'revenue'
         )
-        .where('t.merchant_id = :merchantId', { merchantId })
         .andWhere('t.created_at >= :thirtyDaysAgo', { thirtyDaysAgo })
         .setParameter('paidStatus', PaymentStatus.PAID)
         .groupBy('DATE(t.created_at)')
+        .addGroupBy('t.currency')
         .orderBy('date', 'ASC')
         .getRawMany();
 
-      const last30Days = dailyDataRaw.map((row) => ({
-        date: row.date,
+      // Fold the per-currency rows back into one row per day
+      const days = new Map<string, { date: any; transaction_count: number; revenue: number[] }>();
+      for (const row of dailyDataRaw) {
+        const key = String(row.date);
+        const day = days.get(key) ?? { date: row.date, transaction_count: 0, revenue: [] };
+        day.transaction_count += parseInt(row.transaction_count, 10);
+        day.revenue.push(fromMinorUnits(Number(row.revenue), row.currency));
+        days.set(key, day);
+      }
+
+      const last30Days = [...days.values()].map((day) => ({
+        date: day.date,
+        transaction_count: day.transaction_count,
+        revenue: this.sumMajor(day.revenue)
+      }));
+
+      // Per routing rule: volume and approval rate of the payments it routed
+      const byRuleRaw = await query()
+        .select('t.routing_rule_id', 'rule_id')
+        .addSelect(`MAX(t.routing_decision->'rule'->>'name')`, 'rule_name')
+        .addSelect('COUNT(*)', 'transaction_count')
+        .addSelect('COUNT(*) FILTER (WHERE t.status IN (:...approved))', 'approved')
+        .addSelect('COUNT(*) FILTER (WHERE t.status = :failedStatus)', 'failed')
+        .andWhere('t.routing_rule_id IS NOT NULL')
+        .setParameter('approved', [...APPROVED_STATUSES])
+        .setParameter('failedStatus', PaymentStatus.FAILED)
+        .groupBy('t.routing_rule_id')
+        .orderBy('transaction_count', 'DESC')
+        .getRawMany();
+
+      const byRule = byRuleRaw.map((row) => {
+        const approved = parseInt(row.approved, 10);
+        const decided = approved + parseInt(row.failed, 10);
+        return {
+          rule_id: row.rule_id,
+          rule_name: row.rule_name,
+          transaction_count: parseInt(row.transaction_count, 10),
+          approved,
+          approval_rate: decided > 0 ? Math.round((approved / decided) * 10_000) / 100 : null
+        };
+      });
+
+      // Per PSP and currency: estimated vs charged fees of approved payments
+      // that had a fee schedule when they were routed
+      const feesRaw = await query()
+        .select('t.psp_provider', 'psp')
+        .addSelect('t.currency', 'currency')
+        .addSelect('COUNT(*)', 'transaction_count')
+        .addSelect('COALESCE(SUM(t.estimated_fee), 0)', 'estimated_fee')
+        .addSelect('COALESCE(SUM(t.fee), 0)', 'fee')
+        .andWhere('t.status IN (:...approved)', { approved: [...APPROVED_STATUSES] })
+        .andWhere('t.estimated_fee IS NOT NULL')
+        .groupBy('t.psp_provider')
+        .addGroupBy('t.currency')
+        .getRawMany();
+
+      const fees = feesRaw.map((row) => ({
+        psp: row.psp,
+        currency: row.currency,
         transaction_count: parseInt(row.transaction_count, 10),
-        revenue: parseFloat(row.revenue)
+        estimated_fee: fromMinorUnits(Number(row.estimated_fee), row.currency),
+        fee: fromMinorUnits(Number(row.fee), row.currency)
       }));
 
       logger.info(`Analytics fetched for merchant: ${merchantId}`, {
@@ -78,8 +171,12 @@ export class AnalyticsController {
         data: {
           total_transactions: totalTransactions,
           total_revenue: totalRevenue,
+          revenue_by_currency: revenueByCurrency,
           status_breakdown: statusBreakdown,
-          last_30_days: last30Days
+          last_30_days: last30Days,
+          by_rule: byRule,
+          fees,
+          filters
         }
       });
     } catch (error: any) {
@@ -94,4 +191,24 @@ export class AnalyticsController {
       });
     }
   };
+
+  /** The merchant's transactions, narrowed by the request's filters */
+  private scopedQuery(merchantId: string, filters: AnalyticsFilters): SelectQueryBuilder<Transaction> {
+    const qb = AppDataSource.getRepository(Transaction)
+      .createQueryBuilder('t')
+      .where('t.merchant_id = :merchantId', { merchantId });
+
+    if (filters.rule_id) {
+      qb.andWhere('t.routing_rule_id = :ruleId', { ruleId: filters.rule_id });
+    }
+    if (filters.routing_source) {
+      qb.andWhere(`t.routing_decision->>'source' = :routingSource`, { routingSource: filters.routing_source });
+    }
+    return qb;
+  }
+
+  /** Add major-unit amounts without float noise (0.1 + 0.2) */
+  private sumMajor(amounts: number[]): number {
+    return Number(amounts.reduce((sum, a) => sum + a, 0).toFixed(3));
+  }
 }
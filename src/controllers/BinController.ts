@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { binLookupService } from '../services/BinLookupService';
+import { logger } from '../utils/logger';
+
+/**
+ * Admin endpoints for the local BIN table used by card-based routing
+ * conditions (card_brand, card_scheme, card_type, issuer_country, funding_type).
+ */
+export class BinController {
+  /**
+   * POST /admin/bins/import — upsert BIN rows from a CSV body
+   * (Content-Type: text/csv). Invalid lines are skipped and listed in errors.
+   */
+  importBins = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        res.status(400).json({ success: false, message: 'Send the BIN table as a text/csv body' });
+        return;
+      }
+
+      const result = await binLookupService.importCsv(req.body);
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      if (error.message.includes('CSV header')) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      logger.error('[bins] importBins error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** GET /admin/bins/:bin — how routing classifies a card number prefix */
+  lookupBin = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { bin } = req.params;
+      if (!/^\d{6,19}$/.test(bin)) {
+        res.status(400).json({ success: false, message: 'bin must be at least 6 digits' });
+        return;
+      }
+
+      const card = await binLookupService.lookupNumber(bin);
+      res.json({ success: true, data: card });
+    } catch (error: any) {
+      logger.error('[bins] lookupBin error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+}
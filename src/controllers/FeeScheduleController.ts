@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { IsNull } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { FeeRegion, PSPFeeSchedule } from '../models/PSPFeeSchedule';
+import { feeScheduleService } from '../services/FeeScheduleService';
+import { PaymentMethod, PSPProvider } from '../types/payment.types';
+import { fromMinorUnits, hasValidPrecision, isSupportedCurrency, toMinorUnits } from '../utils/currency';
+import { logger } from '../utils/logger';
+
+/**
+ * PSP fee schedules for cost-based routing. Like quotas, the same handlers
+ * serve two scopes:
+ *  - merchant routes (req.merchant set) manage the merchant's own schedules
+ *    (for its own PSP accounts) and can read the platform's
+ *  - admin routes manage every schedule; `merchant_id` in the body makes one
+ *    merchant-specific, otherwise it is platform-wide
+ *
+ * fixed_fee is in major units here, like the payments API.
+ */
+export class FeeScheduleController {
+  private scheduleRepository = AppDataSource.getRepository(PSPFeeSchedule);
+
+  /**
+   * GET /routing/fee-schedules — the merchant's schedules, then the
+   * platform's. GET /admin/routing/fee-schedules — every schedule.
+   */
+  listSchedules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const order = { psp_provider: 'ASC', created_at: 'ASC' } as const;
+      const schedules = req.merchant
+        ? await this.scheduleRepository.find({
+            where: [{ merchant_id: req.merchant.id }, { merchant_id: IsNull() }],
+            order
+          })
+        : await this.scheduleRepository.find({ order });
+
+      // Own schedules first — they take precedence
+      schedules.sort((a, b) => Number(b.merchant_id !== null) - Number(a.merchant_id !== null));
+      res.json({ success: true, data: schedules.map(s => this.toResponse(s)) });
+    } catch (error: any) {
+      logger.error('[fees] listSchedules error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** POST /routing/fee-schedules — create a schedule */
+  createSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schedule = this.scheduleRepository.create({
+        merchant_id: req.merchant?.id ?? null,
+        payment_method: null,
+        card_scheme: null,
+        currency: null,
+        region: null,
+        percentage: 0,
+        fixed_fee: 0,
+        enabled: true
+      });
+
+      const error = this.applyBody(req, schedule);
+      if (error) {
+        res.status(400).json({ success: false, message: error });
+        return;
+      }
+
+      await this.scheduleRepository.save(schedule);
+      feeScheduleService.invalidate();
+      logger.info(`[fees] fee schedule created for ${schedule.psp_provider}`, {
+        merchant_id: schedule.merchant_id ?? 'platform'
+      });
+      res.status(201).json({ success: true, data: this.toResponse(schedule) });
+    } catch (error: any) {
+      logger.error('[fees] createSchedule error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** PUT /routing/fee-schedules/:id — change a schedule; send null to clear a criterion */
+  updateSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schedule = await this.findEditableSchedule(req, res);
+      if (!schedule) return;
+
+      const error = this.applyBody(req, schedule);
+      if (error) {
+        res.status(400).json({ success: false, message: error });
+        return;
+      }
+
+      await this.scheduleRepository.save(schedule);
+      feeScheduleService.invalidate();
+      logger.info(`[fees] fee schedule updated: ${schedule.id}`, { merchant_id: schedule.merchant_id ?? 'platform' });
+      res.json({ success: true, data: this.toResponse(schedule) });
+    } catch (error: any) {
+      logger.error('[fees] updateSchedule error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** DELETE /routing/fee-schedules/:id */
+  deleteSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schedule = await this.findEditableSchedule(req, res);
+      if (!schedule) return;
+
+      await this.scheduleRepository.remove(schedule);
+      feeScheduleService.invalidate();
+      logger.info(`[fees] fee schedule deleted: ${req.params.id}`);
+      res.json({ success: true, message: 'Fee schedule deleted' });
+    } catch (error: any) {
+      logger.error('[fees] deleteSchedule error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Copy the request body onto the schedule, converting fixed_fee to minor
+   * units, then check the result. Returns an error message, or null when valid.
+   */
+  private applyBody(req: Request, schedule: PSPFeeSchedule): string | null {
+    const body = req.body ?? {};
+    const creating = !schedule.id;
+
+    if (body.merchant_id !== undefined) {
+      if (req.merchant) return 'merchant_id can only be set by the platform';
+      if (body.merchant_id !== null && typeof body.merchant_id !== 'string') {
+        return 'merchant_id must be a merchant id or null';
+      }
+      schedule.merchant_id = body.merchant_id;
+    }
+    if (creating || body.psp_provider !== undefined) {
+      if (!Object.values(PSPProvider).includes(body.psp_provider)) {
+        return `psp_provider must be one of: ${Object.values(PSPProvider).join(', ')}`;
+      }
+      schedule.psp_provider = body.psp_provider;
+    }
+    if (body.payment_method !== undefined) {
+      if (body.payment_method !== null && !Object.values(PaymentMethod).includes(body.payment_method)) {
+        return `payment_method must be one of: ${Object.values(PaymentMethod).join(', ')}`;
+      }
+      schedule.payment_method = body.payment_method;
+    }
+    if (body.card_scheme !== undefined) {
+      if (body.card_scheme !== null && (typeof body.card_scheme !== 'string' || !body.card_scheme.trim())) {
+        return 'card_scheme must be a card scheme, e.g. "mada", or null';
+      }
+      schedule.card_scheme = body.card_scheme?.trim().toLowerCase() ?? null;
+    }
+    if (body.region !== undefined) {
+      if (body.region !== null && !Object.values(FeeRegion).includes(body.region)) {
+        return `region must be one of: ${Object.values(FeeRegion).join(', ')}`;
+      }
+      schedule.region = body.region;
+    }
+    if (body.currency !== undefined) {
+      if (body.currency !== null && !isSupportedCurrency(body.currency)) {
+        return `Unsupported currency: ${body.currency}`;
+      }
+      // The stored fee is in the old currency's minor units
+      if (body.currency !== schedule.currency && schedule.fixed_fee > 0 && body.fixed_fee === undefined) {
+        return 'Send fixed_fee again when changing currency';
+      }
+      schedule.currency = body.currency;
+    }
+    if (body.percentage !== undefined) {
+      if (typeof body.percentage !== 'number' || body.percentage < 0 || body.percentage > 100) {
+        return 'percentage must be a number from 0 to 100';
+      }
+      if (!Number.isInteger(Number((body.percentage * 10_000).toPrecision(15)))) {
+        return 'percentage allows at most 4 decimal places';
+      }
+      schedule.percentage = body.percentage;
+    }
+    if (body.fixed_fee !== undefined) {
+      if (typeof body.fixed_fee !== 'number' || body.fixed_fee < 0) return 'fixed_fee must be a non-negative amount';
+      if (body.fixed_fee > 0 && !schedule.currency) return 'fixed_fee requires a currency';
+      if (schedule.currency && !hasValidPrecision(body.fixed_fee, schedule.currency)) {
+        return `fixed_fee has too many decimal places for ${schedule.currency}`;
+      }
+      schedule.fixed_fee = schedule.currency ? toMinorUnits(body.fixed_fee, schedule.currency) : 0;
+    }
+    if (body.enabled !== undefined) {
+      if (typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+      schedule.enabled = body.enabled;
+    }
+
+    if (schedule.fixed_fee > 0 && !schedule.currency) return 'fixed_fee requires a currency';
+    return null;
+  }
+
+  /**
+   * Load a schedule the caller may change, or send the error response and
+   * return null. Other merchants' schedules are reported as not found;
+   * platform schedules are visible to merchants but read-only.
+   */
+  private async findEditableSchedule(req: Request, res: Response): Promise<PSPFeeSchedule | null> {
+    const schedule = await this.scheduleRepository.findOne({ where: { id: req.params.id } });
+    const owner = req.merchant?.id;
+
+    if (!schedule || (owner && schedule.merchant_id !== null && schedule.merchant_id !== owner)) {
+      res.status(404).json({ success: false, message: 'Fee schedule not found' });
+      return null;
+    }
+    if (owner && schedule.merchant_id === null) {
+      res.status(403).json({
+        success: false,
+        message: 'Platform fee schedules are managed by the platform and cannot be changed'
+      });
+      return null;
+    }
+    return schedule;
+  }
+
+  private toResponse(schedule: PSPFeeSchedule) {
+    return {
+      ...schedule,
+      fixed_fee: schedule.currency ? fromMinorUnits(schedule.fixed_fee, schedule.currency) : 0,
+      scope: schedule.merchant_id ? 'merchant' : 'platform'
+    };
+  }
+}
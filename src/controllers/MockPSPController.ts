@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { connectorRegistry } from '../connectors/ConnectorRegistry';
+import { MockConnector } from '../connectors/MockConnector';
+import { PSPProvider } from '../types/payment.types';
+import { logger } from '../utils/logger';
+
+/**
+ * Customer-facing pages of the mock PSP (non-production only).
+ */
+export class MockPSPController {
+  /**
+   * GET /mock-psp/3ds/:id — the mock 3DS challenge a payment_url points to.
+   * Without ?outcome= it shows a page to pick one; with
+   * ?outcome=success|failure it completes the challenge, sends the webhook and
+   * redirects the customer to the payment's callback_url.
+   */
+  challenge3DS = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const outcome = req.query.outcome;
+
+      if (outcome !== 'success' && outcome !== 'failure') {
+        const safeId = encodeURIComponent(id);
+        res.type('html').send(
+          '<!doctype html><title>Mock 3DS</title>' +
+          `<h1>Mock 3D Secure</h1><p>Payment ${safeId}</p>` +
+          `<p><a href="?outcome=success">Authenticate</a> · <a href="?outcome=failure">Fail authentication</a></p>`
+        );
+        return;
+      }
+
+      const connector = connectorRegistry.get(PSPProvider.MOCK) as MockConnector;
+      const callbackUrl = connector.complete3DS(id, outcome === 'success');
+      logger.info(`Mock PSP 3DS ${outcome} for ${id}`);
+
+      if (callbackUrl) {
+        const url = new URL(callbackUrl);
+        url.searchParams.set('id', id);
+        url.searchParams.set('status', outcome === 'success' ? 'paid' : 'failed');
+        res.redirect(url.toString());
+        return;
+      }
+      res.json({ success: true, data: { id, outcome } });
+    } catch (error: any) {
+      res.status(404).json({ success: false, message: error.message });
+    }
+  };
+}
@@ -0,0 +1,193 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { AppDataSource } from '../config/database';
+import { MerchantPSPAccount } from '../models/MerchantPSPAccount';
+import { Transaction } from '../models/Transaction';
+import { pspAccountService } from '../services/PSPAccountService';
+import { isAllowedPSPApiUrl } from '../config/psp';
+import { PSPProvider } from '../types/payment.types';
+import { logger } from '../utils/logger';
+
+/**
+ * CRUD for a merchant's own PSP accounts. Credentials are write-only: they
+ * are never returned, only the last 4 characters of the API key.
+ */
+export class PSPAccountController {
+  private accountRepository = AppDataSource.getRepository(MerchantPSPAccount);
+  private transactionRepository = AppDataSource.getRepository(Transaction);
+
+  /** GET /psp-accounts — the authenticated merchant's PSP accounts */
+  listAccounts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const accounts = await this.accountRepository.find({
+        where: { merchant_id: req.merchant!.id },
+        order: { created_at: 'ASC' }
+      });
+      res.json({ success: true, data: accounts.map(a => this.toResponse(a)) });
+    } catch (error: any) {
+      logger.error('[psp-accounts] listAccounts error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** POST /psp-accounts — connect a PSP account */
+  createAccount = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const merchantId = req.merchant!.id;
+      const { psp, credentials, api_url, options, enabled = true } = req.body;
+      if (!this.checkApiUrl(psp, api_url, res)) return;
+
+      const existing = await this.accountRepository.findOne({
+        where: { merchant_id: merchantId, psp_provider: psp }
+      });
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          message: `A ${psp} account is already connected — update or delete it instead`
+        });
+        return;
+      }
+
+      const account = this.accountRepository.create({
+        merchant_id: merchantId,
+        psp_provider: psp,
+        credentials: {
+          api_key: credentials.api_key,
+          webhook_secret: credentials.webhook_secret
+        },
+        api_url,
+        options: options ?? null,
+        enabled
+      });
+      await this.accountRepository.save(account);
+
+      logger.info(`[psp-accounts] ${psp} account connected`, {
+        merchant_id: merchantId,
+        account_id: account.id
+      });
+      res.status(201).json({ success: true, data: this.toResponse(account) });
+    } catch (error: any) {
+      logger.error('[psp-accounts] createAccount error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /**
+   * PUT /psp-accounts/:id — update an account. Credentials are replaced as a
+   * whole when given; omitted fields are left unchanged.
+   */
+  updateAccount = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const account = await this.accountRepository.findOne({
+        where: { id: req.params.id, merchant_id: req.merchant!.id }
+      });
+      if (!account) {
+        res.status(404).json({ success: false, message: 'PSP account not found' });
+        return;
+      }
+
+      const { credentials, api_url, options, enabled } = req.body;
+      if (!this.checkApiUrl(account.psp_provider, api_url, res)) return;
+      if (credentials !== undefined) {
+        account.credentials = {
+          api_key: credentials.api_key,
+          webhook_secret: credentials.webhook_secret
+        };
+      }
+      if (api_url !== undefined) account.api_url = api_url;
+      if (options !== undefined) account.options = options;
+      if (enabled !== undefined) account.enabled = enabled;
+
+      await this.accountRepository.save(account);
+
+      logger.info(`[psp-accounts] ${account.psp_provider} account updated`, {
+        merchant_id: account.merchant_id,
+        account_id: account.id
+      });
+      res.json({ success: true, data: this.toResponse(account) });
+    } catch (error: any) {
+      logger.error('[psp-accounts] updateAccount error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /**
+   * DELETE /psp-accounts/:id — disconnect an account. Later payments fall
+   * back to the platform account for that PSP, if one is configured.
+   *
+   * Accounts that already processed payments can't be deleted — refunds and
+   * captures of those payments still need the credentials. Disable them
+   * instead (enabled: false).
+   */
+  deleteAccount = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const account = await this.accountRepository.findOne({
+        where: { id: req.params.id, merchant_id: req.merchant!.id }
+      });
+      if (!account) {
+        res.status(404).json({ success: false, message: 'PSP account not found' });
+        return;
+      }
+
+      const used = await this.transactionRepository.exist({ where: { psp_account_id: account.id } });
+      if (used) {
+        res.status(409).json({
+          success: false,
+          message: 'PSP account has processed payments and cannot be deleted — disable it instead'
+        });
+        return;
+      }
+
+      await this.accountRepository.remove(account);
+      pspAccountService.invalidate(req.params.id);
+
+      logger.info(`[psp-accounts] account deleted: ${req.params.id}`);
+      res.json({ success: true, message: 'PSP account deleted' });
+    } catch (error: any) {
+      logger.error('[psp-accounts] deleteAccount error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /**
+   * api_url is called server-side with the account's credentials, so it may
+   * only point at the PSP's own API hosts. Sends the 400 and returns false
+   * when it doesn't.
+   */
+  private checkApiUrl(provider: PSPProvider, apiUrl: string | undefined, res: Response): boolean {
+    if (!apiUrl || isAllowedPSPApiUrl(provider, apiUrl)) return true;
+    res.status(400).json({
+      success: false,
+      message: `api_url must be an https URL on one of ${provider}'s API hosts`
+    });
+    return false;
+  }
+
+  private toResponse(account: MerchantPSPAccount) {
+    return {
+      id: account.id,
+      psp: account.psp_provider,
+      api_url: account.api_url ?? null,
+      options: account.options,
+      enabled: account.enabled,
+      api_key_last4: account.credentials.api_key.slice(-4),
+      has_webhook_secret: !!account.credentials.webhook_secret,
+      // Where the PSP should send this account's webhooks
+      webhook_path: `/api/${process.env.API_VERSION || 'v1'}/webhooks/${account.psp_provider}/${account.id}`,
+      created_at: account.created_at,
+      updated_at: account.updated_at
+    };
+  }
+}
@@ -1,8 +1,10 @@
 import { Request, Response } from 'express';
 import { PaymentService } from '../services/PaymentService';
-import { PaymentRequest, RefundRequest, PaymentMethod } from '../types/payment.types';
+import { RoutingError } from '../services/RoutingService';
+import { PaymentRequest, RefundRequest, CaptureRequest, PaymentMethod } from '../types/payment.types';
 import { logger } from '../utils/logger';
 import { validationResult } from 'express-validator';
+import { PSPError } from '../connectors/PSPError';
 
 export class PaymentController {
   private paymentService: PaymentService;
@@ -47,7 +49,10 @@ export class PaymentController {
       }
 
       const merchantId = req.merchant!.id;
-      const paymentRequest: PaymentRequest = req.body;
+      const paymentRequest: PaymentRequest = {
+        ...req.body,
+        idempotency_key: req.get('Idempotency-Key') || undefined
+      };
 
       // Create payment
       const payment = await this.paymentService.createPayment(merchantId, paymentRequest);
@@ -72,10 +77,11 @@ export class PaymentController {
         message: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack : undefined
       });
-      res.status(500).json({
+      res.status(this.createErrorStatus(error)).json({
         success: false,
         error: 'Failed to create payment',
-        message: error instanceof Error ? error.message : 'Unknown error'
+        message: error instanceof Error ? error.message : 'Unknown error',
+        ...this.declineFields(error)
       });
     }
   };
@@ -99,7 +105,7 @@ export class PaymentController {
       }
 
       const merchantId = req.merchant!.id;
-      const { amount, currency, description, psp, token, customer, metadata } = req.body;
+      const { amount, currency, description, psp, token, customer, metadata, capture } = req.body;
 
       logger.info('[charge] incoming request', {
         psp,
@@ -115,6 +121,8 @@ export class PaymentController {
         currency,
         description: description || 'Payment',
         psp,
+        capture,
+        idempotency_key: req.get('Idempotency-Key') || undefined,
         // Forward callback_url added by payment-proxy (or sent directly by the client)
         callback_url: req.body.callback_url,
         source: {
@@ -141,14 +149,16 @@ export class PaymentController {
           amount: payment.amount,
           currency: payment.currency,
           // null when no 3DS needed; open in iframe/modal when present
-          verification_url: payment.payment_url ?? null
+          verification_url: payment.payment_url ?? null,
+          ...(payment.decline_code && { decline_code: payment.decline_code })
         }
       });
     } catch (error: any) {
       logger.error('[charge] error:', { message: error.message, request_id: req.requestId });
-      res.status(500).json({
+      res.status(this.createErrorStatus(error)).json({
         success: false,
-        message: error instanceof Error ? error.message : 'Charge failed'
+        message: error instanceof Error ? error.message : 'Charge failed',
+        ...this.declineFields(error)
       });
     }
   };
@@ -161,7 +171,7 @@ export class PaymentController {
     try {
       const { id } = req.params;
 
-      const payment = await this.paymentService.getPayment(id);
+      const payment = await this.paymentService.getPayment(req.merchant!.id, id);
 
       res.status(200).json({
         success: true,
@@ -194,10 +204,16 @@ export class PaymentController {
    */
   refundPayment = async (req: Request, res: Response): Promise<void> => {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
+        return;
+      }
+
       const { id } = req.params;
       const refundRequest: RefundRequest = req.body;
 
-      const refund = await this.paymentService.refundPayment(id, refundRequest);
+      const refund = await this.paymentService.refundPayment(req.merchant!.id, id, refundRequest);
 
       logger.info(`Payment refunded: ${id}`);
 
@@ -227,14 +243,172 @@ export class PaymentController {
         return;
       }
 
+      if (error instanceof Error && (
+        error.message.includes('exceeds refundable balance') ||
+        error.message.includes('decimal places')
+      )) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid refund amount',
+          message: error.message
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: 'Failed to refund payment',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        ...this.declineFields(error)
+      });
+    }
+  };
+
+  /**
+   * GET /api/v1/payments/:id/refunds
+   * List refunds issued against a payment
+   */
+  listRefunds = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const refunds = await this.paymentService.getRefunds(req.merchant!.id, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: refunds,
+        count: refunds.length
+      });
+    } catch (error: any) {
+      logger.error('Error in listRefunds controller:', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        request_id: req.requestId
+      });
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: 'Payment not found'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list refunds',
         message: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   };
 
+  /**
+   * POST /api/v1/payments/:id/capture
+   * Capture an authorized payment — full, or partial when amount is given
+   */
+  capturePayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
+        return;
+      }
+
+      const { id } = req.params;
+      const captureRequest: CaptureRequest = req.body;
+
+      const payment = await this.paymentService.capturePayment(req.merchant!.id, id, captureRequest);
+
+      logger.info(`Payment captured: ${id}`, { status: payment.status, request_id: req.requestId });
+
+      res.status(200).json({
+        success: true,
+        data: payment
+      });
+    } catch (error: any) {
+      logger.error('Error in capturePayment controller:', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        request_id: req.requestId
+      });
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: 'Payment not found'
+        });
+        return;
+      }
+
+      if (error instanceof Error && (
+        error.message.includes('Only authorized transactions') ||
+        error.message.includes('Capture amount') ||
+        error.message.includes('does not support capture')
+      )) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid capture request',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to capture payment',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        ...this.declineFields(error)
+      });
+    }
+  };
+
+  /**
+   * POST /api/v1/payments/:id/void
+   * Void an authorized or unsettled payment
+   */
+  voidPayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const payment = await this.paymentService.voidPayment(req.merchant!.id, id);
+
+      logger.info(`Payment voided: ${id}`, { request_id: req.requestId });
+
+      res.status(200).json({
+        success: true,
+        data: payment
+      });
+    } catch (error: any) {
+      logger.error('Error in voidPayment controller:', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        request_id: req.requestId
+      });
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          error: 'Payment not found'
+        });
+        return;
+      }
+
+      if (error instanceof Error && (
+        error.message.includes('Cannot void') ||
+        error.message.includes('does not support void')
+      )) {
+        res.status(409).json({
+          success: false,
+          error: 'Payment cannot be voided',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to void payment',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        ...this.declineFields(error)
+      });
+    }
+  };
+
   /**
    * GET /api/v1/payments
    * List all payments for merchant
@@ -266,4 +440,18 @@ export class PaymentController {
       });
     }
   };
-}
\ No newline at end of file
+
+  /** 422 when no PSP could take the payment — the message gives the reason */
+  private createErrorStatus(error: unknown): number {
+    return error instanceof RoutingError ? 422 : 500;
+  }
+
+  /**
+   * Normalized decline_code plus the PSP's raw code for errors raised by a
+   * PSP, so clients can branch on the reason without parsing messages.
+   */
+  private declineFields(error: unknown) {
+    if (!(error instanceof PSPError)) return {};
+    return { decline_code: error.declineCode, raw_psp_code: error.code ?? null };
+  }
+}
@@ -0,0 +1,257 @@
+import { Request, Response } from 'express';
+import { AppDataSource } from '../config/database';
+import { PSPQuota, QuotaPeriod } from '../models/PSPQuota';
+import { pspQuotaService, QuotaUsage } from '../services/PSPQuotaService';
+import { PSPProvider } from '../types/payment.types';
+import { fromMinorUnits, hasValidPrecision, isSupportedCurrency, toMinorUnits } from '../utils/currency';
+import { logger } from '../utils/logger';
+
+const COUNT_KEYS = ['max_count', 'min_count'] as const;
+const AMOUNT_KEYS = ['max_amount', 'min_amount'] as const;
+
+/**
+ * PSP volume quotas. Like routing rules, the same handlers serve two scopes:
+ *  - merchant routes (req.merchant set) manage the merchant's own quotas and
+ *    can read, but not change, the platform's
+ *  - admin routes manage every quota; `merchant_id` in the body makes one
+ *    merchant-specific, otherwise it is platform-wide
+ *
+ * Amounts are in major units here, like the payments API.
+ */
+export class QuotaController {
+  private quotaRepository = AppDataSource.getRepository(PSPQuota);
+
+  /**
+   * GET /routing/quotas — current usage against every quota that applies to
+   * the merchant (its own and the platform's).
+   * GET /admin/routing/quotas — every quota.
+   */
+  listQuotas = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const usage = await pspQuotaService.getUsage(req.merchant?.id);
+      const own = req.merchant
+        ? await this.quotaRepository.find({ where: { merchant_id: req.merchant.id, enabled: false } })
+        : await this.quotaRepository.find({ where: { enabled: false } });
+
+      res.json({
+        success: true,
+        data: [
+          ...usage.map(u => this.toUsageResponse(u)),
+          // Disabled quotas aren't tracked, but are still listed for editing
+          ...own.map(q => this.toResponse(q))
+        ]
+      });
+    } catch (error: any) {
+      logger.error('[quotas] listQuotas error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** POST /routing/quotas — create a quota */
+  createQuota = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const quota = this.quotaRepository.create({
+        merchant_id: req.merchant?.id ?? null,
+        currency: null,
+        max_count: null,
+        max_amount: null,
+        min_count: null,
+        min_amount: null,
+        enabled: true
+      });
+
+      const error = this.applyBody(req, quota);
+      if (error) {
+        res.status(400).json({ success: false, message: error });
+        return;
+      }
+
+      await this.quotaRepository.save(quota);
+      pspQuotaService.invalidate();
+      logger.info(`[quotas] quota created: ${quota.psp_provider} per ${quota.period}`, {
+        merchant_id: quota.merchant_id ?? 'platform'
+      });
+      res.status(201).json({ success: true, data: this.toResponse(quota) });
+    } catch (error: any) {
+      logger.error('[quotas] createQuota error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** PUT /routing/quotas/:id — change limits; send null to remove one */
+  updateQuota = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const quota = await this.findEditableQuota(req, res);
+      if (!quota) return;
+
+      const error = this.applyBody(req, quota);
+      if (error) {
+        res.status(400).json({ success: false, message: error });
+        return;
+      }
+
+      await this.quotaRepository.save(quota);
+      pspQuotaService.invalidate();
+      logger.info(`[quotas] quota updated: ${quota.id}`, { merchant_id: quota.merchant_id ?? 'platform' });
+      res.json({ success: true, data: this.toResponse(quota) });
+    } catch (error: any) {
+      logger.error('[quotas] updateQuota error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** DELETE /routing/quotas/:id */
+  deleteQuota = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const quota = await this.findEditableQuota(req, res);
+      if (!quota) return;
+
+      await this.quotaRepository.remove(quota);
+      pspQuotaService.invalidate();
+      logger.info(`[quotas] quota deleted: ${req.params.id}`);
+      res.json({ success: true, message: 'Quota deleted' });
+    } catch (error: any) {
+      logger.error('[quotas] deleteQuota error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Copy the request body onto the quota, converting amounts to minor units,
+   * then check the result. Returns an error message, or null when valid.
+   */
+  private applyBody(req: Request, quota: PSPQuota): string | null {
+    const body = req.body ?? {};
+    const creating = !quota.id;
+
+    if (body.merchant_id !== undefined) {
+      if (req.merchant) return 'merchant_id can only be set by the platform';
+      if (body.merchant_id !== null && typeof body.merchant_id !== 'string') {
+        return 'merchant_id must be a merchant id or null';
+      }
+      quota.merchant_id = body.merchant_id;
+    }
+    if (creating || body.psp_provider !== undefined) {
+      if (!Object.values(PSPProvider).includes(body.psp_provider)) {
+        return `psp_provider must be one of: ${Object.values(PSPProvider).join(', ')}`;
+      }
+      quota.psp_provider = body.psp_provider;
+    }
+    if (creating || body.period !== undefined) {
+      if (!Object.values(QuotaPeriod).includes(body.period)) {
+        return `period must be one of: ${Object.values(QuotaPeriod).join(', ')}`;
+      }
+      quota.period = body.period;
+    }
+    if (body.currency !== undefined) {
+      if (body.currency !== null && !isSupportedCurrency(body.currency)) {
+        return `Unsupported currency: ${body.currency}`;
+      }
+      // Stored amounts are in the old currency's minor units
+      const stale = AMOUNT_KEYS.filter(k => quota[k] !== null && body[k] === undefined);
+      if (body.currency !== quota.currency && stale.length > 0) {
+        return `Send ${stale.join(' and ')} again when changing currency`;
+      }
+      quota.currency = body.currency;
+    }
+    if (body.enabled !== undefined) {
+      if (typeof body.enabled !== 'boolean') return 'enabled must be a boolean';
+      quota.enabled = body.enabled;
+    }
+
+    for (const key of COUNT_KEYS) {
+      const value = body[key];
+      if (value === undefined) continue;
+      if (value !== null && !(Number.isInteger(value) && value >= 0)) {
+        return `${key} must be a non-negative integer or null`;
+      }
+      quota[key] = value;
+    }
+    for (const key of AMOUNT_KEYS) {
+      const value = body[key];
+      if (value === undefined) continue;
+      if (value === null) {
+        quota[key] = null;
+        continue;
+      }
+      if (typeof value !== 'number' || value < 0) return `${key} must be a non-negative amount or null`;
+      if (!quota.currency) return `${key} requires a currency`;
+      if (!hasValidPrecision(value, quota.currency)) {
+        return `${key} has too many decimal places for ${quota.currency}`;
+      }
+      quota[key] = toMinorUnits(value, quota.currency);
+    }
+
+    if ((quota.max_amount !== null || quota.min_amount !== null) && !quota.currency) {
+      return 'Amount limits require a currency';
+    }
+    if ([...COUNT_KEYS, ...AMOUNT_KEYS].every(k => quota[k] === null)) {
+      return 'Set at least one of max_count, max_amount, min_count, min_amount';
+    }
+    if (quota.max_count !== null && quota.min_count !== null && quota.min_count > quota.max_count) {
+      return 'min_count cannot exceed max_count';
+    }
+    if (quota.max_amount !== null && quota.min_amount !== null && quota.min_amount > quota.max_amount) {
+      return 'min_amount cannot exceed max_amount';
+    }
+    return null;
+  }
+
+  /**
+   * Load a quota the caller may change, or send the error response and
+   * return null. Other merchants' quotas are reported as not found; platform
+   * quotas are visible to merchants but read-only.
+   */
+  private async findEditableQuota(req: Request, res: Response): Promise<PSPQuota | null> {
+    const quota = await this.quotaRepository.findOne({ where: { id: req.params.id } });
+    const owner = req.merchant?.id;
+
+    if (!quota || (owner && quota.merchant_id !== null && quota.merchant_id !== owner)) {
+      res.status(404).json({ success: false, message: 'Quota not found' });
+      return null;
+    }
+    if (owner && quota.merchant_id === null) {
+      res.status(403).json({
+        success: false,
+        message: 'Platform quotas are managed by the platform and cannot be changed'
+      });
+      return null;
+    }
+    return quota;
+  }
+
+  private toResponse(quota: PSPQuota) {
+    const major = (minor: number | null) =>
+      minor === null || !quota.currency ? minor : fromMinorUnits(minor, quota.currency);
+
+    return {
+      ...quota,
+      max_amount: major(quota.max_amount),
+      min_amount: major(quota.min_amount),
+      scope: quota.merchant_id ? 'merchant' : 'platform'
+    };
+  }
+
+  private toUsageResponse({ quota, period_start, period_end, used, capped, below_minimum }: QuotaUsage) {
+    const major = (minor: number) => (quota.currency ? fromMinorUnits(minor, quota.currency) : null);
+    const remaining = (max: number | null, value: number) => (max === null ? null : Math.max(0, max - value));
+
+    return {
+      ...this.toResponse(quota),
+      usage: {
+        period_start,
+        period_end,
+        count: used.count,
+        amount: major(used.amount),
+        remaining_count: remaining(quota.max_count, used.count),
+        remaining_amount: quota.max_amount === null ? null : major(remaining(quota.max_amount, used.amount)!),
+        capped,
+        below_minimum
+      }
+    };
+  }
+}
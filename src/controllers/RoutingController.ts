@@ -1,103 +1,601 @@
 import { Request, Response } from 'express';
+import { IsNull } from 'typeorm';
 import { AppDataSource } from '../config/database';
 import { RoutingRule } from '../models/RoutingRule';
-import { PSPProvider } from '../types/payment.types';
-import { RoutingService } from '../services/RoutingService';
+import { RoutingRuleVersion, RuleChange, RuleSnapshot } from '../models/RoutingRuleVersion';
+import { Merchant } from '../models/Merchant';
+import { loadRoutingConfig, ROUTING_MODES } from '../config/routing';
+import { connectorRegistry } from '../connectors/ConnectorRegistry';
+import { RoutingError, routingService } from '../services/RoutingService';
+import { pspAccountService } from '../services/PSPAccountService';
+import { routingRuleCache } from '../services/RoutingRuleCache';
+import { validateConditions } from '../services/routingConditions';
+import { ruleCapabilityWarnings } from '../services/pspCapabilities';
+import { PaymentRequest, SplitTarget } from '../types/payment.types';
 import { logger } from '../utils/logger';
+import { diffJson } from '../utils/jsonDiff';
 
+const MAX_SIMULATION_BATCH = 100;
+/** Keys a rule body may carry — anything else (a typo like "conditons") is rejected */
+const RULE_KEYS = ['name', 'priority', 'conditions', 'target_psp', 'split', 'enabled'];
+
+/**
+ * Routing rule management. The same handlers serve two scopes:
+ *  - merchant routes (req.merchant set) manage the merchant's own rules and
+ *    can read, but not change, the global ones
+ *  - admin routes (no req.merchant) manage the global rules
+ */
 export class RoutingController {
   private ruleRepository = AppDataSource.getRepository(RoutingRule);
-  private routingService = new RoutingService();
+  private versionRepository = AppDataSource.getRepository(RoutingRuleVersion);
 
-  /** GET /routing-rules — list all rules ordered by priority */
+  /**
+   * GET /routing-rules — the merchant's rules, then the global rules that
+   * apply after them, each ordered by priority (evaluation order).
+   * GET /admin/routing-rules — the global rules.
+   */
   listRules = async (req: Request, res: Response): Promise<void> => {
-    const rules = await this.ruleRepository.find({
-      order: { priority: 'DESC' }
-    });
-    res.json({ success: true, data: rules });
+    try {
+      const global = await this.ruleRepository.find({
+        where: { merchant_id: IsNull() },
+        order: { priority: 'DESC' }
+      });
+      const own = req.merchant
+        ? await this.ruleRepository.find({
+            where: { merchant_id: req.merchant.id },
+            order: { priority: 'DESC' }
+          })
+        : [];
+
+      res.json({ success: true, data: [...own, ...global].map(r => this.toResponse(r)) });
+    } catch (error: any) {
+      logger.error('[routing] listRules error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
   };
 
-  /** POST /routing-rules — create a new rule */
+  /**
+   * POST /routing-rules — create a new rule (recorded as version 1).
+   * `warnings` lists target PSPs that can't process the payments the rule
+   * matches — routing would skip them, so the rule is saved anyway.
+   */
   createRule = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { name, priority = 0, conditions = [], target_psp, enabled = true } = req.body;
+      const { name, priority = 0, conditions = [], target_psp, split, enabled = true } = req.body;
 
-      if (!name || !target_psp) {
-        res.status(400).json({ success: false, message: 'name and target_psp are required' });
+      if (!name || (!target_psp && !split)) {
+        res.status(400).json({ success: false, message: 'name and either target_psp or split are required' });
         return;
       }
 
-      if (!Object.values(PSPProvider).includes(target_psp)) {
-        res.status(400).json({
-          success: false,
-          message: `Invalid target_psp. Valid values: ${Object.values(PSPProvider).join(', ')}`
-        });
+      const ruleError = this.validateRule(req.body);
+      if (ruleError) {
+        res.status(400).json({ success: false, message: ruleError });
         return;
       }
 
-      const rule = this.ruleRepository.create({ name, priority, conditions, target_psp, enabled });
-      await this.ruleRepository.save(rule);
+      const rule = this.ruleRepository.create({
+        name,
+        priority,
+        conditions,
+        target_psp: split ? null : target_psp,
+        split: split ?? null,
+        enabled,
+        merchant_id: this.ownerOf(req)
+      });
+      await this.saveVersioned(rule, RuleChange.CREATED, this.authorOf(req));
 
-      logger.info(`[routing] rule created: "${name}" → ${target_psp} (priority ${priority})`);
-      res.status(201).json({ success: true, data: rule });
+      const target = split ? split.map((l: SplitTarget) => `${l.psp} ${l.weight}%`).join(' / ') : target_psp;
+      logger.info(`[routing] rule created: "${name}" → ${target} (priority ${priority})`, {
+        merchant_id: rule.merchant_id ?? 'global'
+      });
+      res.status(201).json({ success: true, data: this.toResponse(rule), ...this.capabilityWarnings(rule) });
     } catch (error: any) {
       logger.error('[routing] createRule error:', { message: error.message });
       res.status(500).json({ success: false, message: error.message });
     }
   };
 
-  /** PUT /routing-rules/:id — update a rule */
+  /** PUT /routing-rules/:id — update a rule; every effective change is a new version */
   updateRule = async (req: Request, res: Response): Promise<void> => {
     try {
-      const rule = await this.ruleRepository.findOne({ where: { id: req.params.id } });
-      if (!rule) {
-        res.status(404).json({ success: false, message: 'Rule not found' });
+      const rule = await this.findEditableRule(req, res);
+      if (!rule) return;
+
+      const ruleError = this.validateRule(req.body);
+      if (ruleError) {
+        res.status(400).json({ success: false, message: ruleError });
         return;
       }
 
-      const { name, priority, conditions, target_psp, enabled } = req.body;
+      const { name, priority, conditions, target_psp, split, enabled } = req.body;
+      const before = this.snapshotOf(rule);
+
       if (name !== undefined) rule.name = name;
       if (priority !== undefined) rule.priority = priority;
       if (conditions !== undefined) rule.conditions = conditions;
-      if (target_psp !== undefined) rule.target_psp = target_psp;
+      // Setting one kind of target replaces the other
+      if (target_psp !== undefined) {
+        rule.target_psp = target_psp;
+        rule.split = null;
+      }
+      if (split !== undefined) {
+        rule.split = split;
+        rule.target_psp = null;
+      }
       if (enabled !== undefined) rule.enabled = enabled;
 
-      await this.ruleRepository.save(rule);
-      res.json({ success: true, data: rule });
+      if (diffJson(before, this.snapshotOf(rule)).length > 0) {
+        await this.saveVersioned(rule, RuleChange.UPDATED, this.authorOf(req));
+        logger.info(`[routing] rule updated: "${rule.name}" → version ${rule.version}`, {
+          merchant_id: rule.merchant_id ?? 'global'
+        });
+      }
+      res.json({ success: true, data: this.toResponse(rule), ...this.capabilityWarnings(rule) });
     } catch (error: any) {
       logger.error('[routing] updateRule error:', { message: error.message });
       res.status(500).json({ success: false, message: error.message });
     }
   };
 
-  /** DELETE /routing-rules/:id */
+  /** DELETE /routing-rules/:id — the rule's history is kept */
   deleteRule = async (req: Request, res: Response): Promise<void> => {
-    const rule = await this.ruleRepository.findOne({ where: { id: req.params.id } });
-    if (!rule) {
-      res.status(404).json({ success: false, message: 'Rule not found' });
-      return;
+    try {
+      const rule = await this.findEditableRule(req, res);
+      if (!rule) return;
+
+      await AppDataSource.transaction(async (manager) => {
+        await manager.save(this.versionRow(rule, rule.version + 1, RuleChange.DELETED, this.authorOf(req)));
+        await manager.remove(rule);
+      });
+      routingRuleCache.invalidate();
+      logger.info(`[routing] rule deleted: ${req.params.id}`);
+      res.json({ success: true, message: 'Rule deleted' });
+    } catch (error: any) {
+      logger.error('[routing] deleteRule error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** GET /routing-rules/:id/versions — the rule's change history, oldest first */
+  listVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const history = await this.findHistory(req, res);
+      if (!history) return;
+      res.json({ success: true, data: history.versions });
+    } catch (error: any) {
+      logger.error('[routing] listVersions error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
     }
-    await this.ruleRepository.remove(rule);
-    logger.info(`[routing] rule deleted: ${req.params.id}`);
-    res.json({ success: true, message: 'Rule deleted' });
   };
 
   /**
-   * POST /routing-rules/simulate — dry-run the routing engine against a
-   * sample payment request without creating a transaction.
+   * GET /routing-rules/:id/diff?from=&to= — what changed between two
+   * versions. `to` defaults to the latest version, `from` to the one before it.
    */
-  simulateRouting = async (req: Request, res: Response): Promise<void> => {
+  diffVersions = async (req: Request, res: Response): Promise<void> => {
     try {
-      const selectedPSP = await this.routingService.selectPSP(req.body);
+      const history = await this.findHistory(req, res);
+      if (!history) return;
+
+      const { versions } = history;
+      const latest = versions[versions.length - 1];
+      if (!latest) {
+        res.status(404).json({ success: false, message: 'This rule has no recorded versions' });
+        return;
+      }
+
+      const to = req.query.to !== undefined ? Number(req.query.to) : latest.version;
+      const from = req.query.from !== undefined ? Number(req.query.from) : to - 1;
+      const toVersion = versions.find(v => v.version === to);
+      const fromVersion = versions.find(v => v.version === from);
+      if (!toVersion || !fromVersion) {
+        res.status(404).json({
+          success: false,
+          message: `Unknown version — this rule has versions ${versions.map(v => v.version).join(', ')}`
+        });
+        return;
+      }
+
       res.json({
         success: true,
         data: {
-          selected_psp: selectedPSP,
-          input: req.body
+          rule_id: toVersion.rule_id,
+          from: { version: from, author: fromVersion.author, created_at: fromVersion.created_at },
+          to: { version: to, author: toVersion.author, created_at: toVersion.created_at },
+          changes: diffJson(fromVersion.snapshot, toVersion.snapshot)
         }
       });
     } catch (error: any) {
+      logger.error('[routing] diffVersions error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /**
+   * POST /routing-rules/:id/rollback — { "version": n }. Restores the rule
+   * as it was at version n, recorded as a new version.
+   */
+  rollbackRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rule = await this.findEditableRule(req, res);
+      if (!rule) return;
+
+      const version = Number(req.body?.version);
+      if (!Number.isInteger(version)) {
+        res.status(400).json({ success: false, message: 'version is required' });
+        return;
+      }
+
+      const target = await this.versionRepository.findOne({ where: { rule_id: rule.id, version } });
+      if (!target || target.change === RuleChange.DELETED) {
+        res.status(404).json({ success: false, message: `Version ${version} not found` });
+        return;
+      }
+
+      // The engine may have moved on since — an old version must still be valid
+      const { target_psp, split, ...rest } = target.snapshot;
+      const invalid = this.validateRule({ ...rest, ...(split ? { split } : { target_psp }) });
+      if (invalid) {
+        res.status(422).json({ success: false, message: `Version ${version} is no longer valid: ${invalid}` });
+        return;
+      }
+
+      if (diffJson(this.snapshotOf(rule), target.snapshot).length === 0) {
+        res.json({ success: true, message: `Rule already matches version ${version}`, data: this.toResponse(rule) });
+        return;
+      }
+
+      Object.assign(rule, target.snapshot);
+      await this.saveVersioned(rule, RuleChange.ROLLED_BACK, this.authorOf(req), version);
+
+      logger.info(`[routing] rule "${rule.name}" rolled back to version ${version} → version ${rule.version}`, {
+        merchant_id: rule.merchant_id ?? 'global'
+      });
+      res.json({ success: true, data: this.toResponse(rule) });
+    } catch (error: any) {
+      logger.error('[routing] rollbackRule error:', { message: error.message });
       res.status(500).json({ success: false, message: error.message });
     }
   };
+
+  /**
+   * POST /routing-rules/simulate — dry-run the routing engine without
+   * creating a transaction. Returns the decision and a trace of every rule
+   * and condition.
+   *
+   * Body: a sample payment request, or { requests: [...] } for a batch.
+   * Either may carry draft_rules — unsaved rules evaluated in place of the
+   * merchant's own (global rules still follow) to test changes first.
+   */
+  simulateRouting = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { requests, draft_rules, ...single } = req.body ?? {};
+
+      if (requests !== undefined && (!Array.isArray(requests) || requests.length === 0)) {
+        res.status(400).json({ success: false, message: 'requests must be a non-empty array' });
+        return;
+      }
+      if (Array.isArray(requests) && requests.length > MAX_SIMULATION_BATCH) {
+        res.status(400).json({ success: false, message: `At most ${MAX_SIMULATION_BATCH} requests per simulation` });
+        return;
+      }
+
+      let draftRules: RoutingRule[] | undefined;
+      if (draft_rules !== undefined) {
+        const drafts = this.buildDraftRules(draft_rules, req);
+        if (typeof drafts === 'string') {
+          res.status(400).json({ success: false, message: drafts });
+          return;
+        }
+        draftRules = drafts;
+      }
+
+      const simulate = async (input: PaymentRequest) => {
+        const route = await routingService.route(input, req.merchant?.id, { draftRules, trace: true });
+        return {
+          selected_psp: route.psp,
+          candidates: route.candidates,
+          mode: route.mode,
+          decision: route.decision,
+          trace: route.trace,
+          input
+        };
+      };
+
+      if (!requests) {
+        res.json({ success: true, data: await simulate(single) });
+        return;
+      }
+
+      const results = [];
+      const selected: Record<string, number> = {};
+      for (const input of requests) {
+        try {
+          const result = await simulate(input);
+          selected[result.selected_psp] = (selected[result.selected_psp] ?? 0) + 1;
+          results.push(result);
+        } catch (error: any) {
+          results.push({ input, error: error.message });
+        }
+      }
+      res.json({ success: true, data: { results, selected_psp_counts: selected } });
+    } catch (error: any) {
+      res.status(error instanceof RoutingError ? 422 : 500).json({ success: false, message: error.message });
+    }
+  };
+
+  /**
+   * GET /routing/capabilities — what each PSP available to the merchant can
+   * process (GET /admin/routing/capabilities: every supported PSP). Routing
+   * leaves out PSPs that can't process a payment before applying rules.
+   */
+  getCapabilities = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const providers = req.merchant
+        ? await pspAccountService.getAvailableProviders(req.merchant.id)
+        : connectorRegistry.getSupportedProviders();
+
+      res.json({
+        success: true,
+        data: providers.map(psp => ({ psp, ...connectorRegistry.getCapabilities(psp) }))
+      });
+    } catch (error: any) {
+      logger.error('[routing] getCapabilities error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  /** GET /routing/settings — the merchant's routing mode */
+  getSettings = async (req: Request, res: Response): Promise<void> => {
+    const configured = req.merchant!.settings?.routing_mode ?? null;
+    res.json({
+      success: true,
+      data: {
+        mode: configured ?? loadRoutingConfig().default_mode,
+        uses_platform_default: configured === null
+      }
+    });
+  };
+
+  /**
+   * PUT /routing/settings — { "mode": "rules" | "auto" | "cost" | null }.
+   * null goes back to the platform default (ROUTING_MODE).
+   */
+  updateSettings = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { mode } = req.body;
+      if (mode !== null && !ROUTING_MODES.includes(mode)) {
+        res.status(400).json({ success: false, message: 'mode must be "rules", "auto", "cost" or null' });
+        return;
+      }
+
+      const merchant = req.merchant!;
+      merchant.settings = { ...(merchant.settings ?? {}), routing_mode: mode };
+      if (mode === null) delete merchant.settings.routing_mode;
+      await AppDataSource.getRepository(Merchant).save(merchant);
+      routingRuleCache.invalidate();
+
+      logger.info(`[routing] mode set to ${mode ?? 'platform default'}`, { merchant_id: merchant.id });
+      await this.getSettings(req, res);
+    } catch (error: any) {
+      logger.error('[routing] updateSettings error:', { message: error.message });
+      res.status(500).json({ success: false, message: error.message });
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Strict check of a rule body (create, update or draft — absent fields
+   * are skipped): no unknown keys, field types, target and conditions.
+   * Returns an error message, or null when valid.
+   */
+  private validateRule(body: any, extraKeys: string[] = []): string | null {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Rule must be a JSON object';
+
+    const allowed = [...RULE_KEYS, ...extraKeys];
+    const unknown = Object.keys(body).filter(k => !allowed.includes(k));
+    if (unknown.length > 0) {
+      return `Unknown rule field(s): ${unknown.join(', ')}. Allowed: ${allowed.join(', ')}`;
+    }
+
+    const { name, priority, enabled, conditions } = body;
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 255)) {
+      return 'name must be a non-empty string of at most 255 characters';
+    }
+    if (priority !== undefined && !(Number.isInteger(priority) && Math.abs(priority) <= 1_000_000)) {
+      return 'priority must be a whole number';
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') return 'enabled must be a boolean';
+
+    return this.validateTarget(body.target_psp, body.split)
+      ?? (conditions !== undefined ? validateConditions(conditions) : null);
+  }
+
+  /**
+   * Check target_psp / split from a request body (either may be absent).
+   * Returns an error message, or null when valid.
+   */
+  private validateTarget(targetPsp: unknown, split: unknown): string | null {
+    const valid = connectorRegistry.getSupportedProviders().join(', ');
+
+    if (targetPsp !== undefined && split !== undefined) {
+      return 'Give either target_psp or split, not both';
+    }
+    if (targetPsp !== undefined && !connectorRegistry.isSupported(String(targetPsp))) {
+      return `Invalid target_psp. Valid values: ${valid}`;
+    }
+    if (split === undefined) return null;
+
+    if (!Array.isArray(split) || split.length < 2) {
+      return 'split must list at least two { psp, weight } entries';
+    }
+    const seen = new Set<string>();
+    let total = 0;
+    for (const leg of split) {
+      if (!leg || !connectorRegistry.isSupported(String(leg.psp))) {
+        return `Invalid split psp. Valid values: ${valid}`;
+      }
+      if (seen.has(leg.psp)) return `${leg.psp} appears more than once in split`;
+      if (!Number.isInteger(leg.weight) || leg.weight <= 0) {
+        return 'split weights must be positive whole percentages';
+      }
+      seen.add(leg.psp);
+      total += leg.weight;
+    }
+    if (total !== 100) return `split weights must add up to 100 (got ${total})`;
+    return null;
+  }
+
+  /**
+   * Turn a simulation's draft_rules into unsaved RoutingRule entities, or
+   * return an error message. Drafts are validated like saved rules; a draft
+   * may reuse a saved rule's id to keep that rule's split bucketing.
+   */
+  private buildDraftRules(drafts: unknown, req: Request): RoutingRule[] | string {
+    if (!Array.isArray(drafts)) return 'draft_rules must be an array';
+
+    const rules: RoutingRule[] = [];
+    for (let i = 0; i < drafts.length; i++) {
+      const { id, name, priority = 0, conditions = [], target_psp, split, enabled = true } = drafts[i] ?? {};
+      if (!target_psp && !split) return `draft_rules[${i}]: target_psp or split is required`;
+
+      const error = this.validateRule(drafts[i], ['id']);
+      if (error) return `draft_rules[${i}]: ${error}`;
+
+      rules.push(this.ruleRepository.create({
+        id: typeof id === 'string' ? id : `draft-${i + 1}`,
+        name: name ?? `Draft rule ${i + 1}`,
+        priority: Number(priority),
+        conditions,
+        target_psp: split ? null : target_psp,
+        split: split ?? null,
+        enabled: enabled !== false,
+        merchant_id: this.ownerOf(req),
+        version: 0
+      }));
+    }
+    return rules;
+  }
+
+  /** Save a rule and record the resulting version, atomically */
+  private async saveVersioned(
+    rule: RoutingRule,
+    change: RuleChange,
+    author: string,
+    restoredVersion: number | null = null
+  ): Promise<void> {
+    await AppDataSource.transaction(async (manager) => {
+      await manager.save(rule);
+      await manager.save(this.versionRow(rule, rule.version, change, author, restoredVersion));
+    });
+    routingRuleCache.invalidate();
+  }
+
+  private versionRow(
+    rule: RoutingRule,
+    version: number,
+    change: RuleChange,
+    author: string,
+    restoredVersion: number | null = null
+  ): RoutingRuleVersion {
+    return this.versionRepository.create({
+      rule_id: rule.id,
+      version,
+      merchant_id: rule.merchant_id,
+      change,
+      snapshot: this.snapshotOf(rule),
+      author,
+      restored_version: restoredVersion
+    });
+  }
+
+  private snapshotOf(rule: RoutingRule): RuleSnapshot {
+    return {
+      name: rule.name,
+      priority: rule.priority,
+      conditions: rule.conditions,
+      target_psp: rule.target_psp,
+      split: rule.split,
+      enabled: rule.enabled
+    };
+  }
+
+  /**
+   * Load a rule's version history the caller may read — the merchant's own
+   * rules and global ones, including deleted rules — or send a 404 and
+   * return null.
+   */
+  private async findHistory(req: Request, res: Response): Promise<{ versions: RoutingRuleVersion[] } | null> {
+    const ruleId = req.params.id;
+    const [rule, versions] = await Promise.all([
+      this.ruleRepository.findOne({ where: { id: ruleId } }),
+      this.versionRepository.find({ where: { rule_id: ruleId }, order: { version: 'ASC' } })
+    ]);
+
+    const owner = rule ? rule.merchant_id : versions[0]?.merchant_id;
+    const exists = rule !== null || versions.length > 0;
+    const visible = owner === null || owner === this.ownerOf(req);
+    if (!exists || !visible) {
+      res.status(404).json({ success: false, message: 'Rule not found' });
+      return null;
+    }
+    return { versions };
+  }
+
+  /**
+   * Who made a change — the authenticated merchant's id, or "admin" on the
+   * admin routes. Never taken from the request body, so the history can't
+   * be attributed to someone else.
+   */
+  private authorOf(req: Request): string {
+    return req.merchant?.id ?? 'admin';
+  }
+
+  /** Merchant id for merchant routes, null (global) for admin routes */
+  private ownerOf(req: Request): string | null {
+    return req.merchant?.id ?? null;
+  }
+
+  /**
+   * Load a rule the caller may change, or send the error response and
+   * return null. Other merchants' rules are reported as not found; global
+   * rules are visible to merchants but read-only.
+   */
+  private async findEditableRule(req: Request, res: Response): Promise<RoutingRule | null> {
+    const rule = await this.ruleRepository.findOne({ where: { id: req.params.id } });
+    const owner = this.ownerOf(req);
+
+    if (!rule || (rule.merchant_id !== null && rule.merchant_id !== owner)) {
+      res.status(404).json({ success: false, message: 'Rule not found' });
+      return null;
+    }
+    if (rule.merchant_id !== owner) {
+      res.status(403).json({
+        success: false,
+        message: 'Global routing rules are managed by the platform and cannot be changed'
+      });
+      return null;
+    }
+    return rule;
+  }
+
+  /** `{ warnings }` when the rule targets PSPs that can't process what it matches */
+  private capabilityWarnings(rule: RoutingRule): { warnings?: string[] } {
+    const targets = rule.split ? rule.split.map(l => l.psp) : rule.target_psp ? [rule.target_psp] : [];
+    const warnings = ruleCapabilityWarnings(rule.conditions, targets);
+    if (warnings.length === 0) return {};
+
+    logger.warn(`[routing] rule "${rule.name}" targets incapable PSPs: ${warnings.join('; ')}`, {
+      merchant_id: rule.merchant_id ?? 'global'
+    });
+    return { warnings };
+  }
+
+  private toResponse(rule: RoutingRule) {
+    return { ...rule, scope: rule.merchant_id ? 'merchant' : 'global' };
+  }
 }
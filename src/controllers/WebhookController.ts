@@ -1,13 +1,40 @@
-import crypto from 'crypto';
 import { Request, Response } from 'express';
 import { AppDataSource } from '../config/database';
 import { Transaction } from '../models/Transaction';
 import { Merchant } from '../models/Merchant';
-import { MoyasarConnector } from '../connectors/MoyasarConnector';
-import { PayTabsConnector } from '../connectors/PayTabsConnector';
-import { PaymentStatus } from '../types/payment.types';
+import { IsNull } from 'typeorm';
+import { HyperPayConnector } from '../connectors/HyperPayConnector';
+import { TapConnector } from '../connectors/TapConnector';
+import { PSPConnector } from '../connectors/PSPConnector';
+import { PaymentStatus, PSPProvider } from '../types/payment.types';
 import { logger } from '../utils/logger';
+import { toMinorUnits } from '../utils/currency';
 import { webhookQueue } from '../services/WebhookQueue';
+import { pspAccountService, ResolvedConnector } from '../services/PSPAccountService';
+import { successRateTracker } from '../services/SuccessRateTracker';
+import { pspQuotaService } from '../services/PSPQuotaService';
+import { refundLedger, RefundReport } from '../services/RefundLedger';
+
+/** Tap refund statuses that mean the refund won't happen */
+const TAP_FAILED_REFUND_STATUSES = ['FAILED', 'DECLINED', 'CANCELLED'];
+
+/**
+ * Statuses a webhook may move a payment to, by its current status. A late
+ * success still beats a failure we concluded ourselves (e.g. on a timeout);
+ * refunds only change through the refund ledger.
+ */
+const WEBHOOK_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  [PaymentStatus.PENDING]: [
+    PaymentStatus.PROCESSING, PaymentStatus.AUTHORIZED, PaymentStatus.PAID, PaymentStatus.FAILED, PaymentStatus.VOIDED
+  ],
+  [PaymentStatus.PROCESSING]: [PaymentStatus.AUTHORIZED, PaymentStatus.PAID, PaymentStatus.FAILED, PaymentStatus.VOIDED],
+  [PaymentStatus.AUTHORIZED]: [PaymentStatus.PAID, PaymentStatus.VOIDED],
+  [PaymentStatus.FAILED]: [PaymentStatus.AUTHORIZED, PaymentStatus.PAID],
+  [PaymentStatus.PAID]: [],
+  [PaymentStatus.PARTIALLY_REFUNDED]: [],
+  [PaymentStatus.REFUNDED]: [],
+  [PaymentStatus.VOIDED]: []
+};
 
 export class WebhookController {
   private transactionRepository = AppDataSource.getRepository(Transaction);
@@ -19,34 +46,8 @@ export class WebhookController {
    */
   handleMoyasarWebhook = async (req: Request, res: Response): Promise<void> => {
     try {
-      const signature = req.headers['x-moyasar-signature'] as string;
-      const payload = JSON.stringify(req.body);
-
-      // Webhook signature verification is mandatory — reject if not configured or missing
-      const webhookSecret = process.env.MOYASAR_WEBHOOK_SECRET;
-      if (!webhookSecret) {
-        logger.error('MOYASAR_WEBHOOK_SECRET is not configured — rejecting webhook');
-        res.status(500).json({ error: 'Webhook verification not configured' });
-        return;
-      }
-
-      if (!signature) {
-        logger.warn('Moyasar webhook received without signature');
-        res.status(401).json({ error: 'Missing webhook signature' });
-        return;
-      }
-
-      const isValid = MoyasarConnector.verifyWebhookSignature(
-        payload,
-        signature,
-        webhookSecret
-      );
-
-      if (!isValid) {
-        logger.warn('Invalid Moyasar webhook signature');
-        res.status(401).json({ error: 'Invalid signature' });
-        return;
-      }
+      const source = await this.verifyWebhook(PSPProvider.MOYASAR, req, res);
+      if (!source) return;
 
       // Process webhook event
       const event = req.body;
@@ -54,13 +55,20 @@ export class WebhookController {
 
       switch (event.type) {
         case 'payment_paid':
-          await this.handlePaymentPaid(event.data);
+        case 'payment_captured':
+          await this.handlePaymentPaid(source, event.data);
+          break;
+        case 'payment_authorized':
+          await this.handlePaymentAuthorized(source, event.data);
+          break;
+        case 'payment_voided':
+          await this.handlePaymentVoided(source, event.data);
           break;
         case 'payment_failed':
-          await this.handlePaymentFailed(event.data);
+          await this.handlePaymentFailed(source, event.data);
           break;
         case 'payment_refunded':
-          await this.handlePaymentRefunded(event.data);
+          await this.handlePaymentRefunded(source, event.data);
           break;
         default:
           logger.info(`Unhandled webhook event type: ${event.type}`);
@@ -73,47 +81,63 @@ export class WebhookController {
     }
   };
 
-  private async handlePaymentPaid(paymentData: any): Promise<void> {
-    const transaction = await this.transactionRepository.findOne({
-      where: { psp_transaction_id: paymentData.id }
-    });
+  private async handlePaymentPaid(source: ResolvedConnector, paymentData: any): Promise<void> {
+    const transaction = await this.findTransaction(source, [paymentData.id]);
 
-    if (transaction) {
-      transaction.status = PaymentStatus.PAID;
+    if (transaction && this.advance(transaction, PaymentStatus.PAID, 'Moyasar')) {
+      // `captured` is the captured amount in minor units — less than the
+      // authorization after a partial capture
+      transaction.captured_amount = paymentData.captured ? Number(paymentData.captured) : transaction.amount;
+      // Moyasar reports its fee in minor units, like our own columns
+      if (paymentData.fee != null) transaction.fee = Number(paymentData.fee);
       await this.transactionRepository.save(transaction);
       logger.info(`Transaction ${transaction.id} marked as PAID`);
       await this.notifyMerchant(transaction, 'payment.paid', paymentData);
     }
   }
 
-  private async handlePaymentFailed(paymentData: any): Promise<void> {
-    const transaction = await this.transactionRepository.findOne({
-      where: { psp_transaction_id: paymentData.id }
-    });
+  /** An authorize-only payment finished 3DS — it can now be captured or voided */
+  private async handlePaymentAuthorized(source: ResolvedConnector, paymentData: any): Promise<void> {
+    const transaction = await this.findTransaction(source, [paymentData.id]);
 
-    if (transaction) {
-      transaction.status = PaymentStatus.FAILED;
+    if (transaction && this.advance(transaction, PaymentStatus.AUTHORIZED, 'Moyasar')) {
+      await this.transactionRepository.save(transaction);
+      logger.info(`Transaction ${transaction.id} marked as AUTHORIZED`);
+      await this.notifyMerchant(transaction, 'payment.authorized', paymentData);
+    }
+  }
+
+  private async handlePaymentVoided(source: ResolvedConnector, paymentData: any): Promise<void> {
+    const transaction = await this.findTransaction(source, [paymentData.id]);
+
+    if (transaction && this.advance(transaction, PaymentStatus.VOIDED, 'Moyasar')) {
+      await this.transactionRepository.save(transaction);
+      logger.info(`Transaction ${transaction.id} marked as VOIDED`);
+    }
+  }
+
+  private async handlePaymentFailed(source: ResolvedConnector, paymentData: any): Promise<void> {
+    const transaction = await this.findTransaction(source, [paymentData.id]);
+
+    if (transaction && this.advance(transaction, PaymentStatus.FAILED, 'Moyasar')) {
       transaction.error_message = paymentData.message || 'Payment failed';
+      this.recordDecline(transaction, source.connector, paymentData.source?.response_code, paymentData.source?.message);
       await this.transactionRepository.save(transaction);
       logger.info(`Transaction ${transaction.id} marked as FAILED`);
       await this.notifyMerchant(transaction, 'payment.failed', paymentData);
     }
   }
 
-  private async handlePaymentRefunded(paymentData: any): Promise<void> {
-    const transaction = await this.transactionRepository.findOne({
-      where: { psp_transaction_id: paymentData.id }
-    });
+  private async handlePaymentRefunded(source: ResolvedConnector, paymentData: any): Promise<void> {
+    const transaction = await this.findTransaction(source, [paymentData.id]);
 
     if (transaction) {
-      const refundAmount = paymentData.refunded_amount / 100;
-      transaction.status =
-        refundAmount >= transaction.amount
-          ? PaymentStatus.REFUNDED
-          : PaymentStatus.PARTIALLY_REFUNDED;
-      await this.transactionRepository.save(transaction);
-      logger.info(`Transaction ${transaction.id} marked as REFUNDED`);
-      await this.notifyMerchant(transaction, 'payment.refunded', paymentData);
+      // Moyasar only reports the running refunded total, in minor units like
+      // our own columns
+      await this.applyRefund(transaction, {
+        refunded_total: Number(paymentData.refunded_amount),
+        succeeded: true
+      }, paymentData, 'Moyasar');
     }
   }
 
@@ -124,8 +148,10 @@ export class WebhookController {
    * (or abandons) the hosted payment page. PayTabs POSTs JSON here.
    *
    * Verification steps:
-   *  1. Hash check  — payment_result.hash must match our computed SHA-256
-   *  2. profile_id  — must match PAYTABS_PROFILE_ID (belt-and-suspenders)
+   *  1. signature   — the header must be the HMAC-SHA256 of the raw body,
+   *                   keyed by the account's server key
+   *  2. profile_id  — must match the merchant's PayTabs account, or
+   *                   PAYTABS_PROFILE_ID for the platform account
    *
    * Status codes:
    *  A = Authorised / Paid
@@ -140,20 +166,9 @@ export class WebhookController {
       const data = req.body;
 
       // ── Verification ──────────────────────────────────────────────────────
-      // PayTabs server-to-server callbacks do NOT include a signature.
-      // We verify by checking that the profile_id matches our account.
-      // For high-value transactions consider also re-querying PayTabs via
-      // GET /payment/query to confirm status before writing to DB.
-      const expectedProfileId = parseInt(process.env.PAYTABS_PROFILE_ID || '0');
-      const receivedProfileId = Number(data.merchant_info?.profile_id);
-      if (expectedProfileId && receivedProfileId !== expectedProfileId) {
-        logger.warn('PayTabs webhook: profile_id mismatch', {
-          received: receivedProfileId,
-          expected: expectedProfileId
-        });
-        res.status(401).json({ error: 'Invalid profile_id' });
-        return;
-      }
+      // The connector checks the signature header and the profile_id
+      const source = await this.verifyWebhook(PSPProvider.PAYTABS, req, res);
+      if (!source) return;
 
       const tranRef: string = data.tran_ref;
       const responseStatus: string = data.payment_result?.response_status;
@@ -166,9 +181,7 @@ export class WebhookController {
       });
 
       // ── 3. Look up transaction ────────────────────────────────────────────
-      const transaction = await this.transactionRepository.findOne({
-        where: { psp_transaction_id: tranRef }
-      });
+      const transaction = await this.findTransaction(source, [tranRef]);
 
       if (!transaction) {
         // Acknowledge so PayTabs stops retrying — may be a race condition
@@ -185,16 +198,21 @@ export class WebhookController {
 
       switch (responseStatus) {
         case 'A':
-          transaction.status = PaymentStatus.PAID;
-          if (cardScheme) transaction.card_brand = cardScheme;
-          if (lastFour) transaction.card_last_four = lastFour;
-          await this.transactionRepository.save(transaction);
-          logger.info(`Transaction ${transaction.id} → PAID via PayTabs`);
-          await this.notifyMerchant(transaction, 'payment.paid', data);
-          break;
+          // An approved 'auth' is a hold awaiting capture, not a sale
+          if (String(data.tran_type).toLowerCase() !== 'auth') {
+            if (!this.advance(transaction, PaymentStatus.PAID, 'PayTabs')) break;
+            transaction.captured_amount ??= transaction.amount;
+            if (cardScheme) transaction.card_brand = cardScheme;
+            if (lastFour) transaction.card_last_four = lastFour;
+            await this.transactionRepository.save(transaction);
+            logger.info(`Transaction ${transaction.id} → PAID via PayTabs`);
+            await this.notifyMerchant(transaction, 'payment.paid', data);
+            break;
+          }
+        // falls through
 
         case 'H':
-          transaction.status = PaymentStatus.AUTHORIZED;
+          if (!this.advance(transaction, PaymentStatus.AUTHORIZED, 'PayTabs')) break;
           if (cardScheme) transaction.card_brand = cardScheme;
           if (lastFour) transaction.card_last_four = lastFour;
           await this.transactionRepository.save(transaction);
@@ -204,15 +222,16 @@ export class WebhookController {
 
         case 'D':
         case 'E':
-          transaction.status = PaymentStatus.FAILED;
+          if (!this.advance(transaction, PaymentStatus.FAILED, 'PayTabs')) break;
           transaction.error_message = responseMessage || 'Payment failed';
+          this.recordDecline(transaction, source.connector, data.payment_result?.response_code, responseMessage);
           await this.transactionRepository.save(transaction);
           logger.info(`Transaction ${transaction.id} → FAILED via PayTabs (${responseStatus})`);
           await this.notifyMerchant(transaction, 'payment.failed', data);
           break;
 
         case 'V':
-          transaction.status = PaymentStatus.VOIDED;
+          if (!this.advance(transaction, PaymentStatus.VOIDED, 'PayTabs')) break;
           await this.transactionRepository.save(transaction);
           logger.info(`Transaction ${transaction.id} → VOIDED via PayTabs`);
           break;
@@ -233,6 +252,454 @@ export class WebhookController {
     }
   };
 
+  /**
+   * POST /api/v1/webhooks/hyperpay
+   *
+   * HyperPay notifications are AES-256-GCM encrypted: the body is hex
+   * ciphertext and the IV / auth tag arrive in headers. Successful decryption
+   * is the verification. Decrypted shape:
+   *   { type: 'PAYMENT', payload: { id, ndc, paymentType, result: { code }, ... } }
+   *
+   * `ndc` is the COPYandPAY checkout id — that is what we stored as
+   * psp_transaction_id for hosted checkouts; token payments match on `id`.
+   */
+  handleHyperPayWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const source = await this.verifyWebhook(PSPProvider.HYPERPAY, req, res);
+      if (!source) return;
+
+      const connector = source.connector as HyperPayConnector;
+      const notification = connector.decryptWebhook({
+        headers: req.headers,
+        body: req.body,
+        rawBody: req.rawBody ?? req.body
+      });
+
+      if (notification.type !== 'PAYMENT') {
+        logger.info(`HyperPay webhook: ignoring ${notification.type} notification`);
+        res.status(200).json({ received: true });
+        return;
+      }
+
+      const payment = notification.payload || {};
+      const resultCode: string = payment.result?.code;
+      const resultDescription: string = payment.result?.description || '';
+
+      logger.info('HyperPay webhook decrypted', {
+        id: payment.id,
+        checkout_id: payment.ndc,
+        payment_type: payment.paymentType,
+        result_code: resultCode
+      });
+
+      // Refund notifications reference the original payment
+      const transaction = await this.findTransaction(source, [payment.id, payment.ndc, payment.referencedId]);
+
+      if (!transaction) {
+        // Acknowledge so HyperPay stops retrying — may be a race condition
+        logger.warn(`HyperPay webhook: no transaction found for id=${payment.id} ndc=${payment.ndc}`);
+        res.status(200).json({ received: true });
+        return;
+      }
+
+      const lastFour: string | undefined = payment.card?.last4Digits;
+      const status = connector.mapStatus(resultCode, payment.paymentType);
+
+      if (payment.paymentType === 'RF') {
+        if (status !== PaymentStatus.PENDING) {
+          await this.applyRefund(transaction, {
+            psp_refund_id: payment.id,
+            amount: toMinorUnits(parseFloat(payment.amount), transaction.currency),
+            succeeded: status === PaymentStatus.REFUNDED
+          }, payment, 'HyperPay');
+        }
+        res.status(200).json({ received: true });
+        return;
+      }
+
+      switch (status) {
+        case PaymentStatus.PAID:
+        case PaymentStatus.AUTHORIZED:
+          if (!this.advance(transaction, status, 'HyperPay')) break;
+          if (status === PaymentStatus.PAID) transaction.captured_amount ??= transaction.amount;
+          if (payment.paymentBrand) transaction.card_brand = payment.paymentBrand;
+          if (lastFour) transaction.card_last_four = lastFour;
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → ${status.toUpperCase()} via HyperPay`);
+          await this.notifyMerchant(transaction, `payment.${status}`, payment);
+          break;
+
+        case PaymentStatus.VOIDED:
+          if (!this.advance(transaction, PaymentStatus.VOIDED, 'HyperPay')) break;
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → VOIDED via HyperPay`);
+          break;
+
+        case PaymentStatus.FAILED:
+          if (!this.advance(transaction, PaymentStatus.FAILED, 'HyperPay')) break;
+          transaction.error_message = resultDescription || 'Payment failed';
+          this.recordDecline(transaction, connector, resultCode, resultDescription);
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → FAILED via HyperPay (${resultCode})`);
+          await this.notifyMerchant(transaction, 'payment.failed', payment);
+          break;
+
+        default:
+          // Pending — shopper hasn't completed payment yet; no DB change needed
+          logger.info(`HyperPay webhook: id=${payment.id} still pending (${resultCode})`);
+      }
+
+      res.status(200).json({ received: true });
+    } catch (error: any) {
+      logger.error('Error handling HyperPay webhook:', error);
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  };
+
+  /**
+   * POST /api/v1/webhooks/tap
+   *
+   * Tap POSTs the full charge (chg_…) or refund (re_…) object to the `post.url`
+   * we set when creating it. Authenticated by the `hashstring` header.
+   */
+  handleTapWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const source = await this.verifyWebhook(PSPProvider.TAP, req, res);
+      if (!source) return;
+
+      const connector = source.connector as TapConnector;
+      const data = req.body;
+      const isRefund = String(data.id ?? '').startsWith('re_');
+      const chargeId: string = isRefund ? data.charge_id : data.id;
+
+      logger.info('Tap webhook verified', {
+        id: data.id,
+        charge_id: chargeId,
+        status: data.status
+      });
+
+      const transaction = await this.findTransaction(source, [chargeId]);
+
+      if (!transaction) {
+        // Acknowledge so Tap stops retrying — may be a race condition
+        logger.warn(`Tap webhook: no transaction found for charge=${chargeId}`);
+        res.status(200).json({ received: true });
+        return;
+      }
+
+      if (isRefund) {
+        const refundStatus = String(data.status).toUpperCase();
+        if (refundStatus === 'REFUNDED' || TAP_FAILED_REFUND_STATUSES.includes(refundStatus)) {
+          await this.applyRefund(transaction, {
+            psp_refund_id: data.id,
+            amount: toMinorUnits(Number(data.amount), transaction.currency),
+            succeeded: refundStatus === 'REFUNDED'
+          }, data, 'Tap');
+        }
+        res.status(200).json({ received: true });
+        return;
+      }
+
+      const status = connector.mapStatus(data.status);
+
+      switch (status) {
+        case PaymentStatus.PAID:
+        case PaymentStatus.AUTHORIZED:
+          if (!this.advance(transaction, status, 'Tap')) break;
+          if (status === PaymentStatus.PAID) transaction.captured_amount ??= transaction.amount;
+          if (data.card?.brand) transaction.card_brand = data.card.brand;
+          if (data.card?.last_four) transaction.card_last_four = data.card.last_four;
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → ${status.toUpperCase()} via Tap`);
+          await this.notifyMerchant(transaction, `payment.${status}`, data);
+          break;
+
+        case PaymentStatus.FAILED:
+          if (!this.advance(transaction, PaymentStatus.FAILED, 'Tap')) break;
+          transaction.error_message = data.response?.message || 'Payment failed';
+          this.recordDecline(transaction, connector, data.response?.code, data.response?.message);
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → FAILED via Tap (${data.status})`);
+          await this.notifyMerchant(transaction, 'payment.failed', data);
+          break;
+
+        case PaymentStatus.VOIDED:
+          if (!this.advance(transaction, PaymentStatus.VOIDED, 'Tap')) break;
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → VOIDED via Tap`);
+          break;
+
+        default:
+          // INITIATED / IN_PROGRESS — customer hasn't completed payment yet
+          logger.info(`Tap webhook: charge=${chargeId} still ${data.status}`);
+      }
+
+      res.status(200).json({ received: true });
+    } catch (error: any) {
+      logger.error('Error handling Tap webhook:', error);
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  };
+
+  /**
+   * POST /api/v1/webhooks/checkout
+   *
+   * Checkout.com event notifications, authenticated by Cko-Signature.
+   * Shape: { id, type: 'payment_captured' | ..., data: { id: 'pay_…', amount, ... } }
+   * Amounts in data are minor units.
+   */
+  handleCheckoutWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const source = await this.verifyWebhook(PSPProvider.CHECKOUT, req, res);
+      if (!source) return;
+
+      const event = req.body;
+      const paymentId: string = event.data?.id;
+      logger.info(`Checkout.com webhook received: ${event.type}`, { payment_id: paymentId });
+
+      const transaction = await this.findTransaction(source, [paymentId]);
+
+      if (!transaction) {
+        // Acknowledge so Checkout.com stops retrying — may be a race condition
+        logger.warn(`Checkout.com webhook: no transaction found for payment=${paymentId}`);
+        res.status(200).json({ received: true });
+        return;
+      }
+
+      switch (event.type) {
+        case 'payment_approved':
+          // Captured payments send payment_captured next
+          if (!this.advance(transaction, PaymentStatus.AUTHORIZED, 'Checkout.com')) break;
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → AUTHORIZED via Checkout.com`);
+          await this.notifyMerchant(transaction, 'payment.authorized', event.data);
+          break;
+
+        case 'payment_captured':
+          if (!this.advance(transaction, PaymentStatus.PAID, 'Checkout.com')) break;
+          // Checkout.com amounts are already in minor units
+          transaction.captured_amount = event.data.amount;
+          if (event.data.source?.scheme) transaction.card_brand = event.data.source.scheme;
+          if (event.data.source?.last4) transaction.card_last_four = event.data.source.last4;
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → PAID via Checkout.com`);
+          await this.notifyMerchant(transaction, 'payment.paid', event.data);
+          break;
+
+        case 'payment_declined':
+        case 'payment_expired':
+        case 'payment_authentication_failed':
+          if (!this.advance(transaction, PaymentStatus.FAILED, 'Checkout.com')) break;
+          transaction.error_message = event.data.response_summary || 'Payment failed';
+          this.recordDecline(
+            transaction,
+            source.connector,
+            event.data.response_code,
+            event.data.response_summary ||
+              (event.type === 'payment_authentication_failed' ? '3DS authentication failed' : undefined)
+          );
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → FAILED via Checkout.com (${event.type})`);
+          await this.notifyMerchant(transaction, 'payment.failed', event.data);
+          break;
+
+        case 'payment_voided':
+        case 'payment_canceled':
+          if (!this.advance(transaction, PaymentStatus.VOIDED, 'Checkout.com')) break;
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → VOIDED via Checkout.com`);
+          break;
+
+        case 'payment_refunded':
+        case 'payment_refund_declined':
+          // Amounts are minor units; action_id is the refund's id
+          await this.applyRefund(transaction, {
+            psp_refund_id: event.data.action_id,
+            amount: Number(event.data.amount),
+            succeeded: event.type === 'payment_refunded'
+          }, event.data, 'Checkout.com');
+          break;
+
+        default:
+          logger.info(`Unhandled Checkout.com webhook event type: ${event.type}`);
+      }
+
+      res.status(200).json({ received: true });
+    } catch (error: any) {
+      logger.error('Error handling Checkout.com webhook:', error);
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  };
+
+  /**
+   * POST /api/v1/webhooks/mock
+   *
+   * Webhooks from the built-in mock PSP (non-production only), signed with
+   * x-mock-signature. Shape: { type: 'payment.paid' | ..., data: PaymentResponse }
+   */
+  handleMockWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const source = await this.verifyWebhook(PSPProvider.MOCK, req, res);
+      if (!source) return;
+
+      const event = req.body;
+      const payment = event.data || {};
+      logger.info(`Mock PSP webhook received: ${event.type}`, { payment_id: payment.id });
+
+      const transaction = await this.findTransaction(source, [payment.id]);
+      if (!transaction) {
+        logger.warn(`Mock PSP webhook: no transaction found for payment=${payment.id}`);
+        res.status(200).json({ received: true });
+        return;
+      }
+
+      switch (event.type) {
+        case 'payment.paid':
+        case 'payment.authorized':
+          if (!this.advance(transaction, payment.status, 'mock PSP')) break;
+          if (payment.status === PaymentStatus.PAID) transaction.captured_amount ??= transaction.amount;
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → ${transaction.status.toUpperCase()} via mock PSP`);
+          await this.notifyMerchant(transaction, event.type, payment);
+          break;
+
+        case 'payment.failed':
+          if (!this.advance(transaction, PaymentStatus.FAILED, 'mock PSP')) break;
+          transaction.error_message = event.message || 'Payment failed';
+          this.recordDecline(transaction, source.connector, payment.response_code, event.message);
+          await this.transactionRepository.save(transaction);
+          logger.info(`Transaction ${transaction.id} → FAILED via mock PSP`);
+          await this.notifyMerchant(transaction, 'payment.failed', payment);
+          break;
+
+        case 'payment.refunded': {
+          // The mock only refunds through our API, so the ledger already has
+          // the refund — the status is re-derived from it
+          const updated = await refundLedger.reconcile(transaction.id);
+          logger.info(`Transaction ${updated.id} → ${updated.status.toUpperCase()} via mock PSP`);
+          await this.notifyMerchant(updated, 'payment.refunded', payment);
+          break;
+        }
+
+        default:
+          logger.info(`Unhandled mock PSP webhook event type: ${event.type}`);
+      }
+
+      res.status(200).json({ received: true });
+    } catch (error: any) {
+      logger.error('Error handling mock PSP webhook:', error);
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  };
+
+  /**
+   * Apply a refund the PSP reported to the refund ledger. The refunded total
+   * and status are re-derived from the ledger — never from the event's
+   * amount — and the merchant is told about succeeded refunds.
+   */
+  private async applyRefund(
+    transaction: Transaction,
+    report: RefundReport,
+    pspData: any,
+    via: string
+  ): Promise<void> {
+    const updated = await refundLedger.applyReport(transaction.id, report);
+    logger.info(`Transaction ${updated.id} → ${updated.status.toUpperCase()} via ${via}`, {
+      psp_refund_id: report.psp_refund_id,
+      refund_succeeded: report.succeeded
+    });
+    if (report.succeeded) await this.notifyMerchant(updated, 'payment.refunded', pspData);
+  }
+
+  /**
+   * Move the transaction to a status a webhook reported, unless that would
+   * take it backwards — webhooks are retried and arrive out of order, so a
+   * late `authorized` or `failed` must not undo a capture, refund or void.
+   */
+  private advance(transaction: Transaction, status: PaymentStatus, via: string): boolean {
+    if (!WEBHOOK_TRANSITIONS[transaction.status]?.includes(status)) {
+      logger.info(`Transaction ${transaction.id}: ignoring ${status} via ${via} — already ${transaction.status}`);
+      return false;
+    }
+    transaction.status = status;
+    return true;
+  }
+
+  /** Record why a payment failed — the normalized decline code plus the PSP's raw code */
+  private recordDecline(
+    transaction: Transaction,
+    connector: PSPConnector,
+    rawCode?: string,
+    message?: string
+  ): void {
+    transaction.decline_code = connector.mapDeclineCode(rawCode, message);
+    transaction.raw_psp_code = rawCode ?? null;
+  }
+
+  /**
+   * Find the PSP account the webhook belongs to — the merchant account named
+   * in the URL (or by PayTabs' profile_id), else the platform account — and
+   * let its connector verify it. Sends the rejection response and returns null when the
+   * webhook must not be processed.
+   */
+  private async verifyWebhook(
+    provider: PSPProvider,
+    req: Request,
+    res: Response
+  ): Promise<ResolvedConnector | null> {
+    const { accountId } = req.params;
+    const candidates = await pspAccountService.getWebhookCandidates(provider, req.body, accountId);
+    if (candidates.length === 0) {
+      if (accountId) {
+        logger.warn(`Webhook received for unknown or disabled ${provider} account: ${accountId}`);
+        res.status(404).json({ error: 'PSP account not found' });
+      } else {
+        logger.warn(`Webhook received for PSP that is not enabled: ${provider}`);
+        res.status(404).json({ error: 'PSP not enabled' });
+      }
+      return null;
+    }
+
+    const input = {
+      headers: req.headers,
+      body: req.body,
+      rawBody: req.rawBody ?? (typeof req.body === 'string' ? req.body : JSON.stringify(req.body))
+    };
+
+    const source = candidates.find(c => c.connector.verifyWebhook(input));
+    if (!source) {
+      logger.warn(`Invalid ${provider} webhook — verification failed`);
+      res.status(401).json({ error: 'Invalid signature' });
+      return null;
+    }
+
+    if (source.account_id) {
+      logger.info(`${provider} webhook resolved to merchant account`, {
+        account_id: source.account_id,
+        merchant_id: source.merchant_id
+      });
+    }
+    return source;
+  }
+
+  /**
+   * Find the transaction a verified webhook refers to. Only transactions made
+   * with the same PSP account are considered, so one merchant's credentials
+   * can never update another merchant's payments.
+   */
+  private async findTransaction(
+    source: ResolvedConnector,
+    pspIds: Array<string | undefined>
+  ): Promise<Transaction | null> {
+    const ids = pspIds.filter((id): id is string => !!id);
+    if (ids.length === 0) return null;
+
+    const accountId = source.account_id ?? IsNull();
+    return this.transactionRepository.findOne({
+      where: ids.map(id => ({ psp_transaction_id: id, psp_account_id: accountId }))
+    });
+  }
+
   /**
    * Look up the merchant and enqueue a webhook delivery.
    * Failures are handled by WebhookQueue with retries — do not throw here.
@@ -242,6 +709,11 @@ export class WebhookController {
     eventType: string,
     pspData: any
   ): Promise<void> {
+    // Every status change lands here — 3DS / redirect payments only get
+    // their final outcome through a webhook
+    successRateTracker.recordTransaction(transaction);
+    pspQuotaService.recordTransaction(transaction);
+
     const merchant = await this.merchantRepository.findOne({
       where: { id: transaction.merchant_id }
     });
@@ -0,0 +1,34 @@
+import { AppDataSource } from '../../config/database';
+import { FeeScheduleController } from '../FeeScheduleController';
+
+const response = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+describe('FeeScheduleController', () => {
+  const repository = { find: jest.fn(), findOne: jest.fn() };
+  let controller: FeeScheduleController;
+
+  beforeEach(() => {
+    jest.spyOn(AppDataSource, 'getRepository').mockReturnValue(repository as any);
+    controller = new FeeScheduleController();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    ['listSchedules', () => repository.find],
+    ['deleteSchedule', () => repository.findOne]
+  ] as const)('%s answers database errors with a 500', async (handler, query) => {
+    query().mockRejectedValueOnce(new Error('connection terminated'));
+    const res = response();
+
+    await controller[handler]({ params: { id: 'fee_1' }, merchant: { id: 'merchant_1' } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ success: false, message: 'connection terminated' });
+  });
+});
@@ -0,0 +1,49 @@
+import { AppDataSource } from '../../config/database';
+import { PaymentService } from '../../services/PaymentService';
+import { RoutingError } from '../../services/RoutingService';
+import { PaymentController } from '../PaymentController';
+
+const request = (): any => ({
+  headers: {},
+  body: { amount: 100, currency: 'EGP', token: 'tok_1', source: { type: 'token', token: 'tok_1' } },
+  merchant: { id: 'merchant_1' },
+  get: () => undefined
+});
+
+const response = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+describe('PaymentController payment creation', () => {
+  let controller: PaymentController;
+
+  beforeEach(() => {
+    jest.spyOn(AppDataSource, 'getRepository').mockReturnValue({} as any);
+    controller = new PaymentController();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each(['createPayment', 'chargePayment'] as const)('%s answers routing failures with a 422', async handler => {
+    const reason = 'No PSP can process this payment (moyasar: currency EGP not supported)';
+    jest.spyOn(PaymentService.prototype, 'createPayment').mockRejectedValue(new RoutingError(reason));
+    const res = response();
+
+    await controller[handler](request(), res);
+
+    expect(res.status).toHaveBeenCalledWith(422);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false, message: reason }));
+  });
+
+  it('still answers unexpected errors with a 500', async () => {
+    jest.spyOn(PaymentService.prototype, 'createPayment').mockRejectedValue(new Error('connection terminated'));
+    const res = response();
+
+    await controller.createPayment(request(), res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+});
@@ -0,0 +1,92 @@
+import { AppDataSource } from '../../config/database';
+import { RoutingRule } from '../../models/RoutingRule';
+import { RuleChange } from '../../models/RoutingRuleVersion';
+import { PSPProvider } from '../../types/payment.types';
+import { pspAccountService } from '../../services/PSPAccountService';
+import { routingRuleCache } from '../../services/RoutingRuleCache';
+import { RoutingController } from '../RoutingController';
+
+const response = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const merchantRule = () =>
+  Object.assign(new RoutingRule(), {
+    id: 'rule_1',
+    name: 'SAR to Tap',
+    priority: 1,
+    conditions: [],
+    target_psp: PSPProvider.TAP,
+    split: null,
+    enabled: true,
+    version: 1,
+    merchant_id: 'merchant_1'
+  });
+
+describe('RoutingController', () => {
+  const repository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((values: object) => values)
+  };
+  let controller: RoutingController;
+
+  beforeEach(() => {
+    jest.spyOn(AppDataSource, 'getRepository').mockReturnValue(repository as any);
+    jest.spyOn(routingRuleCache, 'invalidate').mockImplementation(() => undefined);
+    for (const fn of Object.values(repository)) fn.mockClear();
+    controller = new RoutingController();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    ['deleteRule', () => repository.findOne],
+    ['listVersions', () => repository.find],
+    ['diffVersions', () => repository.find],
+    ['listRules', () => repository.find]
+  ] as const)('%s answers database errors with a 500', async (handler, query) => {
+    query().mockRejectedValueOnce(new Error('connection terminated'));
+    const res = response();
+
+    await (controller as any)[handler]({ params: { id: 'rule_1' }, query: {}, merchant: { id: 'merchant_1' } }, res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ success: false, message: 'connection terminated' });
+  });
+
+  it('answers capability lookup errors with a 500', async () => {
+    jest.spyOn(pspAccountService, 'getAvailableProviders').mockRejectedValueOnce(new Error('connection terminated'));
+    const res = response();
+
+    await controller.getCapabilities({ merchant: { id: 'merchant_1' } } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ success: false, message: 'connection terminated' });
+  });
+
+  it('rejects changed_by in the body', async () => {
+    const res = response();
+    await controller.createRule({
+      body: { name: 'x', target_psp: PSPProvider.TAP, changed_by: 'someone-else' },
+      merchant: { id: 'merchant_1' }
+    } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].message).toMatch(/Unknown rule field\(s\): changed_by/);
+  });
+
+  it('records the authenticated merchant as the author of a change', async () => {
+    repository.findOne.mockResolvedValue(merchantRule());
+    const saved: any[] = [];
+    jest.spyOn(AppDataSource, 'transaction').mockImplementation(async (work: any) =>
+      work({ save: async (row: any) => saved.push(row), remove: async () => undefined }));
+
+    await controller.deleteRule({ params: { id: 'rule_1' }, body: {}, merchant: { id: 'merchant_1' } } as any, response());
+
+    expect(saved).toEqual([expect.objectContaining({ change: RuleChange.DELETED, author: 'merchant_1' })]);
+  });
+});
@@ -0,0 +1,94 @@
+import { AppDataSource } from '../../config/database';
+import { Transaction } from '../../models/Transaction';
+import { pspAccountService } from '../../services/PSPAccountService';
+import { pspQuotaService } from '../../services/PSPQuotaService';
+import { successRateTracker } from '../../services/SuccessRateTracker';
+import { PaymentStatus, PSPProvider } from '../../types/payment.types';
+import { WebhookController } from '../WebhookController';
+
+const response = () => {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const transaction = (status: PaymentStatus): Transaction =>
+  Object.assign(new Transaction(), {
+    id: 'txn_1',
+    merchant_id: 'merchant_1',
+    amount: 10000,
+    status,
+    psp_provider: PSPProvider.MOYASAR,
+    psp_transaction_id: 'pay_1'
+  });
+
+describe('WebhookController', () => {
+  const repository = {
+    findOne: jest.fn(),
+    save: jest.fn(async (row: object) => row)
+  };
+  let controller: WebhookController;
+
+  beforeEach(() => {
+    jest.spyOn(AppDataSource, 'getRepository').mockReturnValue(repository as any);
+    jest.spyOn(pspAccountService, 'getWebhookCandidates').mockResolvedValue([
+      { connector: { verifyWebhook: () => true }, account_id: null, merchant_id: null } as any
+    ]);
+    jest.spyOn(successRateTracker, 'recordTransaction').mockImplementation(() => undefined);
+    jest.spyOn(pspQuotaService, 'recordTransaction').mockImplementation(() => undefined);
+    repository.findOne.mockReset();
+    repository.save.mockClear();
+    controller = new WebhookController();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const moyasar = async (type: string, data: object = {}) => {
+    const res = response();
+    await controller.handleMoyasarWebhook({ params: {}, headers: {}, body: { type, data: { id: 'pay_1', ...data } } } as any, res);
+    expect(res.status).toHaveBeenCalledWith(200);
+  };
+
+  it.each([
+    ['payment_authorized', PaymentStatus.PENDING, PaymentStatus.AUTHORIZED],
+    ['payment_captured', PaymentStatus.AUTHORIZED, PaymentStatus.PAID],
+    ['payment_voided', PaymentStatus.AUTHORIZED, PaymentStatus.VOIDED]
+  ])('applies Moyasar %s', async (type, from, to) => {
+    const current = transaction(from);
+    repository.findOne.mockImplementation(async ({ where }: any) => (Array.isArray(where) ? current : null));
+
+    await moyasar(type, { captured: 6000 });
+
+    expect(current.status).toBe(to);
+    if (to === PaymentStatus.PAID) expect(current.captured_amount).toBe(6000);
+  });
+
+  it.each([
+    ['payment_authorized', PaymentStatus.PAID],
+    ['payment_failed', PaymentStatus.PAID],
+    ['payment_failed', PaymentStatus.REFUNDED],
+    ['payment_authorized', PaymentStatus.VOIDED]
+  ])('ignores a late Moyasar %s on a %s payment', async (type, status) => {
+    const current = transaction(status);
+    repository.findOne.mockResolvedValue(current);
+
+    await moyasar(type);
+
+    expect(current.status).toBe(status);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it('ignores a Checkout.com decline after the capture', async () => {
+    const current = transaction(PaymentStatus.PAID);
+    repository.findOne.mockResolvedValue(current);
+    const res = response();
+
+    await controller.handleCheckoutWebhook({
+      params: {}, headers: {}, body: { type: 'payment_declined', data: { id: 'pay_1' } }
+    } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(current.status).toBe(PaymentStatus.PAID);
+  });
+});
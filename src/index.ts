@@ -8,6 +8,7 @@ import { logger } from './utils/logger';
 import { initializeDatabase } from './config/database';
 import { webhookQueue } from './services/WebhookQueue';
 import { requestIdMiddleware } from './middleware/requestId';
+import { captureRawBody } from './middleware/rawBody';
 import { globalLimiter, healthLimiter } from './middleware/rateLimiter';
 
 // Load environment variables
@@ -79,9 +80,10 @@ app.use('/api', globalLimiter);
 
 /**
  * Body Parsing Middleware
+ * The raw body is kept alongside the parsed one for PSP webhook verification.
  */
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, limit: '10mb', verify: captureRawBody }));
 
 /**
  * HTTP Request Logging
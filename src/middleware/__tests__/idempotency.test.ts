@@ -0,0 +1,110 @@
+import { EventEmitter } from 'events';
+import { IdempotencyKey, IdempotencyStatus } from '../../models/IdempotencyKey';
+import { idempotencyService } from '../../services/IdempotencyService';
+import { idempotency } from '../idempotency';
+
+const request = (): any => ({
+  method: 'POST',
+  baseUrl: '/api/v1',
+  path: '/payments',
+  body: { amount: 100 },
+  merchant: { id: 'merchant_1' },
+  get: (name: string) => (name === 'Idempotency-Key' ? 'key_1' : undefined)
+});
+
+const response = () => {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn().mockReturnValue(res);
+  res.set = jest.fn().mockReturnValue(res);
+  res.end = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const record = (values: Partial<IdempotencyKey> = {}): IdempotencyKey =>
+  Object.assign(new IdempotencyKey(), { id: 'idem_1', merchant_id: 'merchant_1', ...values });
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('idempotency middleware', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('replays a stored response', async () => {
+    jest.spyOn(idempotencyService, 'claim').mockResolvedValue({
+      outcome: 'replay',
+      record: record({ status: IdempotencyStatus.COMPLETED, response_status: 201, response_body: { id: 'txn_1' } })
+    });
+    const res = response();
+    const next = jest.fn();
+
+    await idempotency(request(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.set).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith({ id: 'txn_1' });
+  });
+
+  it.each([
+    ['in_progress', 409],
+    ['mismatch', 422]
+  ] as const)('answers %s with %i', async (outcome, status) => {
+    jest.spyOn(idempotencyService, 'claim').mockResolvedValue({ outcome });
+    const res = response();
+    const next = jest.fn();
+
+    await idempotency(request(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(status);
+  });
+
+  it('stores a JSON response before sending it', async () => {
+    jest.spyOn(idempotencyService, 'claim').mockResolvedValue({ outcome: 'claimed', record: record() });
+    const complete = jest.spyOn(idempotencyService, 'complete').mockResolvedValue();
+    const res = response();
+    const send = res.json;
+
+    await idempotency(request(), res, jest.fn());
+    res.status(201).json({ id: 'txn_1' });
+    expect(send).not.toHaveBeenCalled();
+    await flush();
+
+    expect(complete).toHaveBeenCalledWith(expect.objectContaining({ id: 'idem_1' }), 201, { id: 'txn_1' });
+    expect(send).toHaveBeenCalledWith({ id: 'txn_1' });
+  });
+
+  it('settles the key when a response is sent without res.json', async () => {
+    jest.spyOn(idempotencyService, 'claim').mockResolvedValue({ outcome: 'claimed', record: record() });
+    const complete = jest.spyOn(idempotencyService, 'complete').mockResolvedValue();
+    const release = jest.spyOn(idempotencyService, 'release').mockResolvedValue();
+    const res = response();
+
+    await idempotency(request(), res, jest.fn());
+    res.statusCode = 502;
+    res.emit('finish');
+    await flush();
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(complete).toHaveBeenCalledWith(expect.anything(), 502, null);
+    expect(release).not.toHaveBeenCalled();
+  });
+
+  it('releases the key after a 4xx', async () => {
+    jest.spyOn(idempotencyService, 'claim').mockResolvedValue({ outcome: 'claimed', record: record() });
+    const release = jest.spyOn(idempotencyService, 'release').mockResolvedValue();
+    const res = response();
+
+    await idempotency(request(), res, jest.fn());
+    res.status(400).json({ success: false });
+    await flush();
+    res.emit('finish');
+    await flush();
+
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+});
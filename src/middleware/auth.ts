@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { AppDataSource } from '../config/database';
 import { Merchant } from '../models/Merchant';
 import { logger } from '../utils/logger';
@@ -196,3 +197,31 @@ export const authenticateApiKey = async (
     res.status(500).json({ error: 'Internal Server Error', message: 'Authentication failed' });
   }
 };
+
+/**
+ * Authenticate platform operators — not merchants — with the ADMIN_API_KEY
+ * shared secret, sent as `x-admin-key`. Used for platform-wide settings such
+ * as global routing rules. Disabled (404) when ADMIN_API_KEY is not set.
+ *
+ * req.merchant is deliberately left unset: handlers shared with merchant
+ * routes treat a request without a merchant as a platform request.
+ */
+export const authenticateAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const adminKey = (process.env.ADMIN_API_KEY ?? '').trim();
+  if (!adminKey) {
+    res.status(404).json({ error: 'Not Found' });
+    return;
+  }
+
+  const provided = String(req.headers['x-admin-key'] ?? '');
+  const expected = crypto.createHash('sha256').update(adminKey).digest();
+  const received = crypto.createHash('sha256').update(provided).digest();
+
+  if (!provided || !crypto.timingSafeEqual(expected, received)) {
+    logger.warn('[auth] Invalid admin key', { request_id: req.requestId });
+    res.status(401).json({ error: 'Unauthorized', message: 'Invalid admin key' });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+import { idempotencyService } from '../services/IdempotencyService';
+import { logger } from '../utils/logger';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Middleware: Idempotency-Key support for endpoints that move money.
+ *
+ * A request with an Idempotency-Key header is handled once per merchant and
+ * key; a retry gets the stored response back (marked `Idempotent-Replayed:
+ * true`) without reaching the PSP again. While the first request is still
+ * running a retry gets 409, unless it has been running for
+ * IN_PROGRESS_TIMEOUT_MS — then the first request is taken to have died and
+ * the retry runs. Reusing a key for a different request — another body or
+ * endpoint — gets 422. Keys expire after 24 hours.
+ *
+ * Successful responses and 5xx errors are stored: a 5xx may come after the
+ * PSP was called (e.g. a decline), so running the request again is unsafe.
+ * On a 4xx nothing was done, and the key is released for a corrected retry.
+ * The key is settled before a JSON response is sent, and otherwise once any
+ * response has finished.
+ *
+ * Place this middleware AFTER authenticateApiKey so that req.merchant is set.
+ * Requests without the header are unaffected.
+ */
+export const idempotency = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.get('Idempotency-Key')?.trim();
+  if (!key || !req.merchant) {
+    next();
+    return;
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`
+    });
+    return;
+  }
+
+  try {
+    const fingerprint = idempotencyService.fingerprint(req.method, req.baseUrl + req.path, req.body);
+    const claim = await idempotencyService.claim(req.merchant.id, key, fingerprint);
+
+    if (claim.outcome === 'mismatch') {
+      res.status(422).json({
+        success: false,
+        message: 'Idempotency-Key was already used for a different request'
+      });
+      return;
+    }
+    if (claim.outcome === 'in_progress') {
+      res.status(409).json({
+        success: false,
+        message: 'A request with this Idempotency-Key is still being processed — retry later'
+      });
+      return;
+    }
+    if (claim.outcome === 'replay') {
+      logger.info('[idempotency] replaying stored response', {
+        merchant_id: req.merchant.id,
+        request_id: req.requestId
+      });
+      res.set('Idempotent-Replayed', 'true');
+      res.status(claim.record.response_status ?? 200);
+      if (claim.record.response_body === null) {
+        res.end();
+      } else {
+        res.json(claim.record.response_body);
+      }
+      return;
+    }
+
+    const { record } = claim;
+    let settled: Promise<void> | null = null;
+    const settle = (body: unknown): Promise<void> => {
+      if (settled) return settled;
+      const status = res.statusCode;
+      settled = (status >= 400 && status < 500
+        ? idempotencyService.release(record)
+        : idempotencyService.complete(record, status, body ?? null)
+      ).catch((error: Error) => {
+        logger.error('[idempotency] failed to store response:', {
+          message: error.message,
+          merchant_id: record.merchant_id,
+          request_id: req.requestId
+        });
+      });
+      return settled;
+    };
+
+    const json = res.json.bind(res);
+    res.json = (body?: any) => {
+      // Respond once the key is settled, so a retry after this response
+      // always gets the replay rather than a 409
+      settle(body).finally(() => json(body));
+      return res;
+    };
+    // Responses sent some other way (res.send, res.end…) — no body to replay
+    res.on('finish', () => {
+      void settle(null);
+    });
+    next();
+  } catch (error: any) {
+    logger.error('[idempotency] error:', { message: error.message, request_id: req.requestId });
+    res.status(500).json({ success: false, message: 'Failed to check Idempotency-Key' });
+  }
+};
@@ -0,0 +1,25 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+// Extend Express Request to carry the unparsed request body
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: string;
+    }
+  }
+}
+
+/**
+ * `verify` hook for the express body parsers: keeps the exact bytes the
+ * client sent on req.rawBody.
+ *
+ * PSP webhook signatures are computed over the raw body — re-serialising the
+ * parsed JSON can reorder keys or change whitespace and break verification.
+ */
+export const captureRawBody = (
+  req: IncomingMessage,
+  _res: ServerResponse,
+  buf: Buffer
+): void => {
+  (req as Express.Request).rawBody = buf.toString('utf8');
+};
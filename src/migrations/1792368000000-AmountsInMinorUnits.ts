@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Store money as integer minor units (halalas, fils, cents) instead of
+ * decimal(10,2), which can't hold 3-decimal currencies such as KWD, BHD and
+ * OMR. Every existing row is SAR/USD/AED — two decimals — so converting is
+ * a multiplication by 100. Also adds the new currencies to the enums.
+ */
+export class AmountsInMinorUnits1792368000000 implements MigrationInterface {
+  name = 'AmountsInMinorUnits1792368000000';
+
+  private readonly columns: Array<[table: string, column: string, hasDefault: boolean]> = [
+    ['transactions', 'amount', false],
+    ['transactions', 'captured_amount', false],
+    ['transactions', 'refunded_amount', true],
+    ['transactions', 'fee', true],
+    ['refunds', 'amount', false]
+  ];
+
+  private readonly newCurrencies = ['KWD', 'BHD', 'QAR', 'OMR', 'EGP', 'EUR'];
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Fresh databases have no tables yet — synchronize creates them as bigint
+    for (const table of ['transactions', 'refunds']) {
+      if (!(await queryRunner.hasTable(table))) continue;
+      for (const currency of this.newCurrencies) {
+        await queryRunner.query(`ALTER TYPE "${table}_currency_enum" ADD VALUE IF NOT EXISTS '${currency}'`);
+      }
+    }
+
+    for (const [table, column, hasDefault] of this.columns) {
+      // Only decimal columns still hold major units; anything else is converted already
+      if (await this.columnType(queryRunner, table, column) !== 'numeric') continue;
+      if (hasDefault) await queryRunner.query(`ALTER TABLE "${table}" ALTER COLUMN "${column}" DROP DEFAULT`);
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE bigint USING round("${column}" * 100)`
+      );
+      if (hasDefault) await queryRunner.query(`ALTER TABLE "${table}" ALTER COLUMN "${column}" SET DEFAULT 0`);
+    }
+  }
+
+  /**
+   * Only valid while no 3-decimal amounts exist. Postgres can't drop enum
+   * values, so the new currencies stay in the enums.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const [table, column, hasDefault] of this.columns) {
+      if (await this.columnType(queryRunner, table, column) !== 'bigint') continue;
+      if (hasDefault) await queryRunner.query(`ALTER TABLE "${table}" ALTER COLUMN "${column}" DROP DEFAULT`);
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE decimal(10,2) USING "${column}" / 100.0`
+      );
+      if (hasDefault) await queryRunner.query(`ALTER TABLE "${table}" ALTER COLUMN "${column}" SET DEFAULT 0`);
+    }
+  }
+
+  /** Postgres data type of a column, or undefined when it doesn't exist */
+  private async columnType(queryRunner: QueryRunner, table: string, column: string): Promise<string | undefined> {
+    const rows: Array<{ data_type: string }> = await queryRunner.query(
+      `SELECT data_type FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = $1 AND column_name = $2`,
+      [table, column]
+    );
+    return rows[0]?.data_type;
+  }
+}
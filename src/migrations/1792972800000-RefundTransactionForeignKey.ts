@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Make refunds.transaction_id a real foreign key to transactions. The column
+ * was a varchar, so it is converted to uuid first — synchronize would drop
+ * and re-add it instead, losing which transaction each refund belongs to.
+ */
+export class RefundTransactionForeignKey1792972800000 implements MigrationInterface {
+  name = 'RefundTransactionForeignKey1792972800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Fresh databases: synchronize creates the column and key
+    if (!(await queryRunner.hasTable('refunds'))) return;
+
+    const [column] = await queryRunner.query(
+      `SELECT data_type FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'refunds' AND column_name = 'transaction_id'`
+    );
+    if (column?.data_type === 'character varying') {
+      await queryRunner.query(
+        `ALTER TABLE "refunds" ALTER COLUMN "transaction_id" TYPE uuid USING "transaction_id"::uuid`
+      );
+    }
+
+    const table = await queryRunner.getTable('refunds');
+    if (table?.foreignKeys.some(fk => fk.columnNames.includes('transaction_id'))) return;
+
+    // Same name synchronize would give the key, so it leaves it alone
+    const name = queryRunner.connection.namingStrategy.foreignKeyName('refunds', ['transaction_id'], 'transactions', ['id']);
+    await queryRunner.query(
+      `ALTER TABLE "refunds" ADD CONSTRAINT "${name}" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const table = await queryRunner.getTable('refunds');
+    const foreignKey = table?.foreignKeys.find(fk => fk.columnNames.includes('transaction_id'));
+    if (foreignKey) await queryRunner.dropForeignKey('refunds', foreignKey);
+    await queryRunner.query(`ALTER TABLE "refunds" ALTER COLUMN "transaction_id" TYPE varchar`);
+  }
+}
@@ -0,0 +1,62 @@
+import { QueryRunner } from 'typeorm';
+import { AmountsInMinorUnits1792368000000 } from '../1792368000000-AmountsInMinorUnits';
+
+/** Query runner stand-in: answers column-type lookups and records the rest */
+const fakeQueryRunner = (tables: string[], columnTypes: Record<string, string>) => {
+  const statements: string[] = [];
+  const queryRunner = {
+    hasTable: async (table: string) => tables.includes(table),
+    query: async (sql: string, params?: string[]) => {
+      if (sql.includes('information_schema.columns')) {
+        const type = columnTypes[`${params![0]}.${params![1]}`];
+        return type ? [{ data_type: type }] : [];
+      }
+      statements.push(sql);
+      return [];
+    }
+  };
+  return { queryRunner: queryRunner as unknown as QueryRunner, statements };
+};
+
+describe('AmountsInMinorUnits migration', () => {
+  const migration = new AmountsInMinorUnits1792368000000();
+
+  it('scales decimal amounts to minor units', async () => {
+    const { queryRunner, statements } = fakeQueryRunner(['transactions', 'refunds'], {
+      'transactions.amount': 'numeric',
+      'transactions.captured_amount': 'numeric',
+      'transactions.refunded_amount': 'numeric',
+      'transactions.fee': 'numeric',
+      'refunds.amount': 'numeric'
+    });
+
+    await migration.up(queryRunner);
+
+    expect(statements).toContain(
+      'ALTER TABLE "transactions" ALTER COLUMN "amount" TYPE bigint USING round("amount" * 100)'
+    );
+    expect(statements).toContain(
+      'ALTER TABLE "refunds" ALTER COLUMN "amount" TYPE bigint USING round("amount" * 100)'
+    );
+    expect(statements).toContain(`ALTER TYPE "transactions_currency_enum" ADD VALUE IF NOT EXISTS 'KWD'`);
+  });
+
+  it('does nothing on a fresh database', async () => {
+    const { queryRunner, statements } = fakeQueryRunner([], {});
+    await migration.up(queryRunner);
+    expect(statements).toEqual([]);
+  });
+
+  it('never scales a column twice', async () => {
+    const { queryRunner, statements } = fakeQueryRunner(['transactions', 'refunds'], {
+      'transactions.amount': 'bigint',
+      'transactions.fee': 'numeric',
+      'refunds.amount': 'bigint'
+    });
+
+    await migration.up(queryRunner);
+
+    const conversions = statements.filter(s => s.includes('TYPE bigint'));
+    expect(conversions).toEqual(['ALTER TABLE "transactions" ALTER COLUMN "fee" TYPE bigint USING round("fee" * 100)']);
+  });
+});
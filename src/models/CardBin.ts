@@ -0,0 +1,45 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+export enum FundingType {
+  CREDIT = 'credit',
+  DEBIT = 'debit',
+  PREPAID = 'prepaid'
+}
+
+/**
+ * One row of the local BIN table — what the first 6–8 digits of a card
+ * number say about the card. Imported from CSV (POST /admin/bins/import).
+ */
+@Entity('card_bins')
+export class CardBin {
+  /** 6–8 leading digits; the longest matching prefix wins */
+  @PrimaryColumn('varchar', { length: 8 })
+  bin: string;
+
+  /** International brand: visa, mastercard, amex, unionpay… */
+  @Column('varchar')
+  card_brand: string;
+
+  /**
+   * Network the card is processed on: "mada" for Saudi mada cards (which
+   * are usually co-branded Visa or Mastercard), otherwise the brand.
+   */
+  @Column('varchar')
+  card_scheme: string;
+
+  /** ISO 3166-1 alpha-2 country of the issuing bank */
+  @Column('varchar', { length: 2, nullable: true })
+  issuer_country: string | null;
+
+  @Column('enum', { enum: FundingType, nullable: true })
+  funding_type: FundingType | null;
+
+  @Column('varchar', { nullable: true })
+  issuer_name: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,45 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export enum IdempotencyStatus {
+  IN_PROGRESS = 'in_progress', // first request still being handled
+  COMPLETED = 'completed'      // response stored — replayed to retries
+}
+
+/**
+ * One row per Idempotency-Key a merchant sent to a payment-creating endpoint.
+ * The unique index makes claiming a key atomic, so two concurrent requests
+ * with the same key can never both reach the PSP.
+ */
+@Entity('idempotency_keys')
+@Index(['merchant_id', 'key'], { unique: true })
+export class IdempotencyKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('varchar')
+  merchant_id: string;
+
+  @Column('varchar', { length: 255 })
+  key: string;
+
+  /** SHA-256 of method, path and body — a retry must send the same request */
+  @Column('varchar', { length: 64 })
+  fingerprint: string;
+
+  @Column({ type: 'enum', enum: IdempotencyStatus, default: IdempotencyStatus.IN_PROGRESS })
+  status: IdempotencyStatus;
+
+  @Column('int', { nullable: true })
+  response_status: number | null;
+
+  @Column('jsonb', { nullable: true })
+  response_body: unknown;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  /** After this the key is forgotten and may be used again */
+  @Column('timestamptz')
+  @Index()
+  expires_at: Date;
+}
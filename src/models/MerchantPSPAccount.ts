@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index
+} from 'typeorm';
+import { PSPProvider, PSPAccountCredentials } from '../types/payment.types';
+import { encryptedJson } from '../utils/encryption';
+
+/**
+ * A merchant's own account at a PSP. Payments for the merchant go through
+ * these credentials instead of the platform-wide env keys; merchants without
+ * an account for a PSP keep using the platform account, if one is configured.
+ *
+ * One account per merchant per PSP.
+ */
+@Entity('merchant_psp_accounts')
+@Index(['merchant_id', 'psp_provider'], { unique: true })
+export class MerchantPSPAccount {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  @Index()
+  merchant_id: string;
+
+  @Column({
+    type: 'enum',
+    enum: PSPProvider
+  })
+  psp_provider: PSPProvider;
+
+  /** Overrides the PSP's default API base URL (e.g. a sandbox host) */
+  @Column({ nullable: true })
+  api_url: string;
+
+  /**
+   * Non-secret account identifiers — PayTabs profile_id, HyperPay entity_id /
+   * mada_entity_id, Checkout.com processing_channel_id. Kept in plain text so
+   * inbound webhooks can be matched to the account by them.
+   */
+  @Column('jsonb', { nullable: true })
+  options: Record<string, string> | null;
+
+  /** API key and webhook secret, AES-256-GCM encrypted at rest */
+  @Column('text', { transformer: encryptedJson })
+  credentials: PSPAccountCredentials;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,64 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, ValueTransformer } from 'typeorm';
+import { Currency, PaymentMethod, PSPProvider } from '../types/payment.types';
+import { minorUnitsColumn } from '../utils/currency';
+
+export enum FeeRegion {
+  /** Card issued in ROUTING_DOMESTIC_COUNTRY */
+  DOMESTIC = 'domestic',
+  INTERNATIONAL = 'international'
+}
+
+/** Postgres returns numeric columns as strings */
+const numericColumn: ValueTransformer = {
+  to: (value: number) => value,
+  from: (value: string | null) => (value === null ? null : Number(value))
+};
+
+/**
+ * What a PSP charges per payment: `percentage` of the amount plus
+ * `fixed_fee`. Null criteria match anything; of the schedules matching a
+ * payment the most specific wins, a merchant's own before the platform's.
+ */
+@Entity('psp_fee_schedules')
+export class PSPFeeSchedule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Null for platform-wide schedules */
+  @Column('varchar', { nullable: true })
+  @Index()
+  merchant_id: string | null;
+
+  @Column({ type: 'enum', enum: PSPProvider })
+  psp_provider: PSPProvider;
+
+  @Column({ type: 'enum', enum: PaymentMethod, nullable: true })
+  payment_method: PaymentMethod | null;
+
+  /** As classified by the BIN table, e.g. `mada`, `visa` */
+  @Column('varchar', { nullable: true })
+  card_scheme: string | null;
+
+  @Column({ type: 'enum', enum: Currency, nullable: true })
+  currency: Currency | null;
+
+  @Column({ type: 'enum', enum: FeeRegion, nullable: true })
+  region: FeeRegion | null;
+
+  /** Percent of the amount, e.g. 2.75 */
+  @Column('numeric', { precision: 7, scale: 4, default: 0, transformer: numericColumn })
+  percentage: number;
+
+  /** Per-payment fee in the schedule currency's minor units */
+  @Column('bigint', { default: 0, transformer: minorUnitsColumn })
+  fixed_fee: number;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,60 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { Currency, PSPProvider } from '../types/payment.types';
+import { minorUnitsColumn } from '../utils/currency';
+
+export enum QuotaPeriod {
+  DAY = 'day',
+  MONTH = 'month'
+}
+
+/**
+ * Contractual volume limits for one PSP over a day or calendar month (in
+ * ROUTING_TIMEZONE). Routing skips a PSP once a maximum is reached and
+ * prefers it while it is below a committed minimum.
+ *
+ * Volume is approved payments. A platform quota (merchant_id null) counts
+ * every merchant's payments through the PSP; a merchant quota only that
+ * merchant's.
+ */
+@Entity('psp_quotas')
+export class PSPQuota {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Null for platform-wide quotas */
+  @Column('varchar', { nullable: true })
+  @Index()
+  merchant_id: string | null;
+
+  @Column({ type: 'enum', enum: PSPProvider })
+  psp_provider: PSPProvider;
+
+  @Column({ type: 'enum', enum: QuotaPeriod })
+  period: QuotaPeriod;
+
+  /** Currency of the amount limits — only payments in it count toward them */
+  @Column({ type: 'enum', enum: Currency, nullable: true })
+  currency: Currency | null;
+
+  @Column('int', { nullable: true })
+  max_count: number | null;
+
+  /** Amount limits are in the currency's minor units, like Transaction amounts */
+  @Column('bigint', { nullable: true, transformer: minorUnitsColumn })
+  max_amount: number | null;
+
+  @Column('int', { nullable: true })
+  min_count: number | null;
+
+  @Column('bigint', { nullable: true, transformer: minorUnitsColumn })
+  min_amount: number | null;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,79 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn
+} from 'typeorm';
+import { Currency } from '../types/payment.types';
+import { minorUnitsColumn } from '../utils/currency';
+import { Transaction } from './Transaction';
+
+export enum RefundStatus {
+  PENDING = 'pending',     // reserved against the balance, PSP call in flight
+  SUCCEEDED = 'succeeded', // accepted by the PSP
+  FAILED = 'failed'        // rejected by the PSP — no longer counts against the balance
+}
+
+/**
+ * One row per refund issued against a transaction. A transaction may carry
+ * several partial refunds. These rows are the ledger: Transaction.refunded_amount
+ * and the refunded statuses are derived from them (see RefundLedger).
+ */
+@Entity('refunds')
+export class Refund {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  @Index()
+  transaction_id: string;
+
+  @ManyToOne(() => Transaction)
+  @JoinColumn({ name: 'transaction_id' })
+  transaction?: Transaction;
+
+  @Column()
+  @Index()
+  merchant_id: string;
+
+  /** In the currency's minor units, like the Transaction amounts */
+  @Column('bigint', { transformer: minorUnitsColumn })
+  amount: number;
+
+  @Column({
+    type: 'enum',
+    enum: Currency,
+    default: Currency.SAR
+  })
+  currency: Currency;
+
+  @Column('text', { nullable: true })
+  reason: string;
+
+  @Column({ nullable: true })
+  psp_refund_id: string;
+
+  @Column({
+    type: 'enum',
+    enum: RefundStatus,
+    default: RefundStatus.PENDING
+  })
+  status: RefundStatus;
+
+  @Column('text', { nullable: true })
+  error_message: string;
+
+  /** Who issued the refund — a support agent identifier, or the merchant id */
+  @Column()
+  created_by: string;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -1,5 +1,5 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
-import { PSPProvider } from '../types/payment.types';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, VersionColumn, Index } from 'typeorm';
+import { PSPProvider, RuleCondition, SplitTarget } from '../types/payment.types';
 
 @Entity('routing_rules')
 export class RoutingRule {
@@ -12,24 +12,43 @@ export class RoutingRule {
   @Column({ default: 0 })
   priority: number;
 
+  /**
+   * All must hold. Entries are conditions or nested any/all groups — see
+   * services/routingConditions.ts for the fields and operators.
+   */
   @Column('jsonb')
-  conditions: Array<{
-    field: string;
-    operator: string;
-    value: string | number;
-  }>;
+  conditions: RuleCondition[];
 
+  /** Single target PSP — null when the rule splits traffic instead */
   @Column({
     type: 'enum',
-    enum: PSPProvider
+    enum: PSPProvider,
+    nullable: true
   })
-  target_psp: PSPProvider;
+  target_psp: PSPProvider | null;
+
+  /**
+   * Weighted split between PSPs (e.g. 70% moyasar / 30% paytabs), used
+   * instead of target_psp. Payments are bucketed deterministically per
+   * customer, so retries by the same shopper land on the same PSP.
+   */
+  @Column('jsonb', { nullable: true })
+  split: SplitTarget[] | null;
 
   @Column({ default: true })
   enabled: boolean;
 
-  @Column({ nullable: true })
-  merchant_id: string;
+  /**
+   * Owning merchant. Null for global rules — platform-wide defaults that are
+   * managed through the admin API and evaluated after the merchant's own.
+   */
+  @Column('varchar', { nullable: true })
+  @Index()
+  merchant_id: string | null;
+
+  /** Bumped on every save — recorded in routing decisions */
+  @VersionColumn({ default: 1 })
+  version: number;
 
   @CreateDateColumn()
   created_at: Date;
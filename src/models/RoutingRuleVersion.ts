@@ -0,0 +1,59 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { PSPProvider, RuleCondition, SplitTarget } from '../types/payment.types';
+
+export enum RuleChange {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  ROLLED_BACK = 'rolled_back',
+  DELETED = 'deleted'
+}
+
+/** The editable part of a routing rule, as it stood at one version */
+export interface RuleSnapshot {
+  name: string;
+  priority: number;
+  conditions: RuleCondition[];
+  target_psp: PSPProvider | null;
+  split: SplitTarget[] | null;
+  enabled: boolean;
+}
+
+/**
+ * Immutable history of a routing rule: one row per change, written in the
+ * same DB transaction as the change itself. Rows outlive the rule, so the
+ * history of a deleted rule stays readable.
+ */
+@Entity('routing_rule_versions')
+@Index(['rule_id', 'version'], { unique: true })
+export class RoutingRuleVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  rule_id: string;
+
+  /** Matches RoutingRule.version after the change */
+  @Column('int')
+  version: number;
+
+  /** Owning merchant — null for global rules */
+  @Column('varchar', { nullable: true })
+  merchant_id: string | null;
+
+  @Column({ type: 'enum', enum: RuleChange })
+  change: RuleChange;
+
+  @Column('jsonb')
+  snapshot: RuleSnapshot;
+
+  /** Who made the change — the authenticated merchant's id, or "admin" */
+  @Column('varchar')
+  author: string;
+
+  /** For rollbacks: the version that was restored */
+  @Column('int', { nullable: true })
+  restored_version: number | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
@@ -1,5 +1,6 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
-import { PaymentStatus, PaymentMethod, PSPProvider, Currency } from '../types/payment.types';
+import { PaymentStatus, PaymentMethod, PSPProvider, Currency, PSPAttempt, DeclineCode, RoutingDecision } from '../types/payment.types';
+import { minorUnitsColumn } from '../utils/currency';
 
 @Entity('transactions')
 export class Transaction {
@@ -20,7 +21,11 @@ export class Transaction {
   @Index()
   psp_transaction_id: string;
 
-  @Column('decimal', { precision: 10, scale: 2 })
+  /**
+   * Amounts on this entity are integers in the currency's minor units
+   * (halalas, fils, cents) — see utils/currency. The API speaks major units.
+   */
+  @Column('bigint', { transformer: minorUnitsColumn })
   amount: number;
 
   @Column({
@@ -53,9 +58,26 @@ export class Transaction {
   @Column('text', { nullable: true })
   description: string;
 
-  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  /**
+   * Amount actually settled with the PSP. Equals `amount` for sale payments;
+   * for authorize-only payments it stays null until captured and may be lower
+   * than `amount` after a partial capture.
+   */
+  @Column('bigint', { nullable: true, transformer: minorUnitsColumn })
+  captured_amount: number | null;
+
+  /** Running total of succeeded refunds — see the refunds table for the ledger */
+  @Column('bigint', { default: 0, transformer: minorUnitsColumn })
+  refunded_amount: number;
+
+  /** Fee charged by the PSP, as reported by it */
+  @Column('bigint', { default: 0, transformer: minorUnitsColumn })
   fee: number;
 
+  /** Fee expected from the PSP's fee schedule at routing time — null without one */
+  @Column('bigint', { nullable: true, transformer: minorUnitsColumn })
+  estimated_fee: number | null;
+
   @Column('jsonb', { nullable: true })
   metadata: Record<string, any>;
 
@@ -65,9 +87,45 @@ export class Transaction {
   @Column('text', { nullable: true })
   error_message: string;
 
+  /** Normalized decline reason (see DeclineCode) — set when the payment failed */
+  @Column('varchar', { nullable: true })
+  decline_code: DeclineCode | null;
+
+  /** The PSP's own code behind decline_code, exactly as the PSP reported it */
+  @Column('varchar', { nullable: true })
+  raw_psp_code: string | null;
+
   @Column('text', { nullable: true })
   psp_reference_number: string;
 
+  /**
+   * Merchant-owned PSP account the payment was made with. Null when it went
+   * through the platform account. Follow-up operations (refund, capture,
+   * void) must use the same account.
+   */
+  @Column('uuid', { nullable: true })
+  psp_account_id: string | null;
+
+  /**
+   * Every PSP tried for this payment, in order. More than one entry means
+   * failover cascaded to another PSP; psp_provider is the one that finally
+   * processed it.
+   */
+  @Column('jsonb', { nullable: true })
+  psp_attempts: PSPAttempt[] | null;
+
+  /** Why routing chose the PSP (matched rule, override, fallback…) */
+  @Column('jsonb', { nullable: true })
+  routing_decision: RoutingDecision | null;
+
+  /**
+   * routing_decision.rule.id, as a column so analytics can filter by rule —
+   * set only when the rule picked the PSP, not for candidate_rule
+   */
+  @Column('uuid', { nullable: true })
+  @Index()
+  routing_rule_id: string | null;
+
   @CreateDateColumn()
   created_at: Date;
 
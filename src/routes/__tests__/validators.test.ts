@@ -0,0 +1,42 @@
+import { body, validationResult } from 'express-validator';
+import { isAmountForCurrency, optionalBoolean } from '../validators';
+
+const run = async (chains: { run: (req: any) => Promise<unknown> }[], reqBody: Record<string, unknown>) => {
+  const req: any = { body: reqBody };
+  for (const chain of chains) await chain.run(req);
+  return { body: req.body, errors: validationResult(req).array() };
+};
+
+describe('optionalBoolean', () => {
+  it.each([
+    ['false', false],
+    ['0', false],
+    [false, false],
+    ['true', true],
+    [true, true]
+  ])('converts %p to %p', async (input, expected) => {
+    const { body, errors } = await run([optionalBoolean('capture')], { capture: input });
+    expect(errors).toHaveLength(0);
+    expect(body.capture).toBe(expected);
+  });
+
+  it('leaves a missing field missing', async () => {
+    const { body, errors } = await run([optionalBoolean('capture')], {});
+    expect(errors).toHaveLength(0);
+    expect(body).not.toHaveProperty('capture');
+  });
+
+  it('rejects values that are not booleans', async () => {
+    const { errors } = await run([optionalBoolean('enabled')], { enabled: 'maybe' });
+    expect(errors).toEqual([expect.objectContaining({ msg: 'enabled must be a boolean' })]);
+  });
+});
+
+describe('isAmountForCurrency', () => {
+  const amount = body('amount').custom(isAmountForCurrency);
+
+  it('accepts three decimals for KWD but not for SAR', async () => {
+    expect((await run([amount], { amount: 10.5, currency: 'KWD' })).errors).toHaveLength(0);
+    expect((await run([amount], { amount: 10.505, currency: 'SAR' })).errors).toHaveLength(1);
+  });
+});
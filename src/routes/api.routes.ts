@@ -1,13 +1,25 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { PaymentController } from '../controllers/PaymentController';
 import { WebhookController } from '../controllers/WebhookController';
 import { AnalyticsController } from '../controllers/AnalyticsController';
 import { MerchantController } from '../controllers/MerchantController';
 import { RoutingController } from '../controllers/RoutingController';
-import { authenticateApiKey } from '../middleware/auth';
+import { PSPAccountController } from '../controllers/PSPAccountController';
+import { MockPSPController } from '../controllers/MockPSPController';
+import { BinController } from '../controllers/BinController';
+import { QuotaController } from '../controllers/QuotaController';
+import { FeeScheduleController } from '../controllers/FeeScheduleController';
+import { authenticateApiKey, authenticateAdmin } from '../middleware/auth';
 import { ipWhitelistMiddleware } from '../middleware/ipWhitelist';
+import { idempotency } from '../middleware/idempotency';
 import { paymentsLimiter, analyticsLimiter } from '../middleware/rateLimiter';
-import { body } from 'express-validator';
+import { captureRawBody } from '../middleware/rawBody';
+import { connectorRegistry } from '../connectors/ConnectorRegistry';
+import { pspAccountService } from '../services/PSPAccountService';
+import { PSPProvider } from '../types/payment.types';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { body, Meta } from 'express-validator';
+import { isAmountForCurrency, optionalBoolean } from './validators';
 
 const router = Router();
 const paymentController = new PaymentController();
@@ -15,6 +27,10 @@ const webhookController = new WebhookController();
 const analyticsController = new AnalyticsController();
 const merchantController = new MerchantController();
 const routingController = new RoutingController();
+const pspAccountController = new PSPAccountController();
+const binController = new BinController();
+const quotaController = new QuotaController();
+const feeScheduleController = new FeeScheduleController();
 
 // ---------------------------------------------------------------------------
 // Shared middleware chain for authenticated merchant routes
@@ -22,9 +38,21 @@ const routingController = new RoutingController();
 //  1. authenticateApiKey  — verify key, attach req.merchant
 //  2. ipWhitelistMiddleware — check IP against merchant's allowed list
 //  3. endpoint-specific rate limiter — keyed by merchant ID (needs req.merchant)
+//  4. idempotency — on endpoints that move money; keys are per merchant
 // ---------------------------------------------------------------------------
 const merchantAuth = [authenticateApiKey, ipWhitelistMiddleware];
 
+// PSP validation is resolved per request — the enabled platform accounts plus
+// the merchant's own PSP accounts — so that newly connected or disabled
+// providers take effect without code changes here.
+const isEnabledPSP = async (value: string, { req }: Meta): Promise<boolean> => {
+  const available = await pspAccountService.getAvailableProviders(req.merchant!.id);
+  if (!available.includes(value as PSPProvider)) {
+    throw new Error(`Invalid PSP — enabled providers: ${available.join(', ')}`);
+  }
+  return true;
+};
+
 /**
  * Payment Routes (protected)
  */
@@ -34,11 +62,13 @@ router.post(
   '/payments/charge',
   ...merchantAuth,
   paymentsLimiter,
+  idempotency,
   [
-    body('amount').isNumeric().withMessage('amount is required'),
-    body('currency').isIn(['SAR', 'USD', 'AED']).withMessage('Invalid currency'),
-    body('psp').isIn(['moyasar', 'paytabs']).withMessage('psp is required: moyasar or paytabs'),
+    body('amount').isFloat({ gt: 0 }).withMessage('amount is required').bail().custom(isAmountForCurrency),
+    body('currency').isIn(SUPPORTED_CURRENCIES).withMessage('Invalid currency'),
+    body('psp').notEmpty().withMessage('psp is required').bail().custom(isEnabledPSP),
     body('token').notEmpty().withMessage('token is required (from paylib.js or mysr.js)'),
+    optionalBoolean('capture'),
     body('description').optional().isString(),
     body('customer').optional().isObject(),
     body('metadata').optional().isObject()
@@ -51,15 +81,18 @@ router.post(
   '/payments',
   ...merchantAuth,
   paymentsLimiter,
+  idempotency,
   [
-    body('amount').isNumeric().withMessage('Amount must be a number'),
-    body('currency').isIn(['SAR', 'USD', 'AED']).withMessage('Invalid currency'),
-    body('psp').optional().isIn(['moyasar', 'paytabs']).withMessage('Invalid PSP — use moyasar or paytabs'),
+    body('amount').isFloat({ gt: 0 }).withMessage('Amount must be a positive number').bail().custom(isAmountForCurrency),
+    body('currency').isIn(SUPPORTED_CURRENCIES).withMessage('Invalid currency'),
+    body('psp').optional().custom(isEnabledPSP),
     body('description').optional().isString(),
     body('source').optional().isObject(),
     body('source.type').optional().isString(),
     body('source.token').optional().isString(),
+    body('source.bin').optional().matches(/^\d{6,8}$/).withMessage('source.bin must be the first 6–8 card digits'),
     body('callback_url').optional().isURL().withMessage('callback_url must be a valid URL'),
+    optionalBoolean('capture'),
     body('metadata').optional().isObject()
   ],
   paymentController.createPayment
@@ -86,13 +119,42 @@ router.post(
   '/payments/:id/refund',
   ...merchantAuth,
   paymentsLimiter,
+  idempotency,
   [
-    body('amount').optional().isNumeric(),
-    body('reason').optional().isString()
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('amount must be a positive number'),
+    body('reason').optional().isString(),
+    body('created_by').optional().isString()
   ],
   paymentController.refundPayment
 );
 
+// List refunds issued against a payment
+router.get(
+  '/payments/:id/refunds',
+  ...merchantAuth,
+  paymentsLimiter,
+  paymentController.listRefunds
+);
+
+// Capture an authorized payment (full, or partial with amount)
+router.post(
+  '/payments/:id/capture',
+  ...merchantAuth,
+  paymentsLimiter,
+  [
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('amount must be a positive number')
+  ],
+  paymentController.capturePayment
+);
+
+// Void an authorized or unsettled payment
+router.post(
+  '/payments/:id/void',
+  ...merchantAuth,
+  paymentsLimiter,
+  paymentController.voidPayment
+);
+
 /**
  * Analytics Routes (protected)
  */
@@ -114,6 +176,53 @@ router.post(
   merchantController.rotateApiKey
 );
 
+/**
+ * Merchant PSP Accounts (protected) — merchants' own PSP credentials
+ */
+const pspAccountFields = [
+  body('credentials.api_key').optional().isString().notEmpty().withMessage('credentials.api_key must be a non-empty string'),
+  body('credentials.webhook_secret').optional().isString(),
+  // The host is checked against the account's PSP in the controller
+  body('api_url')
+    .optional()
+    .isURL({ protocols: ['https'], require_protocol: true })
+    .withMessage('api_url must be an https URL'),
+  body('options').optional().isObject().withMessage('options must be an object'),
+  optionalBoolean('enabled')
+];
+
+router.get('/psp-accounts', ...merchantAuth, pspAccountController.listAccounts);
+router.post(
+  '/psp-accounts',
+  ...merchantAuth,
+  [
+    body('psp').custom((value: string) => {
+      if (!connectorRegistry.isSupported(value)) {
+        throw new Error(`Invalid psp. Valid values: ${connectorRegistry.getSupportedProviders().join(', ')}`);
+      }
+      return true;
+    }),
+    body('credentials').isObject().withMessage('credentials is required'),
+    body('credentials.api_key').notEmpty().withMessage('credentials.api_key is required'),
+    ...pspAccountFields
+  ],
+  pspAccountController.createAccount
+);
+router.put(
+  '/psp-accounts/:id',
+  ...merchantAuth,
+  [
+    body('credentials').optional().isObject().withMessage('credentials must be an object'),
+    body('credentials.api_key')
+      .if(body('credentials').exists())
+      .notEmpty()
+      .withMessage('credentials.api_key is required when replacing credentials'),
+    ...pspAccountFields
+  ],
+  pspAccountController.updateAccount
+);
+router.delete('/psp-accounts/:id', ...merchantAuth, pspAccountController.deleteAccount);
+
 /**
  * Routing Rules (protected)
  */
@@ -122,11 +231,88 @@ router.post('/routing-rules', ...merchantAuth, routingController.createRule);
 router.post('/routing-rules/simulate', ...merchantAuth, routingController.simulateRouting);
 router.put('/routing-rules/:id', ...merchantAuth, routingController.updateRule);
 router.delete('/routing-rules/:id', ...merchantAuth, routingController.deleteRule);
+router.get('/routing-rules/:id/versions', ...merchantAuth, routingController.listVersions);
+router.get('/routing-rules/:id/diff', ...merchantAuth, routingController.diffVersions);
+router.post('/routing-rules/:id/rollback', ...merchantAuth, routingController.rollbackRule);
+router.get('/routing/settings', ...merchantAuth, routingController.getSettings);
+router.put('/routing/settings', ...merchantAuth, routingController.updateSettings);
+router.get('/routing/capabilities', ...merchantAuth, routingController.getCapabilities);
+
+/**
+ * Global Routing Rules (admin) — platform-wide defaults evaluated after each
+ * merchant's own rules. Authenticated with ADMIN_API_KEY (x-admin-key).
+ */
+router.get('/admin/routing-rules', authenticateAdmin, routingController.listRules);
+router.post('/admin/routing-rules', authenticateAdmin, routingController.createRule);
+router.put('/admin/routing-rules/:id', authenticateAdmin, routingController.updateRule);
+router.delete('/admin/routing-rules/:id', authenticateAdmin, routingController.deleteRule);
+router.get('/admin/routing-rules/:id/versions', authenticateAdmin, routingController.listVersions);
+router.get('/admin/routing-rules/:id/diff', authenticateAdmin, routingController.diffVersions);
+router.post('/admin/routing-rules/:id/rollback', authenticateAdmin, routingController.rollbackRule);
+router.get('/admin/routing/capabilities', authenticateAdmin, routingController.getCapabilities);
+
+/**
+ * PSP volume quotas — caps and committed minimums per PSP, per day or month.
+ * Merchants manage their own; admins manage platform-wide and per-merchant ones.
+ */
+router.get('/routing/quotas', ...merchantAuth, quotaController.listQuotas);
+router.post('/routing/quotas', ...merchantAuth, quotaController.createQuota);
+router.put('/routing/quotas/:id', ...merchantAuth, quotaController.updateQuota);
+router.delete('/routing/quotas/:id', ...merchantAuth, quotaController.deleteQuota);
+router.get('/admin/routing/quotas', authenticateAdmin, quotaController.listQuotas);
+router.post('/admin/routing/quotas', authenticateAdmin, quotaController.createQuota);
+router.put('/admin/routing/quotas/:id', authenticateAdmin, quotaController.updateQuota);
+router.delete('/admin/routing/quotas/:id', authenticateAdmin, quotaController.deleteQuota);
+
+/**
+ * PSP fee schedules — what each PSP charges, for cost-based routing and fee
+ * estimates. Merchants manage their own; admins manage platform-wide ones.
+ */
+router.get('/routing/fee-schedules', ...merchantAuth, feeScheduleController.listSchedules);
+router.post('/routing/fee-schedules', ...merchantAuth, feeScheduleController.createSchedule);
+router.put('/routing/fee-schedules/:id', ...merchantAuth, feeScheduleController.updateSchedule);
+router.delete('/routing/fee-schedules/:id', ...merchantAuth, feeScheduleController.deleteSchedule);
+router.get('/admin/routing/fee-schedules', authenticateAdmin, feeScheduleController.listSchedules);
+router.post('/admin/routing/fee-schedules', authenticateAdmin, feeScheduleController.createSchedule);
+router.put('/admin/routing/fee-schedules/:id', authenticateAdmin, feeScheduleController.updateSchedule);
+router.delete('/admin/routing/fee-schedules/:id', authenticateAdmin, feeScheduleController.deleteSchedule);
+
+/**
+ * BIN table (admin) — card classification for card-based routing conditions
+ */
+router.post(
+  '/admin/bins/import',
+  authenticateAdmin,
+  express.text({ type: ['text/csv', 'text/plain'], limit: '20mb' }),
+  binController.importBins
+);
+router.get('/admin/bins/:bin', authenticateAdmin, binController.lookupBin);
 
 /**
  * Webhook Routes (public — no API key auth, verified per-PSP)
  */
-router.post('/webhooks/moyasar', webhookController.handleMoyasarWebhook);
-router.post('/webhooks/paytabs', webhookController.handlePayTabsWebhook);
+// Merchants' own PSP accounts receive webhooks on /webhooks/<psp>/<account id>
+const ACCOUNT_ID = '([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})';
+const webhookPath = (psp: PSPProvider) => `/webhooks/${psp}/:accountId${ACCOUNT_ID}?`;
+
+router.post(webhookPath(PSPProvider.MOYASAR), webhookController.handleMoyasarWebhook);
+router.post(webhookPath(PSPProvider.PAYTABS), webhookController.handlePayTabsWebhook);
+router.post(webhookPath(PSPProvider.TAP), webhookController.handleTapWebhook);
+router.post(webhookPath(PSPProvider.CHECKOUT), webhookController.handleCheckoutWebhook);
+router.post(webhookPath(PSPProvider.MOCK), webhookController.handleMockWebhook);
+// HyperPay sends hex-encoded ciphertext as text/plain — parse it as text
+router.post(
+  webhookPath(PSPProvider.HYPERPAY),
+  express.text({ type: '*/*', verify: captureRawBody }),
+  webhookController.handleHyperPayWebhook
+);
+
+/**
+ * Mock PSP customer pages (public, non-production only)
+ */
+if (connectorRegistry.isEnabled(PSPProvider.MOCK)) {
+  const mockPSPController = new MockPSPController();
+  router.get('/mock-psp/3ds/:id', mockPSPController.challenge3DS);
+}
 
 export default router;
@@ -0,0 +1,24 @@
+import { body, Meta } from 'express-validator';
+import { getMinorUnits, hasValidPrecision, isSupportedCurrency } from '../utils/currency';
+
+/**
+ * Request-body validators shared by several routes in api.routes.ts.
+ */
+
+// Amounts are major units; each currency allows its own number of decimals
+// (10.500 KWD is valid, 10.505 SAR is not).
+export const isAmountForCurrency = (value: number, { req }: Meta): boolean => {
+  const currency = req.body?.currency;
+  if (!isSupportedCurrency(currency)) return true; // reported by the currency check
+  if (!hasValidPrecision(Number(value), currency)) {
+    throw new Error(`amount has too many decimal places — ${currency} allows ${getMinorUnits(currency)}`);
+  }
+  return true;
+};
+
+/**
+ * Optional boolean field. Form-encoded and string JSON values ("false", "0")
+ * are converted to real booleans, so handlers can compare with `=== false`.
+ */
+export const optionalBoolean = (field: string) =>
+  body(field).optional().isBoolean().withMessage(`${field} must be a boolean`).toBoolean(true);
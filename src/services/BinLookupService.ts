@@ -0,0 +1,233 @@
+import { AppDataSource } from '../config/database';
+import { MADA_BINS } from '../config/madaBins';
+import { CardBin, FundingType } from '../models/CardBin';
+import { PaymentSource } from '../types/payment.types';
+import { logger } from '../utils/logger';
+
+/** What routing knows about the card behind a payment */
+export interface CardInfo {
+  /** The BIN table row that matched — null when only the brand was detected */
+  bin: string | null;
+  card_brand: string | null;
+  card_scheme: string | null;
+  /** Same as card_scheme — the field name rules used before the BIN table */
+  card_type: string | null;
+  issuer_country: string | null;
+  funding_type: FundingType | null;
+}
+
+export interface BinImportResult {
+  imported: number;
+  errors: Array<{ line: number; message: string }>;
+}
+
+/** MADA_BINS as BIN table rows — mada debit cards issued in Saudi Arabia */
+const MADA_SEED: CardBin[] = MADA_BINS.map(bin => Object.assign(new CardBin(), {
+  bin,
+  // Co-branded with Visa (4…) or Mastercard (5…); the rest are mada-only
+  card_brand: bin.startsWith('4') ? 'visa' : /^5[1-5]/.test(bin) ? 'mastercard' : 'mada',
+  card_scheme: 'mada',
+  issuer_country: 'SA',
+  funding_type: FundingType.DEBIT,
+  issuer_name: null
+}));
+
+/** Reload the table at least this often, so imports on other instances show up */
+const TABLE_TTL_MS = 10 * 60 * 1000;
+const IMPORT_CHUNK = 1000;
+const CSV_COLUMNS = ['bin', 'card_brand', 'card_scheme', 'issuer_country', 'funding_type', 'issuer_name'];
+
+/**
+ * Card classification from the local BIN table (card_bins), for BIN-based
+ * routing conditions. The whole table is held in memory; lookups try the
+ * first 8, 7 and then 6 digits. The mada BINs (MADA_BINS) are built in;
+ * imported rows override them.
+ *
+ * Cards missing from the table still get a brand from the number ranges of
+ * the international schemes, without country or funding type.
+ */
+export class BinLookupService {
+  private table: Map<string, CardBin> | null = null;
+  private loadedAt = 0;
+  private loading: Promise<Map<string, CardBin>> | null = null;
+  /** Bumped by every invalidation — a load started before it is not kept */
+  private generation = 0;
+
+  private get repository() {
+    return AppDataSource.getRepository(CardBin);
+  }
+
+  /**
+   * Classify the card of a payment source — from the full number, or the
+   * `bin` a tokenized source may carry. Null when neither is present.
+   */
+  async lookup(source?: PaymentSource): Promise<CardInfo | null> {
+    return this.lookupNumber(source?.number ?? source?.bin);
+  }
+
+  /** Classify a card number or BIN prefix — null below 6 digits */
+  async lookupNumber(number?: string): Promise<CardInfo | null> {
+    const digits = String(number ?? '').replace(/\D/g, '');
+    if (digits.length < 6) return null;
+
+    const table = await this.getTable();
+    for (let length = Math.min(8, digits.length); length >= 6; length--) {
+      const row = table.get(digits.slice(0, length));
+      if (row) {
+        return {
+          bin: row.bin,
+          card_brand: row.card_brand,
+          card_scheme: row.card_scheme,
+          card_type: row.card_scheme,
+          issuer_country: row.issuer_country,
+          funding_type: row.funding_type
+        };
+      }
+    }
+
+    const brand = this.detectBrand(digits);
+    return { bin: null, card_brand: brand, card_scheme: brand, card_type: brand, issuer_country: null, funding_type: null };
+  }
+
+  /**
+   * Import BIN rows from CSV. The header row names the columns:
+   *   bin,card_brand,card_scheme,issuer_country,funding_type,issuer_name
+   * Only bin and card_brand are required; card_scheme defaults to the brand.
+   * Existing BINs are overwritten. Invalid lines are skipped and reported.
+   */
+  async importCsv(csv: string): Promise<BinImportResult> {
+    const lines = csv.split(/\r?\n/);
+    const header = this.splitCsvLine(lines[0] ?? '').map(h => h.toLowerCase());
+    if (!header.includes('bin') || !header.includes('card_brand')) {
+      throw new Error(`CSV header must include bin and card_brand (columns: ${CSV_COLUMNS.join(', ')})`);
+    }
+
+    const rows: Partial<CardBin>[] = [];
+    const errors: BinImportResult['errors'] = [];
+
+    for (let i = 1; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+      const values = this.splitCsvLine(lines[i]);
+      const field = (name: string): string => (values[header.indexOf(name)] ?? '').trim();
+
+      const bin = field('bin');
+      const brand = field('card_brand').toLowerCase();
+      const country = field('issuer_country').toUpperCase();
+      const funding = field('funding_type').toLowerCase();
+
+      if (!/^\d{6,8}$/.test(bin)) {
+        errors.push({ line: i + 1, message: `bin must be 6–8 digits, got "${bin}"` });
+        continue;
+      }
+      if (!brand) {
+        errors.push({ line: i + 1, message: 'card_brand is required' });
+        continue;
+      }
+      if (country && !/^[A-Z]{2}$/.test(country)) {
+        errors.push({ line: i + 1, message: `issuer_country must be an ISO alpha-2 code, got "${country}"` });
+        continue;
+      }
+      if (funding && !Object.values(FundingType).includes(funding as FundingType)) {
+        errors.push({ line: i + 1, message: `funding_type must be credit, debit or prepaid, got "${funding}"` });
+        continue;
+      }
+
+      rows.push({
+        bin,
+        card_brand: brand,
+        card_scheme: field('card_scheme').toLowerCase() || brand,
+        issuer_country: country || null,
+        funding_type: (funding as FundingType) || null,
+        issuer_name: field('issuer_name') || null
+      });
+    }
+
+    for (let i = 0; i < rows.length; i += IMPORT_CHUNK) {
+      await this.repository.upsert(rows.slice(i, i + IMPORT_CHUNK), ['bin']);
+    }
+    this.invalidate();
+
+    logger.info(`[bins] imported ${rows.length} BIN rows`, { errors: errors.length });
+    return { imported: rows.length, errors };
+  }
+
+  /** Force the next lookup to reload the table, even one already reloading */
+  invalidate(): void {
+    this.table = null;
+    this.loading = null;
+    this.generation++;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private async getTable(): Promise<Map<string, CardBin>> {
+    if (this.table && Date.now() - this.loadedAt < TABLE_TTL_MS) return this.table;
+
+    // One reload at a time — concurrent lookups wait for the same query
+    if (!this.loading) {
+      const generation = this.generation;
+      const loading = this.repository.find()
+        .then((rows) => {
+          const table = new Map(MADA_SEED.map(r => [r.bin, r]));
+          for (const row of rows) table.set(row.bin, row);
+          if (generation === this.generation) {
+            this.table = table;
+            this.loadedAt = Date.now();
+          }
+          return table;
+        })
+        .finally(() => {
+          if (this.loading === loading) this.loading = null;
+        });
+      this.loading = loading;
+    }
+    return this.loading;
+  }
+
+  /** Brand from the international schemes' published number ranges */
+  private detectBrand(digits: string): string | null {
+    const prefix2 = Number(digits.slice(0, 2));
+    const prefix4 = Number(digits.slice(0, 4));
+
+    if (digits.startsWith('4')) return 'visa';
+    if ((prefix2 >= 51 && prefix2 <= 55) || (prefix4 >= 2221 && prefix4 <= 2720)) return 'mastercard';
+    if (prefix2 === 34 || prefix2 === 37) return 'amex';
+    if (prefix2 === 62) return 'unionpay';
+    if (prefix4 >= 3528 && prefix4 <= 3589) return 'jcb';
+    return null;
+  }
+
+  /** Split one CSV line, honouring double-quoted fields */
+  private splitCsvLine(line: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (quoted) {
+        if (ch === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (ch === '"') {
+          quoted = false;
+        } else {
+          current += ch;
+        }
+      } else if (ch === '"') {
+        quoted = true;
+      } else if (ch === ',') {
+        values.push(current);
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    values.push(current);
+    return values.map(v => v.trim());
+  }
+}
+
+export const binLookupService = new BinLookupService();
@@ -0,0 +1,136 @@
+import { AppDataSource } from '../config/database';
+import { loadRoutingConfig } from '../config/routing';
+import { FeeRegion, PSPFeeSchedule } from '../models/PSPFeeSchedule';
+import { PaymentMethod, PaymentRequest, PSPProvider } from '../types/payment.types';
+import { CardInfo } from './BinLookupService';
+import { isSupportedCurrency, toMinorUnits } from '../utils/currency';
+import { logger } from '../utils/logger';
+
+/** Expected fee of routing one payment to one PSP */
+export interface FeeEstimate {
+  /** Minor units of the payment currency */
+  fee: number;
+  schedule_id: string;
+}
+
+interface Snapshot {
+  schedules: PSPFeeSchedule[];
+  /** Some schedule depends on the card (scheme or region) */
+  usesCard: boolean;
+  loadedAt: number;
+}
+
+/**
+ * Estimates PSP fees from PSPFeeSchedule rows, for cost-based routing and
+ * for the estimated_fee stored on each transaction.
+ *
+ * Schedules are cached in memory and reloaded after every change on this
+ * instance; other instances pick changes up after
+ * ROUTING_RULE_CACHE_TTL_SECONDS.
+ */
+export class FeeScheduleService {
+  private config = loadRoutingConfig();
+  private snapshot: Snapshot | null = null;
+  private loading: Promise<Snapshot> | null = null;
+
+  private get scheduleRepository() {
+    return AppDataSource.getRepository(PSPFeeSchedule);
+  }
+
+  /** Whether estimating needs the card's BIN lookup */
+  async usesCard(): Promise<boolean> {
+    return (await this.getSnapshot()).usesCard;
+  }
+
+  /**
+   * Expected fee at each PSP that has a matching schedule. PSPs without one
+   * are left out — their cost is unknown, not zero.
+   */
+  async estimate(
+    psps: PSPProvider[],
+    request: PaymentRequest,
+    merchantId: string | undefined,
+    card: CardInfo | null
+  ): Promise<Map<PSPProvider, FeeEstimate>> {
+    const estimates = new Map<PSPProvider, FeeEstimate>();
+    const { schedules } = await this.getSnapshot();
+    if (schedules.length === 0 || !isSupportedCurrency(request.currency)) return estimates;
+
+    const amount = toMinorUnits(Number(request.amount) || 0, request.currency);
+    const method = request.source?.type ?? PaymentMethod.CREDITCARD;
+    const scheme = card?.card_scheme?.toLowerCase() ?? (method === PaymentMethod.MADA ? 'mada' : null);
+    const region = card?.issuer_country
+      ? (card.issuer_country.toUpperCase() === this.config.domestic_country ? FeeRegion.DOMESTIC : FeeRegion.INTERNATIONAL)
+      : null;
+
+    for (const psp of psps) {
+      let best: PSPFeeSchedule | null = null;
+      let bestScore = -1;
+      for (const s of schedules) {
+        if (s.psp_provider !== psp) continue;
+        if (s.merchant_id !== null && s.merchant_id !== merchantId) continue;
+        if (s.payment_method !== null && s.payment_method !== method) continue;
+        if (s.card_scheme !== null && s.card_scheme !== scheme) continue;
+        if (s.currency !== null && s.currency !== request.currency) continue;
+        if (s.region !== null && s.region !== region) continue;
+
+        const score = this.specificity(s);
+        if (score > bestScore) {
+          best = s;
+          bestScore = score;
+        }
+      }
+
+      if (best) {
+        const fee = Math.round((amount * best.percentage) / 100) + best.fixed_fee;
+        estimates.set(psp, { fee, schedule_id: best.id });
+      }
+    }
+    return estimates;
+  }
+
+  /** Reload schedules on next use — after a schedule changes */
+  invalidate(): void {
+    this.snapshot = null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  /** A merchant's own schedule beats any platform one; then the more criteria the better */
+  private specificity(s: PSPFeeSchedule): number {
+    const criteria = [s.payment_method, s.card_scheme, s.currency, s.region].filter(c => c !== null).length;
+    return (s.merchant_id !== null ? 10 : 0) + criteria;
+  }
+
+  private async getSnapshot(): Promise<Snapshot> {
+    const maxAge = this.config.rule_cache_ttl_seconds * 1000;
+    if (this.snapshot && Date.now() - this.snapshot.loadedAt < maxAge) return this.snapshot;
+
+    // One load at a time — concurrent payments wait for the same query
+    this.loading ??= this.load().then((snapshot) => {
+      this.snapshot = snapshot;
+      return snapshot;
+    }).finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  private async load(): Promise<Snapshot> {
+    // Oldest first, so the first of equally specific schedules wins consistently
+    const schedules = await this.scheduleRepository.find({
+      where: { enabled: true },
+      order: { created_at: 'ASC' }
+    });
+    logger.debug(`[fees] fee schedules loaded: ${schedules.length}`);
+    return {
+      schedules,
+      usesCard: schedules.some(s => s.card_scheme !== null || s.region !== null),
+      loadedAt: Date.now()
+    };
+  }
+}
+
+export const feeScheduleService = new FeeScheduleService();
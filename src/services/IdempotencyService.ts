@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { LessThan } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { IdempotencyKey, IdempotencyStatus } from '../models/IdempotencyKey';
+import { logger } from '../utils/logger';
+
+/** How long a key is remembered after its first use */
+export const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A key still in progress after this belongs to a request that died (crash,
+ * deploy) — a retry takes it over. Far longer than any PSP call may take.
+ */
+export const IN_PROGRESS_TIMEOUT_MS = 5 * 60 * 1000;
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/** What to do with a request carrying an Idempotency-Key */
+export type IdempotencyClaim =
+  /** First use — handle the request, then complete() or release() the key */
+  | { outcome: 'claimed'; record: IdempotencyKey }
+  /** Already handled — send the stored response */
+  | { outcome: 'replay'; record: IdempotencyKey }
+  /** The first request with this key is still being handled */
+  | { outcome: 'in_progress' }
+  /** The key was used for a different request */
+  | { outcome: 'mismatch' };
+
+/**
+ * Idempotency-Key bookkeeping for the payment-creating endpoints.
+ *
+ * Claiming a key is a single INSERT … ON CONFLICT DO NOTHING against the
+ * (merchant_id, key) unique index, so of two concurrent requests with the
+ * same key exactly one proceeds, on whichever instance it lands. Expired keys
+ * are deleted lazily — when reused, and in an hourly sweep. So are keys left
+ * in progress for IN_PROGRESS_TIMEOUT_MS, when retried.
+ */
+export class IdempotencyService {
+  private cleanedAt = 0;
+
+  private get repository() {
+    return AppDataSource.getRepository(IdempotencyKey);
+  }
+
+  /**
+   * Stable hash of a request: method, path and body, with object keys sorted
+   * so that a retry serialising its JSON differently still matches.
+   */
+  fingerprint(method: string, path: string, body: unknown): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${method.toUpperCase()} ${path}\n${stableStringify(body ?? null)}`)
+      .digest('hex');
+  }
+
+  async claim(merchantId: string, key: string, fingerprint: string): Promise<IdempotencyClaim> {
+    this.cleanup();
+
+    // A second pass only follows deleting an expired or abandoned row
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const now = new Date();
+      const inserted = await this.repository
+        .createQueryBuilder()
+        .insert()
+        .into(IdempotencyKey)
+        .values({
+          merchant_id: merchantId,
+          key,
+          fingerprint,
+          status: IdempotencyStatus.IN_PROGRESS,
+          expires_at: new Date(now.getTime() + IDEMPOTENCY_TTL_MS)
+        })
+        .orIgnore()
+        .returning('*')
+        .execute();
+
+      if (inserted.raw.length > 0) {
+        return { outcome: 'claimed', record: this.repository.create(inserted.raw[0] as IdempotencyKey) };
+      }
+
+      const existing = await this.repository.findOne({ where: { merchant_id: merchantId, key } });
+      if (!existing) continue; // deleted in between — claim again
+
+      if (existing.expires_at <= now) {
+        await this.repository.delete({ id: existing.id, expires_at: LessThan(now) });
+        continue;
+      }
+      if (existing.fingerprint !== fingerprint) return { outcome: 'mismatch' };
+      if (existing.status === IdempotencyStatus.COMPLETED) return { outcome: 'replay', record: existing };
+
+      const abandonedBefore = new Date(now.getTime() - IN_PROGRESS_TIMEOUT_MS);
+      if (existing.created_at > abandonedBefore) return { outcome: 'in_progress' };
+      logger.warn('[idempotency] taking over a key left in progress', { merchant_id: merchantId });
+      await this.repository.delete({
+        id: existing.id,
+        status: IdempotencyStatus.IN_PROGRESS,
+        created_at: LessThan(abandonedBefore)
+      });
+    }
+    // Lost the race to another request reusing the expired or abandoned key
+    return { outcome: 'in_progress' };
+  }
+
+  /** Store the response so retries get it back */
+  async complete(record: IdempotencyKey, status: number, body: unknown): Promise<void> {
+    await this.repository.update({ id: record.id, status: IdempotencyStatus.IN_PROGRESS }, {
+      status: IdempotencyStatus.COMPLETED,
+      response_status: status,
+      response_body: body as object
+    });
+  }
+
+  /** Forget the key — the request changed nothing, so a retry may run it again */
+  async release(record: IdempotencyKey): Promise<void> {
+    await this.repository.delete({ id: record.id, status: IdempotencyStatus.IN_PROGRESS });
+  }
+
+  /** Delete expired keys — at most once an hour per instance, in the background */
+  private cleanup(): void {
+    if (Date.now() - this.cleanedAt < CLEANUP_INTERVAL_MS) return;
+    this.cleanedAt = Date.now();
+
+    this.repository
+      .delete({ expires_at: LessThan(new Date()) })
+      .then(result => {
+        if (result.affected) logger.info(`[idempotency] deleted ${result.affected} expired keys`);
+      })
+      .catch(error => logger.error('[idempotency] cleanup failed:', { message: error.message }));
+  }
+}
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+export const idempotencyService = new IdempotencyService();
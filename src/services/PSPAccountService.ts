@@ -0,0 +1,183 @@
+import { AppDataSource } from '../config/database';
+import { MerchantPSPAccount } from '../models/MerchantPSPAccount';
+import { Transaction } from '../models/Transaction';
+import { connectorRegistry } from '../connectors/ConnectorRegistry';
+import { isAllowedPSPApiUrl } from '../config/psp';
+import { PSPConnector } from '../connectors/PSPConnector';
+import { PSPConfig, PSPProvider } from '../types/payment.types';
+import { logger } from '../utils/logger';
+
+/** A connector together with the merchant account it was built from */
+export interface ResolvedConnector {
+  connector: PSPConnector;
+  /** MerchantPSPAccount id — null for the platform account */
+  account_id: string | null;
+  /** Owner of the account — null for the platform account */
+  merchant_id: string | null;
+}
+
+/**
+ * Resolves which PSP account — the merchant's own, or the platform's — serves
+ * a merchant, and builds the connectors for merchant accounts.
+ *
+ * Connectors are cached per account and rebuilt when the account's
+ * updated_at changes, so credential edits made on another instance are
+ * picked up on the next lookup.
+ */
+export class PSPAccountService {
+  private cache = new Map<string, { version: number; connector: PSPConnector }>();
+
+  private get repository() {
+    return AppDataSource.getRepository(MerchantPSPAccount);
+  }
+
+  /**
+   * Connector to use for a new payment: the merchant's enabled account for
+   * the PSP, otherwise the platform account. Throws when neither exists.
+   */
+  async getConnector(merchantId: string, provider: PSPProvider): Promise<ResolvedConnector> {
+    const account = await this.repository.findOne({
+      where: { merchant_id: merchantId, psp_provider: provider, enabled: true }
+    });
+
+    if (account) return this.resolve(account);
+    return this.platform(provider);
+  }
+
+  /**
+   * Connector for follow-up operations on an existing payment — always the
+   * account the payment was created with, even if it was disabled since.
+   */
+  async getTransactionConnector(transaction: Transaction): Promise<PSPConnector> {
+    if (!transaction.psp_account_id) {
+      return connectorRegistry.get(transaction.psp_provider);
+    }
+
+    const account = await this.repository.findOne({ where: { id: transaction.psp_account_id } });
+    if (!account) {
+      throw new Error(`PSP account ${transaction.psp_account_id} for ${transaction.psp_provider} no longer exists`);
+    }
+    return this.resolve(account).connector;
+  }
+
+  /**
+   * PSPs a merchant can be routed to: its own enabled accounts plus every
+   * enabled platform account.
+   */
+  async getAvailableProviders(merchantId: string): Promise<PSPProvider[]> {
+    const accounts = await this.repository.find({
+      where: { merchant_id: merchantId, enabled: true },
+      select: { id: true, psp_provider: true }
+    });
+
+    const providers = new Set(connectorRegistry.getEnabledProviders());
+    for (const account of accounts) {
+      if (connectorRegistry.isSupported(account.psp_provider)) providers.add(account.psp_provider);
+    }
+    return [...providers];
+  }
+
+  /**
+   * Candidate connectors for an inbound webhook, most specific first. The
+   * caller picks the first one whose verifyWebhook() accepts the request.
+   *
+   * Merchant accounts are looked up by a stored identifier, never by trying
+   * every account's secret: the account id in the webhook URL
+   * (/webhooks/<psp>/<account id>), or for PayTabs the profile_id in the
+   * body. The profile_id only picks the account — its server key must still
+   * verify the callback's signature. Webhooks without either can only belong
+   * to the platform account.
+   */
+  async getWebhookCandidates(provider: PSPProvider, body: any, accountId?: string): Promise<ResolvedConnector[]> {
+    if (accountId) {
+      const account = await this.repository.findOne({
+        where: { id: accountId, psp_provider: provider, enabled: true }
+      });
+      return account ? this.resolveAll([account]) : [];
+    }
+
+    const candidates: ResolvedConnector[] = [];
+    if (provider === PSPProvider.PAYTABS) {
+      const profileId = String(body?.merchant_info?.profile_id ?? body?.profile_id ?? '');
+      const accounts = await this.repository
+        .createQueryBuilder('account')
+        .where('account.psp_provider = :provider', { provider })
+        .andWhere('account.enabled = true')
+        .andWhere(`account.options ->> 'profile_id' = :profileId`, { profileId })
+        .getMany();
+      candidates.push(...this.resolveAll(accounts));
+    }
+
+    if (connectorRegistry.isEnabled(provider)) {
+      candidates.push(this.platform(provider));
+    }
+    return candidates;
+  }
+
+  /** Drop the cached connector of an account that was deleted */
+  invalidate(accountId: string): void {
+    this.cache.delete(accountId);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private platform(provider: PSPProvider): ResolvedConnector {
+    return { connector: connectorRegistry.get(provider), account_id: null, merchant_id: null };
+  }
+
+  private resolveAll(accounts: MerchantPSPAccount[]): ResolvedConnector[] {
+    const resolved: ResolvedConnector[] = [];
+    for (const account of accounts) {
+      try {
+        resolved.push(this.resolve(account));
+      } catch (error: any) {
+        // One broken account (e.g. its PSP is no longer supported) must not block the others
+        logger.error(`[psp-accounts] skipping account ${account.id}: ${error.message}`);
+      }
+    }
+    return resolved;
+  }
+
+  private resolve(account: MerchantPSPAccount): ResolvedConnector {
+    const version = account.updated_at.getTime();
+    let cached = this.cache.get(account.id);
+
+    if (!cached || cached.version !== version) {
+      cached = { version, connector: connectorRegistry.build(this.toPSPConfig(account)) };
+      this.cache.set(account.id, cached);
+      logger.info(`[psp-accounts] connector built for ${account.psp_provider} account ${account.id}`);
+    }
+
+    return { connector: cached.connector, account_id: account.id, merchant_id: account.merchant_id };
+  }
+
+  /**
+   * Account → connector config. Missing fields fall back to the platform
+   * defaults (e.g. the production API URL), as does an api_url that isn't
+   * one of the PSP's hosts (saved before that was validated).
+   */
+  private toPSPConfig(account: MerchantPSPAccount): PSPConfig {
+    const platform = connectorRegistry.getConfig(account.psp_provider);
+    const { api_key, webhook_secret } = account.credentials;
+
+    let apiUrl = account.api_url;
+    if (apiUrl && !isAllowedPSPApiUrl(account.psp_provider, apiUrl)) {
+      logger.warn(`[psp-accounts] ignoring api_url of account ${account.id} — not a ${account.psp_provider} API host`);
+      apiUrl = '';
+    }
+
+    return {
+      name: account.psp_provider,
+      api_key,
+      api_url: apiUrl || platform?.api_url || '',
+      // Tap signs webhooks with the secret API key itself
+      webhook_secret: webhook_secret || (account.psp_provider === PSPProvider.TAP ? api_key : undefined),
+      enabled: account.enabled,
+      options: account.options ?? {}
+    };
+  }
+}
+
+export const pspAccountService = new PSPAccountService();
@@ -0,0 +1,377 @@
+import { AppDataSource } from '../config/database';
+import { loadRoutingConfig } from '../config/routing';
+import { PSPQuota, QuotaPeriod } from '../models/PSPQuota';
+import { Transaction } from '../models/Transaction';
+import { Currency, PaymentStatus, PSPProvider } from '../types/payment.types';
+import { APPROVED_STATUSES } from './SuccessRateTracker';
+import { isSupportedCurrency, toMinorUnits } from '../utils/currency';
+import { logger } from '../utils/logger';
+
+interface Volume {
+  count: number;
+  /** Minor units */
+  amount: number;
+}
+
+/** Approved volume of one merchant × PSP × currency, this day and month */
+interface UsageRow {
+  merchant_id: string;
+  psp: PSPProvider;
+  currency: Currency;
+  day: Volume;
+  month: Volume;
+}
+
+interface Periods {
+  dayStart: Date;
+  dayEnd: Date;
+  monthStart: Date;
+  monthEnd: Date;
+}
+
+/** Volume held for a payment in flight, so concurrent payments can't overshoot a cap */
+interface Reservation {
+  merchant_id: string;
+  psp: PSPProvider;
+  currency: Currency;
+  /** Minor units */
+  amount: number;
+  expiresAt: number;
+}
+
+interface Snapshot extends Periods {
+  quotas: PSPQuota[];
+  usage: UsageRow[];
+  loadedAt: number;
+}
+
+/** What the quotas mean for routing one payment */
+export interface QuotaCheck {
+  /** PSPs this payment would push over a maximum */
+  capped: Set<PSPProvider>;
+  /** PSPs below a committed minimum — preferred */
+  belowMinimum: Set<PSPProvider>;
+}
+
+export interface QuotaUsage {
+  quota: PSPQuota;
+  period_start: Date;
+  period_end: Date;
+  used: Volume;
+  capped: boolean;
+  below_minimum: boolean;
+}
+
+/** Statuses that are a new approval — refunds and voids follow one already counted */
+const APPROVAL_STATUSES = new Set<PaymentStatus>([PaymentStatus.AUTHORIZED, PaymentStatus.PAID]);
+
+/** Statuses of a payment still waiting for the PSP's answer — its reservation is kept */
+const IN_FLIGHT_STATUSES = new Set<PaymentStatus>([PaymentStatus.PENDING, PaymentStatus.PROCESSING]);
+
+/** How long a payment's reservation outlives an unanswered payment (abandoned hosted pages) */
+const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Tracks approved volume per PSP against PSPQuota limits.
+ *
+ * Usage is counted from the transactions table every
+ * ROUTING_QUOTA_REFRESH_SECONDS — so every instance converges on the same
+ * figures — and, in between, approvals seen by this instance are added as
+ * they happen. Routing reads only the in-memory figures.
+ *
+ * A payment reserves its volume at the PSP before it is sent there
+ * (reserve()), and holds it until the PSP's answer is recorded. Concurrent
+ * payments on the same instance therefore can't all fit under the same
+ * remaining room.
+ */
+export class PSPQuotaService {
+  private config = loadRoutingConfig();
+  private snapshot: Snapshot | null = null;
+  private loading: Promise<Snapshot> | null = null;
+  /**
+   * Transactions whose approval this instance counted, this month. Kept
+   * across recounts: a recount already includes them, so a later event for
+   * the same payment (a capture, a webhook retry) must not add it again.
+   */
+  private recorded = new Set<string>();
+  private recordedMonth = 0;
+  /** Payments in flight, by transaction id */
+  private reservations = new Map<string, Reservation>();
+
+  private get quotaRepository() {
+    return AppDataSource.getRepository(PSPQuota);
+  }
+
+  private get transactionRepository() {
+    return AppDataSource.getRepository(Transaction);
+  }
+
+  /**
+   * Which PSPs a payment must skip (it would exceed a maximum) and which are
+   * preferred (below a minimum), under the platform's and the merchant's
+   * quotas.
+   */
+  async check(merchantId: string | undefined, amount: number, currency: string): Promise<QuotaCheck> {
+    const snapshot = await this.getSnapshot();
+    const result: QuotaCheck = { capped: new Set(), belowMinimum: new Set() };
+    const minor = isSupportedCurrency(currency) ? toMinorUnits(Number(amount) || 0, currency) : 0;
+
+    for (const quota of this.applicable(snapshot, merchantId)) {
+      if (this.exceeds(snapshot, quota, minor, currency)) result.capped.add(quota.psp_provider);
+      if (this.isBelowMinimum(quota, this.usageOf(snapshot, quota))) result.belowMinimum.add(quota.psp_provider);
+    }
+
+    // A PSP that is capped under any quota is not preferred under another
+    for (const psp of result.capped) result.belowMinimum.delete(psp);
+    return result;
+  }
+
+  /**
+   * Hold the payment's volume at its PSP (transaction.psp_provider) until its
+   * outcome is recorded. Returns false, reserving nothing, when the payment
+   * no longer fits under one of the PSP's maximums — payments in flight
+   * since routing took the room. A second reservation for the same
+   * transaction (failover) replaces the first.
+   */
+  async reserve(transaction: Transaction): Promise<boolean> {
+    const snapshot = await this.getSnapshot();
+    this.reservations.delete(transaction.id);
+    this.pruneReservations();
+
+    const { merchant_id, psp_provider: psp, amount, currency } = transaction;
+    const quotas = this.applicable(snapshot, merchant_id).filter(q => q.psp_provider === psp);
+    if (quotas.some(q => this.exceeds(snapshot, q, amount, currency))) return false;
+
+    this.reservations.set(transaction.id, {
+      merchant_id,
+      psp,
+      currency,
+      amount,
+      expiresAt: Date.now() + RESERVATION_TTL_MS
+    });
+    return true;
+  }
+
+  /**
+   * Current usage against each quota: the merchant's own and the platform's
+   * (merchantId given), or every quota (admin).
+   */
+  async getUsage(merchantId?: string): Promise<QuotaUsage[]> {
+    const snapshot = await this.getSnapshot(true);
+    const quotas = merchantId ? this.applicable(snapshot, merchantId) : snapshot.quotas;
+
+    return quotas.map((quota) => {
+      const used = this.usageOf(snapshot, quota, false);
+      const daily = quota.period === QuotaPeriod.DAY;
+      return {
+        quota,
+        period_start: daily ? snapshot.dayStart : snapshot.monthStart,
+        period_end: daily ? snapshot.dayEnd : snapshot.monthEnd,
+        used,
+        capped: (quota.max_count !== null && used.count >= quota.max_count) ||
+          (quota.max_amount !== null && used.amount >= quota.max_amount),
+        below_minimum: this.isBelowMinimum(quota, used)
+      };
+    });
+  }
+
+  /**
+   * Record a payment's outcome: an approval is counted now rather than at
+   * the next recount, once per transaction, in the day and month it was
+   * created in. Any outcome but "still waiting" ends the payment's reservation.
+   */
+  recordTransaction(transaction: Transaction): void {
+    if (!IN_FLIGHT_STATUSES.has(transaction.status)) this.reservations.delete(transaction.id);
+
+    if (!this.snapshot || !APPROVAL_STATUSES.has(transaction.status)) return;
+    if (this.recorded.has(transaction.id)) return;
+    if (transaction.created_at && transaction.created_at < this.snapshot.monthStart) return;
+    this.recorded.add(transaction.id);
+
+    let row = this.snapshot.usage.find(r =>
+      r.merchant_id === transaction.merchant_id &&
+      r.psp === transaction.psp_provider &&
+      r.currency === transaction.currency
+    );
+    if (!row) {
+      row = {
+        merchant_id: transaction.merchant_id,
+        psp: transaction.psp_provider,
+        currency: transaction.currency,
+        day: { count: 0, amount: 0 },
+        month: { count: 0, amount: 0 }
+      };
+      this.snapshot.usage.push(row);
+    }
+    // Bucketed by created_at, like the recount — a payment from before
+    // midnight approved after it counts towards its own day
+    const today = !transaction.created_at || transaction.created_at >= this.snapshot.dayStart;
+    for (const volume of today ? [row.day, row.month] : [row.month]) {
+      volume.count++;
+      volume.amount += transaction.amount;
+    }
+  }
+
+  /** Drop a payment's reservation — it won't reach the PSP it reserved at */
+  release(transactionId: string): void {
+    this.reservations.delete(transactionId);
+  }
+
+  /** Reload quotas (and recount usage) on next use — after a quota changes */
+  invalidate(): void {
+    this.snapshot = null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private applicable(snapshot: Snapshot, merchantId?: string): PSPQuota[] {
+    return snapshot.quotas.filter(q => q.merchant_id === null || q.merchant_id === merchantId);
+  }
+
+  /**
+   * Volume counted against a quota — amounts only in the quota's currency.
+   * Payments in flight count too, unless `withReserved` is false.
+   */
+  private usageOf(snapshot: Snapshot, quota: PSPQuota, withReserved = true): Volume {
+    const used: Volume = { count: 0, amount: 0 };
+    const add = (row: { merchant_id: string; psp: PSPProvider; currency: Currency }, volume: Volume) => {
+      if (row.psp !== quota.psp_provider) return;
+      if (quota.merchant_id !== null && row.merchant_id !== quota.merchant_id) return;
+      used.count += volume.count;
+      if (row.currency === quota.currency) used.amount += volume.amount;
+    };
+
+    for (const row of snapshot.usage) add(row, quota.period === QuotaPeriod.DAY ? row.day : row.month);
+    if (withReserved) {
+      for (const reservation of this.reservations.values()) {
+        if (reservation.expiresAt > Date.now()) add(reservation, { count: 1, amount: reservation.amount });
+      }
+    }
+    return used;
+  }
+
+  /** True when one more payment of `amount` (minor units) would go over a maximum */
+  private exceeds(snapshot: Snapshot, quota: PSPQuota, amount: number, currency: string): boolean {
+    const used = this.usageOf(snapshot, quota);
+    return (quota.max_count !== null && used.count + 1 > quota.max_count) ||
+      (quota.max_amount !== null && quota.currency === currency && used.amount + amount > quota.max_amount);
+  }
+
+  private pruneReservations(): void {
+    const now = Date.now();
+    for (const [id, reservation] of this.reservations) {
+      if (reservation.expiresAt <= now) this.reservations.delete(id);
+    }
+  }
+
+  private isBelowMinimum(quota: PSPQuota, used: Volume): boolean {
+    return (quota.min_count !== null && used.count < quota.min_count) ||
+      (quota.min_amount !== null && used.amount < quota.min_amount);
+  }
+
+  /** `fresh` forces a recount when the snapshot is older than a few seconds */
+  private async getSnapshot(fresh = false): Promise<Snapshot> {
+    const maxAge = fresh ? 5_000 : this.config.quota_refresh_seconds * 1000;
+    // A new day (or month) starts from zero — recount rather than wait
+    const current = this.snapshot &&
+      Date.now() - this.snapshot.loadedAt < maxAge &&
+      Date.now() < this.snapshot.dayEnd.getTime();
+    if (current) return this.snapshot!;
+
+    // One load at a time — concurrent payments wait for the same queries
+    this.loading ??= this.load().then((snapshot) => {
+      this.snapshot = snapshot;
+      // A new month's recount starts from zero — only then are approvals forgotten
+      if (snapshot.monthStart.getTime() !== this.recordedMonth) {
+        this.recorded.clear();
+        this.recordedMonth = snapshot.monthStart.getTime();
+      }
+      return snapshot;
+    }).finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  private async load(): Promise<Snapshot> {
+    const periods = this.periods(new Date());
+    const { dayStart, monthStart } = periods;
+
+    const [quotas, rows] = await Promise.all([
+      this.quotaRepository.find({ where: { enabled: true } }),
+      this.transactionRepository
+        .createQueryBuilder('t')
+        .select('t.merchant_id', 'merchant_id')
+        .addSelect('t.psp_provider', 'psp')
+        .addSelect('t.currency', 'currency')
+        .addSelect('COUNT(*)', 'month_count')
+        .addSelect('COALESCE(SUM(t.amount), 0)', 'month_amount')
+        .addSelect('COUNT(*) FILTER (WHERE t.created_at >= :dayStart)', 'day_count')
+        .addSelect('COALESCE(SUM(t.amount) FILTER (WHERE t.created_at >= :dayStart), 0)', 'day_amount')
+        .where('t.created_at >= :monthStart', { monthStart })
+        .andWhere('t.status IN (:...approved)', { approved: [...APPROVED_STATUSES] })
+        .setParameter('dayStart', dayStart)
+        .groupBy('t.merchant_id')
+        .addGroupBy('t.psp_provider')
+        .addGroupBy('t.currency')
+        .getRawMany()
+    ]);
+
+    const usage: UsageRow[] = rows.map(row => ({
+      merchant_id: row.merchant_id,
+      psp: row.psp,
+      currency: row.currency,
+      day: { count: parseInt(row.day_count, 10), amount: Number(row.day_amount) },
+      month: { count: parseInt(row.month_count, 10), amount: Number(row.month_amount) }
+    }));
+
+    logger.debug(`[quotas] usage recounted: ${quotas.length} quotas, ${usage.length} usage rows`);
+    return { ...periods, quotas, usage, loadedAt: Date.now() };
+  }
+
+  /** Current day and month in ROUTING_TIMEZONE, as [start, end) instants */
+  private periods(now: Date): Periods {
+    const { year, month, day } = this.wallClock(now);
+    return {
+      dayStart: this.midnight(year, month, day),
+      dayEnd: this.midnight(year, month, day + 1),
+      monthStart: this.midnight(year, month, 1),
+      monthEnd: this.midnight(year, month + 1, 1)
+    };
+  }
+
+  /** Local midnight in ROUTING_TIMEZONE — month and day may overflow, as with Date.UTC */
+  private midnight(year: number, month: number, day: number): Date {
+    const asUtc = Date.UTC(year, month - 1, day);
+    const { year: y, month: m, day: d, hour, minute, second } = this.wallClock(new Date(asUtc));
+    // Wall-clock time read as if it were UTC, minus the real instant
+    const offset = Date.UTC(y, m - 1, d, hour, minute, second) - asUtc;
+    return new Date(asUtc - offset);
+  }
+
+  private wallClock(at: Date): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.config.timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    }).formatToParts(at);
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    return {
+      year: get('year'),
+      month: get('month'),
+      day: get('day'),
+      hour: get('hour'),
+      minute: get('minute'),
+      second: get('second')
+    };
+  }
+}
+
+export const pspQuotaService = new PSPQuotaService();
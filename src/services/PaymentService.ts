@@ -1,101 +1,177 @@
 import { AppDataSource } from '../config/database';
 import { Transaction } from '../models/Transaction';
-import { MoyasarConnector } from '../connectors/MoyasarConnector';
-import { PayTabsConnector } from '../connectors/PayTabsConnector';
-import { RoutingService } from './RoutingService';
+import { Merchant } from '../models/Merchant';
+import { Refund, RefundStatus } from '../models/Refund';
+import { PSPConnector } from '../connectors/PSPConnector';
+import { PSPError } from '../connectors/PSPError';
+import { loadFailoverConfig } from '../config/failover';
+import { RoutingError, routingService } from './RoutingService';
+import { webhookQueue } from './WebhookQueue';
+import { pspAccountService } from './PSPAccountService';
+import { successRateTracker } from './SuccessRateTracker';
+import { pspQuotaService } from './PSPQuotaService';
+import { refundLedger } from './RefundLedger';
 import {
   PaymentRequest,
   PaymentResponse,
   RefundRequest,
   RefundResponse,
+  CaptureRequest,
   PSPProvider,
   PaymentStatus,
-  PaymentMethod
+  PaymentMethod,
+  PSPAttempt,
+  DeclineCode
 } from '../types/payment.types';
 import { logger } from '../utils/logger';
+import { toMinorUnits, fromMinorUnits, hasValidPrecision, getMinorUnits } from '../utils/currency';
 
 export class PaymentService {
   private transactionRepository = AppDataSource.getRepository(Transaction);
-  private moyasarConnector: MoyasarConnector;
-  private payTabsConnector: PayTabsConnector;
-  private routingService = new RoutingService();
-
-  constructor() {
-    const moyasarKey = process.env.MOYASAR_API_KEY || '';
-    const paytabsKey = process.env.PAYTABS_SERVER_KEY || '';
-
-    // Startup diagnostic — confirms PSP credentials are loaded (never logs full keys)
-    logger.info('[psp-init] Moyasar key loaded', {
-      present: !!moyasarKey,
-      length: moyasarKey.length,
-      prefix: moyasarKey ? moyasarKey.substring(0, 10) + '...' : 'MISSING',
-      expected_format: moyasarKey.startsWith('sk_test_') || moyasarKey.startsWith('sk_live_') ? 'OK' : 'WARNING: expected sk_test_ or sk_live_ prefix'
-    });
-
-    logger.info('[psp-init] PayTabs key loaded', {
-      present: !!paytabsKey,
-      length: paytabsKey.length,
-      prefix: paytabsKey ? paytabsKey.substring(0, 8) + '...' : 'MISSING',
-      profile_id: process.env.PAYTABS_PROFILE_ID || 'MISSING'
-    });
-
-    this.moyasarConnector = new MoyasarConnector(
-      moyasarKey,
-      process.env.MOYASAR_API_URL || 'https://api.moyasar.com/v1'
-    );
-
-    this.payTabsConnector = new PayTabsConnector(
-      paytabsKey,
-      parseInt(process.env.PAYTABS_PROFILE_ID || '0'),
-      process.env.PAYTABS_API_URL || 'https://secure.paytabs.sa'
-    );
-  }
+  private merchantRepository = AppDataSource.getRepository(Merchant);
+  private refundRepository = AppDataSource.getRepository(Refund);
+  private failoverConfig = loadFailoverConfig();
 
   /**
-   * Create a new payment through the orchestration platform
+   * Create a new payment through the orchestration platform.
+   *
+   * With failover enabled, a payment that fails on one PSP because of an
+   * outage (network error / 5xx) or a configured soft-decline code is retried
+   * on the next candidate from the routing result. Failover never applies
+   * when the merchant forced a PSP, or when the source can't be replayed at
+   * another PSP (raw card data, PSP-bound tokens).
    */
   async createPayment(merchantId: string, request: PaymentRequest): Promise<PaymentResponse> {
-    const selectedPSP = await this.selectPSP(request);
-    const connector = this.getPSPConnector(selectedPSP);
+    this.assertPrecision('Amount', request.amount, request.currency);
+
+    const route = await routingService.route(request, merchantId);
+
+    // Routing already left out PSPs that can't process this payment
+    // (e.g. authorize-only at a PSP without capture)
+    const candidates = (this.isFailoverEligible(request) ? route.candidates : [route.psp])
+      .slice(0, this.failoverConfig.max_attempts);
 
     // Pre-save a PENDING record before calling the PSP.
     // This guarantees a local record exists even if the PSP call succeeds
     // but the subsequent DB update fails — enabling reconciliation either way.
     const transaction = this.transactionRepository.create({
       merchant_id: merchantId,
-      psp_provider: selectedPSP,
-      amount: request.amount,
+      psp_provider: candidates[0],
+      amount: toMinorUnits(request.amount, request.currency),
       currency: request.currency,
       status: PaymentStatus.PENDING,
       payment_method: (request.source?.type as PaymentMethod) || PaymentMethod.CREDITCARD,
       description: request.description,
       metadata: request.metadata,
-      callback_url: request.callback_url
+      callback_url: request.callback_url,
+      psp_attempts: [],
+      routing_decision: route.decision,
+      routing_rule_id: route.decision.rule?.id ?? null,
+      estimated_fee: route.fees.get(candidates[0])?.fee ?? null
     });
     await this.transactionRepository.save(transaction);
 
-    logger.info(`Creating payment via ${selectedPSP} for merchant ${merchantId} [txn: ${transaction.id}]`);
-
     // Call the PSP — this cannot be wrapped in a DB transaction because
     // external HTTP calls can't be rolled back.
-    let pspResponse: PaymentResponse;
-    try {
-      pspResponse = await connector.createPayment(request);
-    } catch (pspError: any) {
-      // PSP rejected the payment — mark our record FAILED and surface the error.
-      transaction.status = PaymentStatus.FAILED;
-      transaction.error_message = pspError.response?.data?.message || pspError.message;
-      await this.transactionRepository.save(transaction);
+    let pspResponse: PaymentResponse | undefined;
+    for (let i = 0; i < candidates.length; i++) {
+      const psp = candidates[i];
+      const hasNext = i < candidates.length - 1;
+      transaction.psp_provider = psp;
+      transaction.estimated_fee = route.fees.get(psp)?.fee ?? null;
+
+      logger.info(`Creating payment via ${psp} for merchant ${merchantId} [txn: ${transaction.id}, attempt ${i + 1}/${candidates.length}]`);
+
+      // Payments in flight since routing may have used up a volume cap
+      if (!(await pspQuotaService.reserve(transaction))) {
+        this.recordAttempt(transaction, psp, { status: PaymentStatus.FAILED, error: 'Volume cap reached' });
+        if (hasNext) {
+          logger.warn(`[failover] ${psp} reached its volume cap — trying ${candidates[i + 1]}`);
+          continue;
+        }
+        transaction.status = PaymentStatus.FAILED;
+        transaction.error_message = `PSP provider has reached its volume cap: ${psp}`;
+        await this.transactionRepository.save(transaction);
+        throw new RoutingError(transaction.error_message);
+      }
+
+      try {
+        const { connector, account_id } = await pspAccountService.getConnector(merchantId, psp);
+        transaction.psp_account_id = account_id;
+        const response = await connector.createPayment(request);
+        successRateTracker.recordTransaction(transaction, psp, response.status);
+        this.recordAttempt(transaction, psp, {
+          status: response.status,
+          psp_transaction_id: response.id,
+          response_code: response.response_code,
+          decline_code: response.decline_code
+        });
+
+        if (
+          response.status === PaymentStatus.FAILED &&
+          hasNext &&
+          this.isSoftDecline(psp, response.response_code, response.decline_code)
+        ) {
+          logger.warn(`[failover] soft decline on ${psp} (${response.response_code}) — trying ${candidates[i + 1]}`);
+          await this.transactionRepository.save(transaction);
+          continue;
+        }
+
+        pspResponse = response;
+        break;
+      } catch (pspError: any) {
+        const message = pspError.response?.data?.message || pspError.message;
+        const isPSPError = pspError instanceof PSPError;
+        // Our own bad requests say nothing about the PSP's health
+        if (isPSPError && pspError.declineCode !== DeclineCode.INVALID_REQUEST) {
+          successRateTracker.recordTransaction(transaction, psp, PaymentStatus.FAILED);
+        }
+        this.recordAttempt(transaction, psp, {
+          status: PaymentStatus.FAILED,
+          response_code: isPSPError ? pspError.code : undefined,
+          decline_code: isPSPError ? pspError.declineCode : undefined,
+          error: message
+        });
+
+        if (hasNext && this.isRetryableError(psp, pspError)) {
+          logger.warn(`[failover] ${psp} failed (${message}) — trying ${candidates[i + 1]}`);
+          await this.transactionRepository.save(transaction);
+          continue;
+        }
 
-      throw new Error(transaction.error_message || 'Failed to create payment');
+        // PSP rejected the payment — mark our record FAILED and surface the error.
+        // PSPErrors are rethrown as-is so the API can return their decline code.
+        transaction.status = PaymentStatus.FAILED;
+        transaction.error_message = message;
+        if (isPSPError) {
+          transaction.decline_code = pspError.declineCode;
+          transaction.raw_psp_code = pspError.code ?? null;
+        }
+        pspQuotaService.release(transaction.id);
+        await this.transactionRepository.save(transaction);
+
+        if (isPSPError) throw pspError;
+        throw new Error(transaction.error_message || 'Failed to create payment');
+      }
     }
 
     // Update the pre-created record with the PSP result.
+    const finalPSP = transaction.psp_provider;
     try {
-      transaction.psp_transaction_id = pspResponse.id;
-      transaction.status = pspResponse.status;
-      transaction.card_brand = pspResponse.source?.company;
-      transaction.card_last_four = pspResponse.source?.number?.slice(-4);
+      transaction.psp_transaction_id = pspResponse!.id;
+      transaction.status = pspResponse!.status;
+      transaction.card_brand = pspResponse!.source?.company;
+      transaction.card_last_four = pspResponse!.source?.number?.slice(-4);
+      if (pspResponse!.status === PaymentStatus.PAID) {
+        transaction.captured_amount = transaction.amount;
+      }
+      if (pspResponse!.fee !== undefined) {
+        transaction.fee = toMinorUnits(pspResponse!.fee, transaction.currency);
+      }
+      if (pspResponse!.status === PaymentStatus.FAILED) {
+        transaction.decline_code = pspResponse!.decline_code ?? DeclineCode.GENERIC_DECLINE;
+        transaction.raw_psp_code = pspResponse!.response_code ?? null;
+      }
       await this.transactionRepository.save(transaction);
     } catch (dbError: any) {
       // The payment went through at the PSP but we couldn't persist the result.
@@ -103,30 +179,42 @@ export class PaymentService {
       // for automated or manual reconciliation.
       logger.error('CRITICAL: PSP payment created but DB update failed — reconciliation required', {
         internal_transaction_id: transaction.id,
-        psp_transaction_id: pspResponse.id,
-        psp_provider: selectedPSP,
+        psp_transaction_id: pspResponse!.id,
+        psp_provider: finalPSP,
         merchant_id: merchantId,
         error: dbError.message
       });
       // Still return success — the payment did go through at the PSP.
     }
 
-    logger.info(`Payment created: internal=${transaction.id} psp=${pspResponse.id}`);
-    return { ...pspResponse, id: transaction.id };
+    pspQuotaService.recordTransaction(transaction);
+
+    logger.info(`Payment created: internal=${transaction.id} psp=${pspResponse!.id} via ${finalPSP}`, {
+      attempts: transaction.psp_attempts?.length
+    });
+    return {
+      ...pspResponse!,
+      id: transaction.id,
+      psp_provider: finalPSP,
+      decline_code: transaction.decline_code ?? undefined,
+      estimated_fee: transaction.estimated_fee === null
+        ? undefined
+        : fromMinorUnits(transaction.estimated_fee, transaction.currency)
+    };
   }
 
   /**
-   * Get payment status by our internal transaction ID
+   * Get the status of one of the merchant's payments by our internal transaction ID
    */
-  async getPayment(transactionId: string): Promise<PaymentResponse> {
+  async getPayment(merchantId: string, transactionId: string): Promise<PaymentResponse> {
     try {
       // Accept either our Railway UUID or the PSP's own transaction ID.
       // This lets the frontend use the Moyasar callback ?id= param directly
       // without having to store our internal ID separately.
       const transaction = await this.transactionRepository.findOne({
         where: [
-          { id: transactionId },
-          { psp_transaction_id: transactionId }
+          { id: transactionId, merchant_id: merchantId },
+          { psp_transaction_id: transactionId, merchant_id: merchantId }
         ]
       });
 
@@ -135,18 +223,29 @@ export class PaymentService {
       }
 
       // Get latest status from PSP
-      const connector = this.getPSPConnector(transaction.psp_provider);
+      const connector = await this.getPSPConnector(transaction);
       const pspResponse = await connector.getPayment(transaction.psp_transaction_id);
 
-      // Update transaction status if changed
-      if (pspResponse.status !== transaction.status) {
+      // Update transaction status (and the PSP's fee, once known) if changed
+      const fee = pspResponse.fee !== undefined ? toMinorUnits(pspResponse.fee, transaction.currency) : transaction.fee;
+      if (pspResponse.status !== transaction.status || fee !== transaction.fee) {
         transaction.status = pspResponse.status;
+        transaction.fee = fee;
+        if (pspResponse.status === PaymentStatus.FAILED) {
+          transaction.decline_code = pspResponse.decline_code ?? DeclineCode.GENERIC_DECLINE;
+          transaction.raw_psp_code = pspResponse.response_code ?? null;
+        }
         await this.transactionRepository.save(transaction);
       }
 
       return {
         ...pspResponse,
-        id: transaction.id
+        id: transaction.id,
+        estimated_fee: transaction.estimated_fee === null
+          ? undefined
+          : fromMinorUnits(transaction.estimated_fee, transaction.currency),
+        decline_code: pspResponse.decline_code ?? transaction.decline_code ?? undefined,
+        routing: transaction.routing_decision ?? undefined
       };
     } catch (error: any) {
       logger.error('Error getting payment:', {
@@ -157,77 +256,378 @@ export class PaymentService {
   }
 
   /**
-   * Refund a payment
+   * Refund a payment (full or partial). A payment may be refunded several
+   * times until the captured amount is exhausted.
+   *
+   * The refund is reserved as a PENDING ledger row under a row lock on the
+   * transaction before the PSP is called, so concurrent refunds can never
+   * together exceed the captured amount. The PSP call itself happens outside
+   * the DB transaction — external HTTP calls can't be rolled back.
    */
   async refundPayment(
+    merchantId: string,
     transactionId: string,
     refundRequest?: RefundRequest
   ): Promise<RefundResponse> {
+    try {
+      const { transaction, refund } = await AppDataSource.transaction(async (manager) => {
+        const transaction = await manager.findOne(Transaction, {
+          where: { id: transactionId, merchant_id: merchantId },
+          lock: { mode: 'pessimistic_write' }
+        });
+
+        if (!transaction) {
+          throw new Error('Transaction not found');
+        }
+
+        if (![PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED].includes(transaction.status)) {
+          throw new Error('Only paid transactions can be refunded');
+        }
+
+        // All ledger arithmetic is in integer minor units — no float drift
+        const refundable =
+          this.capturedAmount(transaction) -
+          await refundLedger.reservedAmount(manager, transaction.id);
+
+        if (refundRequest?.amount !== undefined) {
+          this.assertPrecision('Refund amount', refundRequest.amount, transaction.currency);
+        }
+        const amount = refundRequest?.amount !== undefined
+          ? toMinorUnits(refundRequest.amount, transaction.currency)
+          : refundable;
+
+        if (amount <= 0 || amount > refundable) {
+          throw new Error(
+            `Refund amount exceeds refundable balance ` +
+            `(${fromMinorUnits(refundable, transaction.currency)} ${transaction.currency})`
+          );
+        }
+
+        const refund = manager.create(Refund, {
+          transaction_id: transaction.id,
+          merchant_id: merchantId,
+          amount,
+          currency: transaction.currency,
+          reason: refundRequest?.reason,
+          created_by: refundRequest?.created_by || merchantId,
+          status: RefundStatus.PENDING
+        });
+        await manager.save(refund);
+
+        return { transaction, refund };
+      });
+
+      // Process refund with PSP — always pass an explicit amount so a
+      // "full" refund after earlier partials only refunds the remainder.
+      let pspRefund: RefundResponse;
+      try {
+        const connector = await this.getPSPConnector(transaction);
+        pspRefund = await connector.refundPayment(transaction.psp_transaction_id, {
+          amount: fromMinorUnits(refund.amount, refund.currency),
+          reason: refund.reason
+        });
+      } catch (pspError: any) {
+        refund.status = RefundStatus.FAILED;
+        refund.error_message = pspError.response?.data?.message || pspError.message;
+        await this.refundRepository.save(refund);
+        throw pspError;
+      }
+
+      // Settle the refund and re-derive the totals under a fresh lock — a
+      // PSP webhook for this refund may be applying at the same time
+      refund.psp_refund_id = pspRefund.id;
+      refund.status = pspRefund.status === 'failed' ? RefundStatus.FAILED : RefundStatus.SUCCEEDED;
+      const updated = await AppDataSource.transaction(async (manager) => {
+        const locked = await manager.findOneOrFail(Transaction, {
+          where: { id: transaction.id },
+          lock: { mode: 'pessimistic_write' }
+        });
+        await manager.save(refund);
+        return refundLedger.recalculate(manager, locked);
+      });
+
+      if (refund.status === RefundStatus.FAILED) {
+        throw new Error('Refund was declined by the PSP');
+      }
+
+      logger.info(`Payment refunded: ${transactionId}`, {
+        refund_id: refund.id,
+        amount: fromMinorUnits(refund.amount, refund.currency),
+        refunded_total: fromMinorUnits(updated.refunded_amount, updated.currency)
+      });
+
+      return this.toRefundResponse(refund);
+    } catch (error: any) {
+      logger.error('Error refunding payment:', {
+        message: error.message,
+        status: error.response?.status
+      });
+      if (error instanceof PSPError) throw error;
+      throw new Error(
+        error.response?.data?.message || 
+        error.message || 
+        'Failed to refund payment'
+      );
+    }
+  }
+
+  /**
+   * List the refunds issued against a merchant's transaction, newest first
+   */
+  async getRefunds(merchantId: string, transactionId: string): Promise<RefundResponse[]> {
+    const transaction = await this.transactionRepository.findOne({
+      where: { id: transactionId, merchant_id: merchantId }
+    });
+
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    const refunds = await this.refundRepository.find({
+      where: { transaction_id: transaction.id },
+      order: { created_at: 'DESC' }
+    });
+
+    return refunds.map(r => this.toRefundResponse(r));
+  }
+
+  /**
+   * Capture an authorized payment (full or partial).
+   * Only the owning merchant may capture, and only while AUTHORIZED.
+   */
+  async capturePayment(
+    merchantId: string,
+    transactionId: string,
+    captureRequest?: CaptureRequest
+  ): Promise<PaymentResponse> {
     try {
       const transaction = await this.transactionRepository.findOne({
-        where: { id: transactionId }
+        where: { id: transactionId, merchant_id: merchantId }
       });
 
       if (!transaction) {
         throw new Error('Transaction not found');
       }
 
-      if (transaction.status !== PaymentStatus.PAID) {
-        throw new Error('Only paid transactions can be refunded');
+      if (transaction.status !== PaymentStatus.AUTHORIZED) {
+        throw new Error('Only authorized transactions can be captured');
+      }
+
+      if (captureRequest?.amount !== undefined) {
+        this.assertPrecision('Capture amount', captureRequest.amount, transaction.currency);
+      }
+      const captureAmount = captureRequest?.amount !== undefined
+        ? toMinorUnits(captureRequest.amount, transaction.currency)
+        : transaction.amount;
+      if (captureAmount <= 0 || captureAmount > transaction.amount) {
+        throw new Error(
+          `Capture amount must be between 0 and the authorized amount ` +
+          `(${fromMinorUnits(transaction.amount, transaction.currency)} ${transaction.currency})`
+        );
       }
 
-      // Process refund with PSP
-      const connector = this.getPSPConnector(transaction.psp_provider);
-      const refundResponse = await connector.refundPayment(
+      const connector = await this.getPSPConnector(transaction);
+      if (!connector.getCapabilities().supports_capture) {
+        throw new Error(`${transaction.psp_provider} does not support capture`);
+      }
+
+      const pspResponse = await connector.capturePayment(
         transaction.psp_transaction_id,
-        refundRequest
+        captureRequest?.amount
       );
 
-      // Update transaction status
-      const refundAmount = refundRequest?.amount || transaction.amount;
-      if (refundAmount >= transaction.amount) {
-        transaction.status = PaymentStatus.REFUNDED;
-      } else {
-        transaction.status = PaymentStatus.PARTIALLY_REFUNDED;
+      transaction.status = pspResponse.status;
+      if (pspResponse.status === PaymentStatus.PAID || pspResponse.status === PaymentStatus.PROCESSING) {
+        transaction.captured_amount = captureAmount;
       }
       await this.transactionRepository.save(transaction);
 
-      logger.info(`Payment refunded: ${transactionId}`);
+      logger.info(
+        `Payment captured: ${transactionId} ` +
+        `amount=${fromMinorUnits(captureAmount, transaction.currency)} status=${pspResponse.status}`
+      );
 
-      return refundResponse;
+      return { ...pspResponse, id: transaction.id };
     } catch (error: any) {
-      logger.error('Error refunding payment:', {
+      logger.error('Error capturing payment:', {
         message: error.message,
         status: error.response?.status
       });
+      if (error instanceof PSPError) throw error;
       throw new Error(
-        error.response?.data?.message || 
-        error.message || 
-        'Failed to refund payment'
+        error.response?.data?.message ||
+        error.message ||
+        'Failed to capture payment'
       );
     }
   }
 
-  private async selectPSP(request: PaymentRequest): Promise<PSPProvider> {
-    return this.routingService.selectPSP(request);
+  /**
+   * Void an authorized or not-yet-settled payment.
+   * Only the owning merchant may void, and only while AUTHORIZED or PAID —
+   * the PSP rejects voids on payments that have already settled.
+   */
+  async voidPayment(merchantId: string, transactionId: string): Promise<PaymentResponse> {
+    try {
+      const transaction = await this.transactionRepository.findOne({
+        where: { id: transactionId, merchant_id: merchantId }
+      });
+
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      if (![PaymentStatus.AUTHORIZED, PaymentStatus.PAID].includes(transaction.status)) {
+        throw new Error(`Cannot void a transaction in status '${transaction.status}'`);
+      }
+
+      const connector = await this.getPSPConnector(transaction);
+      if (!connector.getCapabilities().supports_void) {
+        throw new Error(`${transaction.psp_provider} does not support void`);
+      }
+
+      await connector.voidPayment(transaction.psp_transaction_id);
+
+      transaction.status = PaymentStatus.VOIDED;
+      await this.transactionRepository.save(transaction);
+
+      logger.info(`Payment voided: ${transactionId}`);
+
+      await this.notifyMerchant(transaction, 'payment.voided', {
+        id: transaction.psp_transaction_id
+      });
+
+      return {
+        id: transaction.id,
+        status: transaction.status,
+        amount: fromMinorUnits(transaction.amount, transaction.currency),
+        currency: transaction.currency,
+        created_at: transaction.created_at.toISOString(),
+        updated_at: transaction.updated_at.toISOString(),
+        description: transaction.description,
+        metadata: transaction.metadata
+      };
+    } catch (error: any) {
+      logger.error('Error voiding payment:', {
+        message: error.message,
+        status: error.response?.status
+      });
+      if (error instanceof PSPError) throw error;
+      throw new Error(
+        error.response?.data?.message ||
+        error.message ||
+        'Failed to void payment'
+      );
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Failover
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A payment may cascade to another PSP only when failover is on, the
+   * merchant didn't force a PSP, and the source can be replayed elsewhere.
+   * Raw card data can't be reused (the CVC must not be kept), and tokens are
+   * issued by — and only valid at — one PSP. Hosted-page / redirect payments
+   * without a source are safe to re-create at any PSP.
+   */
+  private isFailoverEligible(request: PaymentRequest): boolean {
+    if (!this.failoverConfig.enabled || request.psp) return false;
+    if (request.source?.number || request.source?.token) return false;
+    return true;
+  }
+
+  private isRetryableError(psp: PSPProvider, error: any): boolean {
+    if (!(error instanceof PSPError)) return false;
+    return error.isOutage || this.isSoftDecline(psp, error.code, error.declineCode);
   }
 
   /**
-   * Get the appropriate PSP connector based on provider
+   * A decline is soft when its normalized decline code, its raw PSP code, or
+   * "<psp>:<raw code>" is listed in FAILOVER_SOFT_DECLINE_CODES.
    */
-  private getPSPConnector(provider: PSPProvider): MoyasarConnector | PayTabsConnector {
-    switch (provider) {
-      case PSPProvider.MOYASAR:
-        return this.moyasarConnector;
-      case PSPProvider.PAYTABS:
-        return this.payTabsConnector;
-      default:
-        throw new Error(`Unsupported PSP provider: ${provider}`);
+  private isSoftDecline(psp: PSPProvider, rawCode?: string, declineCode?: DeclineCode): boolean {
+    const codes = this.failoverConfig.soft_decline_codes;
+    if (declineCode && codes.includes(declineCode)) return true;
+    if (!rawCode) return false;
+    return codes.includes(rawCode) || codes.includes(`${psp}:${rawCode}`);
+  }
+
+  private recordAttempt(
+    transaction: Transaction,
+    psp: PSPProvider,
+    outcome: Omit<PSPAttempt, 'psp' | 'attempted_at'>
+  ): void {
+    transaction.psp_attempts = [
+      ...(transaction.psp_attempts ?? []),
+      { psp, ...outcome, attempted_at: new Date().toISOString() }
+    ];
+  }
+
+  /**
+   * Get the connector of the PSP account the transaction was created with
+   */
+  private getPSPConnector(transaction: Transaction): Promise<PSPConnector> {
+    return pspAccountService.getTransactionConnector(transaction);
+  }
+
+  /** Amount available to refund against — what was actually captured, in minor units */
+  private capturedAmount(transaction: Transaction): number {
+    return transaction.captured_amount ?? transaction.amount;
+  }
+
+  /** Reject amounts with more decimals than the currency has (e.g. 10.505 SAR) */
+  private assertPrecision(label: string, amount: number, currency: string): void {
+    if (!hasValidPrecision(amount, currency)) {
+      throw new Error(`${label} has too many decimal places — ${currency} allows ${getMinorUnits(currency)}`);
+    }
+  }
+
+  private toRefundResponse(refund: Refund): RefundResponse {
+    return {
+      id: refund.id,
+      payment_id: refund.transaction_id,
+      amount: fromMinorUnits(refund.amount, refund.currency),
+      status: refund.status,
+      reason: refund.reason,
+      psp_refund_id: refund.psp_refund_id,
+      created_by: refund.created_by,
+      created_at: refund.created_at.toISOString()
+    };
+  }
+
+  /**
+   * Enqueue a merchant webhook for a state change we initiated ourselves.
+   * Failures are handled by WebhookQueue with retries — never throws.
+   */
+  private async notifyMerchant(
+    transaction: Transaction,
+    eventType: string,
+    pspData: any
+  ): Promise<void> {
+    try {
+      const merchant = await this.merchantRepository.findOne({
+        where: { id: transaction.merchant_id }
+      });
+
+      if (!merchant?.webhook_url) {
+        logger.info(`No webhook URL configured for merchant ${transaction.merchant_id}`);
+        return;
+      }
+
+      await webhookQueue.enqueue(transaction, eventType, pspData, merchant);
+    } catch (error: any) {
+      logger.error(`Failed to enqueue ${eventType} webhook`, {
+        transaction_id: transaction.id,
+        message: error.message
+      });
     }
   }
 
   /**
-   * Get transactions for a merchant with filters
+   * Get transactions for a merchant with filters. Amounts are returned in
+   * major units, like every other API response.
    */
   async getTransactions(
     merchantId: string,
@@ -250,6 +650,20 @@ export class PaymentService {
       .limit(filters?.limit || 50)
       .offset(filters?.offset || 0);
 
-    return await query.getMany();
+    const transactions = await query.getMany();
+    return transactions.map(t => this.toMajorUnits(t));
+  }
+
+  private toMajorUnits(transaction: Transaction): Transaction {
+    const major = (minor: number | null) =>
+      minor === null ? null : fromMinorUnits(minor, transaction.currency);
+
+    return Object.assign(new Transaction(), transaction, {
+      amount: major(transaction.amount),
+      captured_amount: major(transaction.captured_amount),
+      refunded_amount: major(transaction.refunded_amount),
+      fee: major(transaction.fee),
+      estimated_fee: major(transaction.estimated_fee)
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { EntityManager } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Refund, RefundStatus } from '../models/Refund';
+import { Transaction } from '../models/Transaction';
+import { PaymentStatus } from '../types/payment.types';
+import { logger } from '../utils/logger';
+
+/** A refund outcome reported by a PSP webhook. Amounts are minor units. */
+export interface RefundReport {
+  /** The PSP's id for the refund, when the event carries one */
+  psp_refund_id?: string;
+  /** Amount of this refund */
+  amount?: number;
+  /** Total refunded on the payment so far — for PSPs that only report that (Moyasar) */
+  refunded_total?: number;
+  succeeded: boolean;
+}
+
+/** What a RefundReport means for the ledger */
+export type RefundSettlement =
+  /** Set this refund's status (and PSP id) from the report */
+  | { action: 'settle'; refund: Refund }
+  /** A refund issued outside our API, e.g. in the PSP dashboard — add it */
+  | { action: 'record'; amount: number }
+  | { action: 'none' };
+
+/** Statuses a payment can be refunded from, and that refunds move it between */
+const REFUNDABLE_STATUSES = new Set<PaymentStatus>([
+  PaymentStatus.PAID,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED
+]);
+
+/** Sum of the refunds in the given statuses */
+export const refundTotal = (refunds: Refund[], statuses: RefundStatus[] = [RefundStatus.SUCCEEDED]): number =>
+  refunds.filter(r => statuses.includes(r.status)).reduce((sum, r) => sum + r.amount, 0);
+
+/** Payment status for a refunded total — refunds only move paid payments */
+export const refundedStatus = (current: PaymentStatus, refunded: number, captured: number): PaymentStatus => {
+  if (!REFUNDABLE_STATUSES.has(current)) return current;
+  if (refunded <= 0) return PaymentStatus.PAID;
+  return refunded >= captured ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED;
+};
+
+/**
+ * Match a webhook's refund report against the ledger (oldest refund first).
+ *
+ * A report settles the refund with the same PSP id, else a pending refund of
+ * the same amount — the webhook can beat our own API call back. A succeeded
+ * refund matching nothing was issued outside our API and is recorded. A
+ * running total (Moyasar) is turned into the amount not yet in the ledger;
+ * while refunds are pending it can't be told apart from them, so it only
+ * settles an exact match then.
+ */
+export const matchRefundReport = (refunds: Refund[], report: RefundReport): RefundSettlement => {
+  const target = report.succeeded ? RefundStatus.SUCCEEDED : RefundStatus.FAILED;
+
+  if (report.psp_refund_id) {
+    const known = refunds.find(r => r.psp_refund_id === report.psp_refund_id);
+    if (known) return known.status === target ? { action: 'none' } : { action: 'settle', refund: known };
+  }
+
+  const cumulative = report.refunded_total !== undefined;
+  const amount = cumulative ? report.refunded_total! - refundTotal(refunds) : report.amount;
+  if (amount === undefined || amount <= 0) return { action: 'none' };
+
+  const pending = refunds.filter(r => r.status === RefundStatus.PENDING);
+  const match = pending.find(r => r.amount === amount && (!r.psp_refund_id || !report.psp_refund_id));
+  if (match) return { action: 'settle', refund: match };
+
+  if (!report.succeeded || (cumulative && pending.length > 0)) return { action: 'none' };
+  return { action: 'record', amount };
+};
+
+/**
+ * The refunds table is the ledger of a payment's refunds.
+ * Transaction.refunded_amount and the refunded statuses are only ever derived
+ * from it — under a row lock on the transaction, so concurrent API refunds
+ * and webhooks apply one after the other.
+ */
+export class RefundLedger {
+  /**
+   * Apply a refund outcome reported by the PSP and return the transaction
+   * with its totals re-derived — unchanged when the ledger already had it.
+   */
+  async applyReport(transactionId: string, report: RefundReport): Promise<Transaction> {
+    return AppDataSource.transaction(async (manager) => {
+      const transaction = await this.lock(manager, transactionId);
+      const refunds = await manager.find(Refund, {
+        where: { transaction_id: transaction.id },
+        order: { created_at: 'ASC' }
+      });
+
+      const settlement = matchRefundReport(refunds, report);
+      if (settlement.action === 'none') return transaction;
+
+      if (settlement.action === 'settle') {
+        const { refund } = settlement;
+        refund.status = report.succeeded ? RefundStatus.SUCCEEDED : RefundStatus.FAILED;
+        refund.psp_refund_id = report.psp_refund_id ?? refund.psp_refund_id;
+        if (!report.succeeded) refund.error_message = 'Refund failed at the PSP';
+        await manager.save(refund);
+      } else {
+        await manager.save(manager.create(Refund, {
+          transaction_id: transaction.id,
+          merchant_id: transaction.merchant_id,
+          amount: settlement.amount,
+          currency: transaction.currency,
+          psp_refund_id: report.psp_refund_id,
+          reason: 'Refunded at the PSP',
+          created_by: transaction.psp_provider,
+          status: RefundStatus.SUCCEEDED
+        }));
+        logger.info(`[refunds] recorded a refund made outside the API for ${transaction.id}`, {
+          psp_refund_id: report.psp_refund_id
+        });
+      }
+
+      return this.recalculate(manager, transaction);
+    });
+  }
+
+  /** Recompute a transaction's refunded total and status from the ledger */
+  async reconcile(transactionId: string): Promise<Transaction> {
+    return AppDataSource.transaction(async (manager) =>
+      this.recalculate(manager, await this.lock(manager, transactionId))
+    );
+  }
+
+  /**
+   * Refunded total and status of a transaction locked by the caller, from
+   * the succeeded refunds. Saves and returns the transaction.
+   */
+  async recalculate(manager: EntityManager, transaction: Transaction): Promise<Transaction> {
+    const refunds = await manager.find(Refund, { where: { transaction_id: transaction.id } });
+    transaction.refunded_amount = refundTotal(refunds);
+    transaction.status = refundedStatus(
+      transaction.status,
+      transaction.refunded_amount,
+      transaction.captured_amount ?? transaction.amount
+    );
+    return manager.save(transaction);
+  }
+
+  /** Amount reserved by succeeded and pending refunds — what can't be refunded again */
+  async reservedAmount(manager: EntityManager, transactionId: string): Promise<number> {
+    const refunds = await manager.find(Refund, { where: { transaction_id: transactionId } });
+    return refundTotal(refunds, [RefundStatus.SUCCEEDED, RefundStatus.PENDING]);
+  }
+
+  private lock(manager: EntityManager, transactionId: string): Promise<Transaction> {
+    return manager.findOneOrFail(Transaction, {
+      where: { id: transactionId },
+      lock: { mode: 'pessimistic_write' }
+    });
+  }
+}
+
+export const refundLedger = new RefundLedger();
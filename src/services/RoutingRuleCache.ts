@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import Redis, { RedisOptions } from 'ioredis';
+import { Not, IsNull } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { loadRoutingConfig, RoutingMode, ROUTING_MODES } from '../config/routing';
+import { RoutingRule } from '../models/RoutingRule';
+import { Merchant } from '../models/Merchant';
+import { CARD_FIELDS, compileConditions, CompiledConditions, conditionFields } from './routingConditions';
+import { logger } from '../utils/logger';
+
+/** A rule ready for routing — conditions pre-compiled */
+export interface CompiledRule {
+  rule: RoutingRule;
+  matches: CompiledConditions;
+  /** Some condition needs the card's BIN lookup */
+  usesCard: boolean;
+}
+
+interface Snapshot {
+  global: CompiledRule[];
+  byMerchant: Map<string, CompiledRule[]>;
+  /** Merchant rules followed by the global ones, built on first use */
+  combined: Map<string, CompiledRule[]>;
+  /** Merchants that chose a routing mode (settings.routing_mode) */
+  modes: Map<string, RoutingMode>;
+  loadedAt: number;
+}
+
+export const compileRule = (rule: RoutingRule): CompiledRule => ({
+  rule,
+  matches: compileConditions(rule.conditions),
+  usesCard: conditionFields(rule.conditions).some(f => CARD_FIELDS.has(f))
+});
+
+const CHANNEL = 'routing:rules:changed';
+/**
+ * With pub/sub, still reload this often — another instance's publish can
+ * fail without this one noticing.
+ */
+const SUBSCRIBED_REFRESH_MS = 2 * 60 * 1000;
+
+/**
+ * Every enabled routing rule, compiled and sorted, plus each merchant's
+ * routing mode — so routing a payment needs no database round-trip.
+ *
+ * The whole set is loaded at once and replaced on change: invalidate() is
+ * called after every rule or mode change and, when REDIS_URL is set, is
+ * published so every instance reloads. The cache has Redis connections of
+ * its own: the rate limiter drops the shared client on its first error. A
+ * publish that fails is sent again once Redis is back. Without Redis (or
+ * while the subscription is down) other instances pick changes up after
+ * ROUTING_RULE_CACHE_TTL_SECONDS.
+ */
+export class RoutingRuleCache {
+  private config = loadRoutingConfig();
+  /** Tells this instance's own invalidation messages apart */
+  private instanceId = crypto.randomUUID();
+  private snapshot: Snapshot | null = null;
+  private loading: Promise<Snapshot> | null = null;
+  /** Bumped by every invalidation — a load started before it is not kept */
+  private generation = 0;
+  private publisher: Redis | null = null;
+  private subscriber: Redis | null = null;
+  private subscribed = false;
+  /** A publish failed — send it again when the publisher reconnects */
+  private unpublished = false;
+
+  private get ruleRepository() {
+    return AppDataSource.getRepository(RoutingRule);
+  }
+
+  private get merchantRepository() {
+    return AppDataSource.getRepository(Merchant);
+  }
+
+  /** Enabled rules in evaluation order: the merchant's own, then the global ones */
+  async getRules(merchantId?: string): Promise<CompiledRule[]> {
+    const snapshot = await this.getSnapshot();
+    if (!merchantId) return snapshot.global;
+
+    let rules = snapshot.combined.get(merchantId);
+    if (!rules) {
+      rules = [...(snapshot.byMerchant.get(merchantId) ?? []), ...snapshot.global];
+      snapshot.combined.set(merchantId, rules);
+    }
+    return rules;
+  }
+
+  /** The merchant's chosen routing mode — undefined when it uses the platform default */
+  async getMode(merchantId: string): Promise<RoutingMode | undefined> {
+    return (await this.getSnapshot()).modes.get(merchantId);
+  }
+
+  /** Drop the cached set here and, via Redis, on every other instance */
+  invalidate(): void {
+    this.markStale();
+    this.publish();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private helpers
+  // ---------------------------------------------------------------------------
+
+  private async getSnapshot(): Promise<Snapshot> {
+    this.listen();
+
+    const maxAge = this.subscribed ? SUBSCRIBED_REFRESH_MS : this.config.rule_cache_ttl_seconds * 1000;
+    if (this.snapshot && Date.now() - this.snapshot.loadedAt < maxAge) return this.snapshot;
+
+    // One load at a time — concurrent payments wait for the same queries
+    if (!this.loading) {
+      const generation = this.generation;
+      const loading = this.load()
+        .then((snapshot) => {
+          if (generation === this.generation) this.snapshot = snapshot;
+          return snapshot;
+        })
+        .finally(() => {
+          if (this.loading === loading) this.loading = null;
+        });
+      this.loading = loading;
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<Snapshot> {
+    const [rules, merchants] = await Promise.all([
+      this.ruleRepository.find({ where: { enabled: true }, order: { priority: 'DESC' } }),
+      this.merchantRepository.find({
+        where: { settings: Not(IsNull()) },
+        select: { id: true, settings: true }
+      })
+    ]);
+
+    const global: CompiledRule[] = [];
+    const byMerchant = new Map<string, CompiledRule[]>();
+    for (const rule of rules) {
+      const compiled = compileRule(rule);
+      if (!rule.merchant_id) {
+        global.push(compiled);
+      } else {
+        const own = byMerchant.get(rule.merchant_id) ?? [];
+        own.push(compiled);
+        byMerchant.set(rule.merchant_id, own);
+      }
+    }
+
+    const modes = new Map<string, RoutingMode>();
+    for (const merchant of merchants) {
+      const mode = merchant.settings?.routing_mode;
+      if (ROUTING_MODES.includes(mode)) modes.set(merchant.id, mode);
+    }
+
+    logger.debug(`[routing] rule cache loaded: ${rules.length} enabled rules`);
+    return { global, byMerchant, combined: new Map(), modes, loadedAt: Date.now() };
+  }
+
+  private markStale(): void {
+    this.snapshot = null;
+    this.loading = null;
+    this.generation++;
+  }
+
+  private publish(): void {
+    if (!this.publisher) {
+      this.publisher = this.connect({ maxRetriesPerRequest: 1 });
+      this.publisher?.on('ready', () => {
+        if (this.unpublished) this.publish();
+      });
+      this.publisher?.on('error', (err: Error) => {
+        logger.warn('[routing] rule cache publisher error', { message: err.message });
+      });
+    }
+    const publisher = this.publisher;
+    if (!publisher) return;
+
+    this.unpublished = false;
+    publisher.publish(CHANNEL, this.instanceId).catch((err: Error) => {
+      this.unpublished = true;
+      logger.warn('[routing] could not publish rule cache invalidation — retrying when Redis is back', {
+        message: err.message
+      });
+    });
+  }
+
+  /** Subscribe to other instances' invalidations — once, and only with Redis */
+  private listen(): void {
+    if (this.subscriber) return;
+    // A subscribed connection can't run other commands, so it gets its own
+    const subscriber = this.connect({ autoResubscribe: false });
+    if (!subscriber) return;
+    this.subscriber = subscriber;
+
+    subscriber.on('message', (channel: string, message: string) => {
+      if (channel === CHANNEL && message !== this.instanceId) this.markStale();
+    });
+    subscriber.on('ready', () => {
+      // (Re)connected — changes may have been missed while down
+      this.markStale();
+      subscriber.subscribe(CHANNEL)
+        .then(() => {
+          this.subscribed = true;
+        })
+        .catch((err: Error) => {
+          logger.warn('[routing] could not subscribe to rule changes — falling back to TTL refresh', {
+            message: err.message
+          });
+        });
+    });
+    subscriber.on('close', () => {
+      this.subscribed = false;
+    });
+    subscriber.on('error', (err: Error) => {
+      logger.warn('[routing] rule cache subscriber error — falling back to TTL refresh', {
+        message: err.message
+      });
+    });
+
+    subscriber.connect().catch(() => undefined); // reported by the error listener
+  }
+
+  /** A Redis connection of the cache's own, or null without REDIS_URL */
+  private connect(options: RedisOptions): Redis | null {
+    const url = process.env.REDIS_URL;
+    return url ? new Redis(url, { lazyConnect: true, ...options }) : null;
+  }
+}
+
+export const routingRuleCache = new RoutingRuleCache();
@@ -1,82 +1,423 @@
-import { AppDataSource } from '../config/database';
+import crypto from 'crypto';
 import { RoutingRule } from '../models/RoutingRule';
-import { PaymentRequest, PSPProvider } from '../types/payment.types';
+import { connectorRegistry } from '../connectors/ConnectorRegistry';
+import { loadRoutingConfig, RoutingMode } from '../config/routing';
+import { pspAccountService } from './PSPAccountService';
+import { successRateTracker } from './SuccessRateTracker';
+import { binLookupService, CardInfo } from './BinLookupService';
+import { ConditionTrace, traceConditions } from './routingConditions';
+import { compileRule, CompiledRule, routingRuleCache } from './RoutingRuleCache';
+import { pspQuotaService } from './PSPQuotaService';
+import { FeeEstimate, feeScheduleService } from './FeeScheduleService';
+import { capabilityGap } from './pspCapabilities';
+import {
+  PaymentMethod,
+  PaymentRequest,
+  PSPProvider,
+  RoutingDecision,
+  RoutingRuleRef,
+  RoutingSource
+} from '../types/payment.types';
 import { logger } from '../utils/logger';
+import { formatAmount, fromMinorUnits } from '../utils/currency';
 
-type Condition = RoutingRule['conditions'][number];
+export interface RoutingResult {
+  /** PSP to try first */
+  psp: PSPProvider;
+  /**
+   * Every PSP eligible for this payment, in preference order (psp first).
+   * Failover walks this list when the first PSP is down or soft-declines.
+   */
+  candidates: PSPProvider[];
+  /** How the order was decided — see RoutingConfig.default_mode */
+  mode: RoutingMode;
+  /** Audit record of this decision, stored on the transaction */
+  decision: RoutingDecision;
+  /** Expected fee per candidate with a fee schedule, in minor units */
+  fees: Map<PSPProvider, FeeEstimate>;
+  /** Step-by-step evaluation — only when route() is asked to trace */
+  trace?: RoutingTrace;
+}
+
+/** How each rule fared for one payment, for the routing simulator */
+export interface RoutingTrace {
+  /** Every enabled rule in evaluation order */
+  rules: Array<{
+    rule_id: string;
+    name: string;
+    priority: number;
+    scope: 'merchant' | 'global';
+    /** Available PSPs the rule resolved to, preferred first */
+    targets: PSPProvider[];
+    /** Why the rule was not evaluated, e.g. none of its PSPs is available */
+    skipped?: string;
+    matched: boolean;
+    conditions: ConditionTrace[];
+  }>;
+  /** The first matching rule — null when none matched or the PSP was forced */
+  winner: string | null;
+  /** PSP used when no rule matches (DEFAULT_PSP) */
+  fallback: PSPProvider;
+  /** BIN lookup of the card — only when some rule or fee schedule depends on it */
+  card: CardInfo | null;
+}
+
+export interface RouteOptions {
+  /**
+   * Evaluate these rules in place of the merchant's saved ones (global
+   * rules still follow). Used to simulate rule changes before saving them.
+   */
+  draftRules?: RoutingRule[];
+  /** Record a RoutingTrace — evaluates every condition, so simulation only */
+  trace?: boolean;
+}
+
+/**
+ * Routing found no PSP for the payment — the forced PSP can't take it, or
+ * every candidate is incapable or capped. Retrying the same request won't help.
+ */
+export class RoutingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoutingError';
+  }
+}
 
 export class RoutingService {
-  private ruleRepository = AppDataSource.getRepository(RoutingRule);
+  private config = loadRoutingConfig();
 
   /**
    * Determine which PSP to use for this payment request.
    *
    * Priority:
    *  1. Explicit `psp` field in the request (merchant override)
-   *  2. Enabled DB routing rules, evaluated in descending priority order
-   *  3. DEFAULT_PSP env var (fallback, defaults to 'moyasar')
+   *  2. The merchant's own enabled routing rules, in descending priority order
+   *  3. Global (platform-wide) enabled rules, in descending priority order
+   *  4. DEFAULT_PSP env var (fallback, defaults to 'moyasar') — when it is
+   *     available; otherwise every available PSP but the mock
+   *
+   * Rules targeting a PSP that is not available — neither an enabled platform
+   * account nor one of the merchant's own accounts — are skipped rather than
+   * selected and failed at payment time. So are PSPs whose connector can't
+   * process the payment (method, currency, flow, amount — PSPCapabilities),
+   * checked before any rule, and PSPs this payment would push over a volume
+   * cap (PSPQuota); PSPs below a committed minimum move to the front of the
+   * candidates.
+   *
+   * In auto and cost modes the matching rules (or, when none match, every
+   * available PSP but the mock) only form the candidate pool, which is then ordered by
+   * recent approval rate (rankBySuccessRate) or estimated fee (rankByCost).
+   */
+  async selectPSP(request: PaymentRequest, merchantId?: string): Promise<PSPProvider> {
+    return (await this.route(request, merchantId)).psp;
+  }
+
+  /**
+   * Same ordering as selectPSP, but also returns the fallback candidates:
+   * the targets of every other matching rule in priority order, then
+   * DEFAULT_PSP. An explicit `psp` override yields that PSP alone.
    */
-  async selectPSP(request: PaymentRequest): Promise<PSPProvider> {
+  async route(request: PaymentRequest, merchantId?: string, options: RouteOptions = {}): Promise<RoutingResult> {
+    const startedAt = performance.now();
+    const fallback = (process.env.DEFAULT_PSP as PSPProvider) || PSPProvider.MOYASAR;
+    const trace: RoutingTrace | undefined = options.trace
+      ? { rules: [], winner: null, fallback, card: null }
+      : undefined;
+    const evaluatedAt = new Date();
+
+    const available = merchantId
+      ? await pspAccountService.getAvailableProviders(merchantId)
+      : connectorRegistry.getEnabledProviders();
+    const incapable = new Map<PSPProvider, string>();
+    for (const psp of available) {
+      const gap = capabilityGap(psp, request);
+      if (gap) incapable.set(psp, gap);
+    }
+    const quota = await pspQuotaService.check(merchantId, request.amount, request.currency);
+    const usable = available.filter(p => !incapable.has(p) && !quota.capped.has(p));
+    // The mock PSP approves anything — it only gets payments a rule sends it
+    const automatic: PSPProvider[] = usable.filter(p => p !== PSPProvider.MOCK);
+
+    let matched: RoutingRule | null = null;
+    let matchedTargets: PSPProvider[] = [];
+
+    const decide = (
+      source: RoutingSource,
+      mode: RoutingMode,
+      candidates: PSPProvider[],
+      rule: RoutingRule | null = null,
+      fees = new Map<PSPProvider, FeeEstimate>()
+    ): RoutingResult => {
+      // The first matching rule picked the PSP only when it is still first in
+      // rules mode; otherwise it only made its PSPs eligible
+      const picked = source === 'rule' && matchedTargets.includes(candidates[0]) ? rule : null;
+      return {
+        psp: candidates[0],
+        candidates,
+        mode,
+        fees,
+        decision: {
+          source,
+          mode,
+          rule: picked && this.ruleRef(picked),
+          ...(rule && !picked && { candidate_rule: this.ruleRef(rule) }),
+          candidates,
+          evaluated_at: evaluatedAt.toISOString(),
+          duration_ms: Math.round((performance.now() - startedAt) * 1000) / 1000,
+          ...(fees.size > 0 && {
+            estimated_fees: Object.fromEntries(
+              [...fees].map(([psp, e]) => [psp, fromMinorUnits(e.fee, request.currency)])
+            )
+          }),
+          ...(incapable.size > 0 && { incapable: Object.fromEntries(incapable) }),
+          ...((quota.capped.size > 0 || quota.belowMinimum.size > 0) && {
+            quota: { capped: [...quota.capped], below_minimum: [...quota.belowMinimum] }
+          })
+        },
+        ...(trace && { trace: { ...trace, winner: rule?.id ?? null } })
+      };
+    };
+
     if (request.psp) {
+      if (!available.includes(request.psp)) {
+        throw new RoutingError(`PSP provider is not enabled: ${request.psp}`);
+      }
+      const gap = capabilityGap(request.psp, request);
+      if (gap) {
+        throw new RoutingError(`PSP provider cannot process this payment: ${request.psp} (${gap})`);
+      }
+      if (quota.capped.has(request.psp)) {
+        throw new RoutingError(`PSP provider has reached its volume cap: ${request.psp}`);
+      }
       logger.info(`[routing] explicit override → ${request.psp}`);
-      return request.psp;
+      const card = await feeScheduleService.usesCard() ? await binLookupService.lookup(request.source) : null;
+      const fees = await feeScheduleService.estimate([request.psp], request, merchantId, card);
+      return decide('override', 'rules', [request.psp], null, fees);
     }
 
-    const rules = await this.ruleRepository.find({
-      where: { enabled: true },
-      order: { priority: 'DESC' }
-    });
+    const rules = options.draftRules
+      ? [...this.compileDrafts(options.draftRules), ...await routingRuleCache.getRules()]
+      : await routingRuleCache.getRules(merchantId);
+    const mode = await this.getMode(merchantId);
+
+    // Classify the card once, and only when some rule or fee schedule asks about it
+    const usesCard = rules.some(r => r.usesCard) || await feeScheduleService.usesCard();
+    const card = usesCard ? await binLookupService.lookup(request.source) : null;
+    if (trace) trace.card = card;
+
+    const candidates: PSPProvider[] = [];
+    for (const { rule, matches } of rules) {
+      const resolved = this.resolveTargets(rule, request);
+      const targets = resolved.filter(p => usable.includes(p));
+      const ctx = { request, merchantId, target: targets[0], card, now: evaluatedAt };
+
+      let isMatch: boolean;
+      if (trace) {
+        const result = targets.length > 0 ? traceConditions(rule.conditions, ctx) : null;
+        trace.rules.push({
+          rule_id: rule.id,
+          name: rule.name,
+          priority: rule.priority,
+          scope: rule.merchant_id ? 'merchant' : 'global',
+          targets,
+          ...(!result && { skipped: this.skipReason(resolved, available, incapable) }),
+          matched: result?.matched ?? false,
+          conditions: result?.conditions ?? []
+        });
+        isMatch = result?.matched ?? false;
+      } else {
+        isMatch = targets.length > 0 && matches(ctx);
+      }
 
-    for (const rule of rules) {
-      if (this.matches(rule.conditions, request)) {
-        logger.info(`[routing] rule matched: "${rule.name}" → ${rule.target_psp}`);
-        return rule.target_psp;
+      if (isMatch) {
+        if (!matched) {
+          matched = rule;
+          matchedTargets = targets;
+          const scope = rule.merchant_id ? 'merchant' : 'global';
+          const via = rule.split ? ' (split)' : '';
+          logger.info(`[routing] ${scope} rule matched: "${rule.name}" → ${targets[0]}${via}`);
+        }
+        for (const psp of targets) {
+          if (!candidates.includes(psp)) candidates.push(psp);
+        }
       }
     }
 
-    const fallback = (process.env.DEFAULT_PSP as PSPProvider) || PSPProvider.MOYASAR;
-    logger.info(`[routing] no rule matched — fallback: ${fallback}`);
-    return fallback;
+    // DEFAULT_PSP is the last resort — when it is available and can take the payment
+    const fallbackUsable = automatic.includes(fallback);
+
+    if (mode === 'auto' || mode === 'cost') {
+      const pool = candidates.length > 0 ? candidates : [...automatic];
+      if (fallbackUsable && !pool.includes(fallback)) pool.push(fallback);
+      if (pool.length === 0) throw this.noCandidates(incapable, available.filter(p => quota.capped.has(p)));
+      const fees = await feeScheduleService.estimate(pool, request, merchantId, card);
+      const ranked = mode === 'cost'
+        ? this.rankByCost(pool, fees, request)
+        : this.rankBySuccessRate(pool, request);
+      return decide(mode, mode, this.preferBelowMinimum(ranked, quota.belowMinimum), matched, fees);
+    }
+
+    if (!matched) {
+      logger.info(`[routing] no rule matched — fallback: ${fallbackUsable ? fallback : automatic.join(', ')}`);
+    }
+    const ordered = this.preferBelowMinimum(candidates, quota.belowMinimum);
+    if (fallbackUsable && !ordered.includes(fallback)) ordered.push(fallback);
+    // Without DEFAULT_PSP, any PSP that can take the payment
+    if (ordered.length === 0) ordered.push(...this.preferBelowMinimum(automatic, quota.belowMinimum));
+    if (ordered.length === 0) throw this.noCandidates(incapable, available.filter(p => quota.capped.has(p)));
+
+    const fees = await feeScheduleService.estimate(ordered, request, merchantId, card);
+    return decide(matched ? 'rule' : 'fallback', mode, ordered, matched, fees);
+  }
+
+  /**
+   * Cost mode: lowest estimated fee first. PSPs without a fee schedule keep
+   * their pool order behind the estimated ones — their cost is unknown.
+   */
+  private rankByCost(
+    pool: PSPProvider[],
+    fees: Map<PSPProvider, FeeEstimate>,
+    request: PaymentRequest
+  ): PSPProvider[] {
+    const estimated = pool.filter(p => fees.has(p)).sort((a, b) => fees.get(a)!.fee - fees.get(b)!.fee);
+    const ranked = [...estimated, ...pool.filter(p => !fees.has(p))];
+
+    const cheapest = fees.get(ranked[0]);
+    if (cheapest) {
+      const fee = formatAmount(fromMinorUnits(cheapest.fee, request.currency), request.currency);
+      logger.info(`[routing] cost: ${ranked[0]} (est. fee ${fee} ${request.currency})`);
+    } else {
+      logger.info(`[routing] cost: no fee schedule matches — ${ranked[0]}`);
+    }
+    return ranked;
+  }
+
+  /** Why none of a rule's PSPs could take the payment, for the trace */
+  private skipReason(resolved: PSPProvider[], available: PSPProvider[], incapable: Map<PSPProvider, string>): string {
+    const present = resolved.filter(p => available.includes(p));
+    if (present.length === 0) return 'none of its PSPs is available';
+    if (present.every(p => incapable.has(p))) {
+      return `its PSPs can't process this payment (${present.map(p => `${p}: ${incapable.get(p)}`).join('; ')})`;
+    }
+    return 'its PSPs have reached their volume caps';
+  }
+
+  private noCandidates(incapable: Map<PSPProvider, string>, capped: PSPProvider[]): RoutingError {
+    const reasons = [
+      ...[...incapable].map(([psp, gap]) => `${psp}: ${gap}`),
+      ...capped.filter(p => !incapable.has(p)).map(psp => `${psp}: volume cap reached`)
+    ];
+    return new RoutingError(`No PSP can process this payment${reasons.length ? ` (${reasons.join('; ')})` : ''}`);
+  }
+
+  /**
+   * Move PSPs below a committed minimum to the front, keeping the order
+   * within both groups.
+   */
+  private preferBelowMinimum(candidates: PSPProvider[], belowMinimum: Set<PSPProvider>): PSPProvider[] {
+    if (belowMinimum.size === 0) return [...candidates];
+    const preferred = candidates.filter(p => belowMinimum.has(p));
+    if (preferred.length > 0 && preferred[0] !== candidates[0]) {
+      logger.info(`[routing] quota: preferring ${preferred[0]} (below committed minimum)`);
+    }
+    return [...preferred, ...candidates.filter(p => !belowMinimum.has(p))];
+  }
+
+  /**
+   * Auto mode: best recent approval rate first (for the payment's method and
+   * currency). PSPs without enough data keep their pool order behind the
+   * measured ones. ROUTING_EXPLORATION_SHARE of payments instead start at a
+   * random other candidate, so those PSPs keep getting the traffic that
+   * measures them.
+   */
+  private rankBySuccessRate(pool: PSPProvider[], request: PaymentRequest): PSPProvider[] {
+    const method = request.source?.type ?? PaymentMethod.CREDITCARD;
+    const rates = new Map(pool.map(p => [p, successRateTracker.getRate(p, method, request.currency).rate]));
+
+    const ranked = [...pool].sort((a, b) => (rates.get(b) ?? -1) - (rates.get(a) ?? -1));
+
+    if (ranked.length > 1 && Math.random() < this.config.exploration_share) {
+      const [explored] = ranked.splice(1 + Math.floor(Math.random() * (ranked.length - 1)), 1);
+      ranked.unshift(explored);
+      logger.info(`[routing] auto: exploring ${explored}`);
+    } else {
+      logger.info(`[routing] auto: ${ranked[0]} (success rate ${rates.get(ranked[0]) ?? 'n/a'})`);
+    }
+    return ranked;
+  }
+
+  /** Enabled draft rules, compiled, in evaluation order (descending priority) */
+  private compileDrafts(drafts: RoutingRule[]): CompiledRule[] {
+    return drafts
+      .filter(r => r.enabled !== false)
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+      .map(compileRule);
+  }
+
+  private ruleRef(rule: RoutingRule): RoutingRuleRef {
+    return {
+      id: rule.id,
+      name: rule.name,
+      version: rule.version,
+      scope: rule.merchant_id ? 'merchant' : 'global'
+    };
+  }
+
+  /** Merchant's routing mode (settings.routing_mode), else the platform default */
+  private async getMode(merchantId?: string): Promise<RoutingMode> {
+    const mode = merchantId ? await routingRuleCache.getMode(merchantId) : undefined;
+    return mode ?? this.config.default_mode;
   }
 
   // ---------------------------------------------------------------------------
-  // Rule evaluation
+  // Weighted splits
   // ---------------------------------------------------------------------------
 
-  private matches(conditions: Condition[], req: PaymentRequest): boolean {
-    if (!conditions || conditions.length === 0) return true;
-    return conditions.every(c => this.evalCondition(c, req));
-  }
+  /**
+   * PSPs a rule sends this payment to, preferred first. A split rule picks
+   * one leg by bucket, and lists the other legs after it (heaviest first) as
+   * failover candidates.
+   */
+  private resolveTargets(rule: RoutingRule, req: PaymentRequest): PSPProvider[] {
+    if (!rule.split?.length) return rule.target_psp ? [rule.target_psp] : [];
 
-  private evalCondition(c: Condition, req: PaymentRequest): boolean {
-    let actual: string | number | boolean | undefined;
+    const key = this.stickyKey(req);
+    const point = key ? this.bucket(`${rule.id}:${key}`) : Math.random() * 100;
 
-    switch (c.field) {
-      case 'currency':
-        actual = req.currency;
-        break;
-      case 'amount':
-        actual = req.amount;
-        break;
-      case 'has_token':
-        actual = !!req.source?.token;
+    let chosen = rule.split[rule.split.length - 1];
+    let upper = 0;
+    for (const leg of rule.split) {
+      upper += leg.weight;
+      if (point < upper) {
+        chosen = leg;
         break;
-      case 'payment_method':
-        actual = req.source?.type ?? '';
-        break;
-      default:
-        return true;
+      }
     }
 
-    const v = c.value;
-    switch (c.operator) {
-      case 'equals':          return actual === v || String(actual) === String(v);
-      case 'not_equals':      return actual !== v && String(actual) !== String(v);
-      case 'greater_than':    return Number(actual) > Number(v);
-      case 'less_than':       return Number(actual) < Number(v);
-      case 'greater_than_or_equal': return Number(actual) >= Number(v);
-      case 'less_than_or_equal':    return Number(actual) <= Number(v);
-      default:                return true;
-    }
+    const others = rule.split
+      .filter(leg => leg !== chosen)
+      .sort((a, b) => b.weight - a.weight);
+    return [chosen.psp, ...others.map(leg => leg.psp)];
+  }
+
+  /**
+   * What keeps a shopper on the same leg of a split: the customer (id or
+   * email in metadata), else the Idempotency-Key. Without either the payment
+   * is bucketed at random.
+   */
+  private stickyKey(req: PaymentRequest): string | undefined {
+    const metadata = req.metadata ?? {};
+    const customer = metadata.customer_id ?? metadata.customer?.id ?? metadata.customer?.email;
+    if (customer) return `customer:${customer}`;
+    if (req.idempotency_key) return `idempotency:${req.idempotency_key}`;
+    return undefined;
+  }
+
+  /** Deterministic point in [0, 100) for a key */
+  private bucket(key: string): number {
+    const hash = crypto.createHash('sha256').update(key).digest();
+    return (hash.readUInt32BE(0) / 0x100000000) * 100;
   }
 }
+
+export const routingService = new RoutingService();
@@ -0,0 +1,154 @@
+import { loadRoutingConfig } from '../config/routing';
+import { Transaction } from '../models/Transaction';
+import { Currency, PaymentMethod, PaymentStatus, PSPProvider } from '../types/payment.types';
+
+/** Approval figures for one PSP (optionally narrowed to a method and currency) */
+export interface SuccessRate {
+  attempts: number;
+  approved: number;
+  /** approved / attempts as a percentage — null below the minimum sample size */
+  rate: number | null;
+}
+
+export interface PaymentOutcome {
+  psp: PSPProvider;
+  payment_method: PaymentMethod | string;
+  currency: Currency | string;
+  approved: boolean;
+  /** Counted once per transaction and PSP — later reports of the same outcome are ignored */
+  transaction_id: string;
+}
+
+interface Counts {
+  attempts: number;
+  approved: number;
+}
+
+/**
+ * Final statuses that mean the PSP approved the payment at some point.
+ * PROCESSING is not one: the PSP hasn't answered yet, and the payment may
+ * still fail.
+ */
+export const APPROVED_STATUSES = new Set<PaymentStatus>([
+  PaymentStatus.AUTHORIZED,
+  PaymentStatus.PAID,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+  PaymentStatus.VOIDED
+]);
+
+const BUCKET_MS = 60_000;
+
+/**
+ * Rolling authorization-rate tracker, per PSP and per PSP × payment method ×
+ * currency. Outcomes are counted in one-minute buckets; buckets older than
+ * SUCCESS_RATE_WINDOW_MINUTES are dropped.
+ *
+ * Fed by PaymentService (synchronous results, every failover attempt) and by
+ * the webhook handlers (3DS / redirect payments settling later). Each
+ * transaction counts once per PSP, whichever reports it first.
+ *
+ * State is per process: every instance learns from the payments it handles.
+ */
+export class SuccessRateTracker {
+  private config = loadRoutingConfig();
+  private buckets = new Map<number, Map<string, Counts>>();
+  /** `${transaction_id}:${psp}` → bucket it was counted in */
+  private seen = new Map<string, number>();
+  private prunedAt = 0;
+
+  record(outcome: PaymentOutcome): void {
+    const seenKey = `${outcome.transaction_id}:${outcome.psp}`;
+    if (this.seen.has(seenKey)) return;
+
+    const bucket = Math.floor(Date.now() / BUCKET_MS);
+    this.prune(bucket);
+    this.seen.set(seenKey, bucket);
+
+    let counts = this.buckets.get(bucket);
+    if (!counts) {
+      counts = new Map();
+      this.buckets.set(bucket, counts);
+    }
+
+    for (const key of [outcome.psp, this.key(outcome.psp, outcome.payment_method, outcome.currency)]) {
+      const c = counts.get(key) ?? { attempts: 0, approved: 0 };
+      c.attempts++;
+      if (outcome.approved) c.approved++;
+      counts.set(key, c);
+    }
+  }
+
+  /**
+   * Record the outcome of a transaction — by default its current PSP and
+   * status, or one failover attempt's. Statuses that aren't a final answer
+   * from the PSP (pending, processing) are ignored.
+   */
+  recordTransaction(
+    transaction: Transaction,
+    psp: PSPProvider = transaction.psp_provider,
+    status: PaymentStatus = transaction.status
+  ): void {
+    const approved = APPROVED_STATUSES.has(status);
+    if (!approved && status !== PaymentStatus.FAILED) return;
+
+    this.record({
+      psp,
+      payment_method: transaction.payment_method,
+      currency: transaction.currency,
+      approved,
+      transaction_id: transaction.id
+    });
+  }
+
+  /**
+   * Success rate of a PSP. With a method and currency, the narrow figure is
+   * used once it has enough samples; until then the PSP-wide one.
+   */
+  getRate(psp: PSPProvider, paymentMethod?: string, currency?: string): SuccessRate {
+    this.prune(Math.floor(Date.now() / BUCKET_MS));
+
+    if (paymentMethod && currency) {
+      const narrow = this.sum(this.key(psp, paymentMethod, currency));
+      if (narrow.rate !== null) return narrow;
+    }
+    return this.sum(psp);
+  }
+
+  private sum(key: string): SuccessRate {
+    let attempts = 0;
+    let approved = 0;
+    for (const counts of this.buckets.values()) {
+      const c = counts.get(key);
+      if (c) {
+        attempts += c.attempts;
+        approved += c.approved;
+      }
+    }
+
+    const rate = attempts >= this.config.min_samples
+      ? Math.round((approved / attempts) * 10_000) / 100
+      : null;
+    return { attempts, approved, rate };
+  }
+
+  /** Drop expired buckets — at most once per bucket period */
+  private prune(currentBucket: number): void {
+    if (currentBucket === this.prunedAt) return;
+    this.prunedAt = currentBucket;
+
+    const oldest = currentBucket - this.config.window_minutes + 1;
+    for (const bucket of this.buckets.keys()) {
+      if (bucket < oldest) this.buckets.delete(bucket);
+    }
+    for (const [key, bucket] of this.seen) {
+      if (bucket < oldest) this.seen.delete(key);
+    }
+  }
+
+  private key(psp: string, paymentMethod: string, currency: string): string {
+    return `${psp}|${paymentMethod}|${currency}`;
+  }
+}
+
+export const successRateTracker = new SuccessRateTracker();
@@ -5,6 +5,7 @@ import { WebhookDelivery, WebhookDeliveryStatus } from '../models/WebhookDeliver
 import { Transaction } from '../models/Transaction';
 import { Merchant } from '../models/Merchant';
 import { logger } from '../utils/logger';
+import { fromMinorUnits } from '../utils/currency';
 
 // Delay before each attempt: attempt 1 = immediate, 2 = 60s, 3 = 5min
 const RETRY_DELAYS_MS = [0, 60_000, 300_000];
@@ -29,10 +30,14 @@ export class WebhookQueue {
       event: eventType,
       transaction_id: transaction.id,
       status: transaction.status,
-      amount: transaction.amount,
+      amount: fromMinorUnits(transaction.amount, transaction.currency),
       currency: transaction.currency,
       created_at: transaction.created_at,
       psp_provider: transaction.psp_provider,
+      ...(transaction.decline_code && {
+        decline_code: transaction.decline_code,
+        raw_psp_code: transaction.raw_psp_code
+      }),
       metadata: transaction.metadata,
       original_data: pspData
     };
@@ -0,0 +1,55 @@
+import { AppDataSource } from '../../config/database';
+import { CardBin, FundingType } from '../../models/CardBin';
+import { BinLookupService } from '../BinLookupService';
+
+const row = (values: Partial<CardBin>): CardBin => Object.assign(new CardBin(), values);
+
+describe('BinLookupService', () => {
+  const repository = { find: jest.fn(), upsert: jest.fn() };
+  let service: BinLookupService;
+
+  beforeEach(() => {
+    jest.spyOn(AppDataSource, 'getRepository').mockReturnValue(repository as any);
+    repository.find.mockReset().mockResolvedValue([]);
+    service = new BinLookupService();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('classifies mada cards from the built-in BINs', async () => {
+    expect(await service.lookupNumber('4406471234567890')).toEqual({
+      bin: '440647',
+      card_brand: 'visa',
+      card_scheme: 'mada',
+      card_type: 'mada',
+      issuer_country: 'SA',
+      funding_type: FundingType.DEBIT
+    });
+    expect((await service.lookupNumber('5888451234567890'))?.card_brand).toBe('mada');
+  });
+
+  it('lets imported rows override the built-in ones', async () => {
+    repository.find.mockResolvedValue([
+      row({ bin: '440647', card_brand: 'visa', card_scheme: 'visa', issuer_country: 'SA', funding_type: FundingType.CREDIT })
+    ]);
+
+    expect(await service.lookupNumber('440647')).toMatchObject({ card_scheme: 'visa', card_type: 'visa' });
+  });
+
+  it('does not keep a reload that started before an invalidation', async () => {
+    let finishStale!: (rows: CardBin[]) => void;
+    repository.find
+      .mockReturnValueOnce(new Promise(resolve => { finishStale = resolve; }))
+      .mockResolvedValue([row({ bin: '411111', card_brand: 'visa', card_scheme: 'visa' })]);
+
+    const stale = service.lookupNumber('4111111111111111');
+    service.invalidate();
+    const fresh = await service.lookupNumber('4111111111111111');
+    finishStale([]);
+    await stale;
+
+    expect(fresh?.bin).toBe('411111');
+    expect((await service.lookupNumber('4111111111111111'))?.bin).toBe('411111');
+    expect(repository.find).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,74 @@
+import { AppDataSource } from '../../config/database';
+import { IdempotencyKey, IdempotencyStatus } from '../../models/IdempotencyKey';
+import { IDEMPOTENCY_TTL_MS, IdempotencyService, IN_PROGRESS_TIMEOUT_MS } from '../IdempotencyService';
+
+const existing = (values: Partial<IdempotencyKey>): IdempotencyKey =>
+  Object.assign(new IdempotencyKey(), {
+    id: 'idem_1',
+    merchant_id: 'merchant_1',
+    key: 'key_1',
+    fingerprint: 'fp',
+    status: IdempotencyStatus.IN_PROGRESS,
+    created_at: new Date(),
+    expires_at: new Date(Date.now() + IDEMPOTENCY_TTL_MS),
+    ...values
+  });
+
+describe('IdempotencyService.claim', () => {
+  const inserts: Array<{ raw: unknown[] }> = [];
+  const builder: any = new Proxy({}, {
+    get: (_, name) => (name === 'execute' ? async () => inserts.shift() : () => builder)
+  });
+  const repository = {
+    createQueryBuilder: () => builder,
+    findOne: jest.fn(),
+    delete: jest.fn().mockResolvedValue({ affected: 1 }),
+    create: (values: object) => values
+  };
+  let service: IdempotencyService;
+
+  beforeEach(() => {
+    jest.spyOn(AppDataSource, 'getRepository').mockReturnValue(repository as any);
+    inserts.length = 0;
+    repository.findOne.mockReset();
+    repository.delete.mockClear();
+    service = new IdempotencyService();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('replays a completed key sent with the same request', async () => {
+    inserts.push({ raw: [] });
+    repository.findOne.mockResolvedValue(existing({ status: IdempotencyStatus.COMPLETED }));
+
+    expect(await service.claim('merchant_1', 'key_1', 'fp')).toMatchObject({ outcome: 'replay' });
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    inserts.push({ raw: [] });
+    repository.findOne.mockResolvedValue(existing({ status: IdempotencyStatus.COMPLETED }));
+
+    expect(await service.claim('merchant_1', 'key_1', 'other')).toEqual({ outcome: 'mismatch' });
+  });
+
+  it('reports a recent key still in progress', async () => {
+    inserts.push({ raw: [] });
+    repository.findOne.mockResolvedValue(existing({}));
+
+    expect(await service.claim('merchant_1', 'key_1', 'fp')).toEqual({ outcome: 'in_progress' });
+    expect(repository.delete).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'idem_1' }));
+  });
+
+  it.each([
+    ['an expired key', { expires_at: new Date(Date.now() - 1000), status: IdempotencyStatus.COMPLETED }],
+    ['a key abandoned in progress', { created_at: new Date(Date.now() - IN_PROGRESS_TIMEOUT_MS - 1000) }]
+  ])('claims %s again', async (_, values) => {
+    inserts.push({ raw: [] }, { raw: [{ id: 'idem_2' }] });
+    repository.findOne.mockResolvedValue(existing(values));
+
+    const claim = await service.claim('merchant_1', 'key_1', 'fp');
+
+    expect(claim).toEqual({ outcome: 'claimed', record: { id: 'idem_2' } });
+    expect(repository.delete).toHaveBeenCalledWith(expect.objectContaining({ id: 'idem_1' }));
+  });
+});
@@ -0,0 +1,79 @@
+import { AppDataSource } from '../../config/database';
+import { connectorRegistry } from '../../connectors/ConnectorRegistry';
+import { MerchantPSPAccount } from '../../models/MerchantPSPAccount';
+import { PSPProvider } from '../../types/payment.types';
+import { PSPAccountService } from '../PSPAccountService';
+
+const account = (overrides: Partial<MerchantPSPAccount> = {}): MerchantPSPAccount =>
+  Object.assign(new MerchantPSPAccount(), {
+    id: '0f8fad5b-d9cb-469f-a165-70867728950e',
+    merchant_id: 'merchant_1',
+    psp_provider: PSPProvider.TAP,
+    credentials: { api_key: 'sk_test_merchant' },
+    options: null,
+    enabled: true,
+    updated_at: new Date('2026-01-01'),
+    ...overrides
+  });
+
+describe('PSPAccountService', () => {
+  const repository = { findOne: jest.fn(), createQueryBuilder: jest.fn() };
+  let service: PSPAccountService;
+
+  beforeEach(() => {
+    jest.spyOn(AppDataSource, 'getRepository').mockReturnValue(repository as any);
+    repository.findOne.mockReset();
+    repository.createQueryBuilder.mockReset();
+    service = new PSPAccountService();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('getWebhookCandidates', () => {
+    it('resolves the account named in the webhook URL with a single lookup', async () => {
+      repository.findOne.mockResolvedValue(account());
+
+      const candidates = await service.getWebhookCandidates(PSPProvider.TAP, {}, account().id);
+
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { id: account().id, psp_provider: PSPProvider.TAP, enabled: true }
+      });
+      expect(candidates).toHaveLength(1);
+      expect(candidates[0].account_id).toBe(account().id);
+    });
+
+    it('finds nothing for an unknown account, even when the platform account exists', async () => {
+      repository.findOne.mockResolvedValue(null);
+      jest.spyOn(connectorRegistry, 'isEnabled').mockReturnValue(true);
+
+      expect(await service.getWebhookCandidates(PSPProvider.TAP, {}, account().id)).toEqual([]);
+    });
+
+    it('only offers the platform account when the webhook names no account', async () => {
+      jest.spyOn(connectorRegistry, 'isEnabled').mockReturnValue(true);
+      const platform = {} as any;
+      jest.spyOn(connectorRegistry, 'get').mockReturnValue(platform);
+
+      const candidates = await service.getWebhookCandidates(PSPProvider.TAP, {});
+
+      expect(repository.findOne).not.toHaveBeenCalled();
+      expect(repository.createQueryBuilder).not.toHaveBeenCalled();
+      expect(candidates).toEqual([{ connector: platform, account_id: null, merchant_id: null }]);
+    });
+  });
+
+  it('builds connectors for the stored api_url only when it is a PSP host', async () => {
+    const build = jest.spyOn(connectorRegistry, 'build');
+    jest.spyOn(connectorRegistry, 'getConfig').mockReturnValue({
+      name: PSPProvider.TAP, api_key: '', api_url: 'https://api.tap.company/v2', enabled: false
+    });
+
+    repository.findOne.mockResolvedValue(account({ api_url: 'http://169.254.169.254/latest' }));
+    await service.getWebhookCandidates(PSPProvider.TAP, {}, account().id);
+    expect(build).toHaveBeenLastCalledWith(expect.objectContaining({ api_url: 'https://api.tap.company/v2' }));
+
+    repository.findOne.mockResolvedValue(account({ api_url: 'https://api.tap.company/v3', updated_at: new Date() }));
+    await service.getWebhookCandidates(PSPProvider.TAP, {}, account().id);
+    expect(build).toHaveBeenLastCalledWith(expect.objectContaining({ api_url: 'https://api.tap.company/v3' }));
+  });
+});
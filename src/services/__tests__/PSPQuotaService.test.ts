@@ -0,0 +1,153 @@
+import { AppDataSource } from '../../config/database';
+import { PSPQuota, QuotaPeriod } from '../../models/PSPQuota';
+import { Transaction } from '../../models/Transaction';
+import { Currency, PaymentStatus, PSPProvider } from '../../types/payment.types';
+import { PSPQuotaService } from '../PSPQuotaService';
+
+const quota = (overrides: Partial<PSPQuota> = {}): PSPQuota =>
+  Object.assign(new PSPQuota(), {
+    id: 'quota_1',
+    merchant_id: null,
+    psp_provider: PSPProvider.TAP,
+    period: QuotaPeriod.MONTH,
+    currency: Currency.SAR,
+    max_count: null,
+    max_amount: null,
+    min_count: null,
+    min_amount: null,
+    enabled: true,
+    ...overrides
+  });
+
+const transaction = (id: string, status: PaymentStatus, amount = 10000): Transaction =>
+  Object.assign(new Transaction(), {
+    id,
+    status,
+    amount,
+    merchant_id: 'merchant_1',
+    psp_provider: PSPProvider.TAP,
+    currency: Currency.SAR,
+    created_at: new Date()
+  });
+
+describe('PSPQuotaService', () => {
+  let quotas: PSPQuota[];
+  /** What the recount query returns — the approvals in the database */
+  let dbRows: object[];
+  let service: PSPQuotaService;
+
+  beforeEach(() => {
+    quotas = [];
+    dbRows = [];
+    const queryBuilder: any = new Proxy({}, {
+      get: (_, method) => method === 'getRawMany' ? async () => dbRows : () => queryBuilder
+    });
+    jest.spyOn(AppDataSource, 'getRepository').mockImplementation((entity: any) => (entity === PSPQuota
+      ? { find: async () => quotas }
+      : { createQueryBuilder: () => queryBuilder }) as any);
+    service = new PSPQuotaService();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const used = async () => (await service.getUsage())[0].used;
+  const dbCount = (count: number, amount: number) => {
+    dbRows = [{
+      merchant_id: 'merchant_1', psp: PSPProvider.TAP, currency: Currency.SAR,
+      day_count: String(count), day_amount: String(amount), month_count: String(count), month_amount: String(amount)
+    }];
+  };
+
+  describe('recordTransaction', () => {
+    beforeEach(() => {
+      quotas = [quota({ max_count: 100 })];
+    });
+
+    it('does not count a payment again after a recount included it', async () => {
+      await service.getUsage();
+      service.recordTransaction(transaction('t1', PaymentStatus.AUTHORIZED));
+      expect(await used()).toEqual({ count: 1, amount: 10000 });
+
+      // The recount now includes t1; its capture must not add it again
+      dbCount(1, 10000);
+      service.invalidate();
+      await service.getUsage();
+      service.recordTransaction(transaction('t1', PaymentStatus.PAID));
+
+      expect(await used()).toEqual({ count: 1, amount: 10000 });
+    });
+
+    it('counts a payment approved after midnight towards the day it was created', async () => {
+      quotas = [quota({ period: QuotaPeriod.DAY, max_count: 100 })];
+      await service.getUsage();
+
+      const yesterday = transaction('t1', PaymentStatus.PAID);
+      yesterday.created_at = new Date(Date.now() - 36 * 60 * 60 * 1000);
+      service.recordTransaction(yesterday);
+      service.recordTransaction(transaction('t2', PaymentStatus.PAID));
+
+      expect(await used()).toEqual({ count: 1, amount: 10000 });
+    });
+
+    it('never counts refunds or voids as new volume', async () => {
+      dbCount(1, 10000);
+      await service.getUsage();
+
+      service.recordTransaction(transaction('t1', PaymentStatus.REFUNDED));
+      service.recordTransaction(transaction('t1', PaymentStatus.PARTIALLY_REFUNDED));
+      service.recordTransaction(transaction('t2', PaymentStatus.VOIDED));
+
+      expect(await used()).toEqual({ count: 1, amount: 10000 });
+    });
+  });
+
+  describe('reserve', () => {
+    it('keeps concurrent payments from sharing the room left under a cap', async () => {
+      quotas = [quota({ max_count: 1 })];
+
+      expect(await service.reserve(transaction('t1', PaymentStatus.PENDING))).toBe(true);
+      expect(await service.reserve(transaction('t2', PaymentStatus.PENDING))).toBe(false);
+      expect((await service.check('merchant_1', 100, Currency.SAR)).capped).toEqual(new Set([PSPProvider.TAP]));
+    });
+
+    it('counts in-flight amounts against an amount cap', async () => {
+      quotas = [quota({ max_amount: 15000 })];
+
+      expect(await service.reserve(transaction('t1', PaymentStatus.PENDING, 10000))).toBe(true);
+      expect(await service.reserve(transaction('t2', PaymentStatus.PENDING, 10000))).toBe(false);
+      expect(await service.reserve(transaction('t3', PaymentStatus.PENDING, 5000))).toBe(true);
+    });
+
+    it('frees the room when the payment fails, and keeps it once approved', async () => {
+      quotas = [quota({ max_count: 1 })];
+      await service.reserve(transaction('t1', PaymentStatus.PENDING));
+
+      service.recordTransaction(transaction('t1', PaymentStatus.FAILED));
+      expect(await service.reserve(transaction('t2', PaymentStatus.PENDING))).toBe(true);
+
+      service.recordTransaction(transaction('t2', PaymentStatus.PAID));
+      expect(await used()).toEqual({ count: 1, amount: 10000 });
+      expect(await service.reserve(transaction('t3', PaymentStatus.PENDING))).toBe(false);
+    });
+
+    it('keeps the reservation while the payment waits for the PSP', async () => {
+      quotas = [quota({ max_count: 1 })];
+      await service.reserve(transaction('t1', PaymentStatus.PENDING));
+
+      service.recordTransaction(transaction('t1', PaymentStatus.PENDING));
+
+      expect(await service.reserve(transaction('t2', PaymentStatus.PENDING))).toBe(false);
+    });
+
+    it("moves a failed-over payment's reservation rather than holding two", async () => {
+      quotas = [quota({ max_count: 1 })];
+      const payment = transaction('t1', PaymentStatus.PENDING);
+
+      expect(await service.reserve(payment)).toBe(true);
+      expect(await service.reserve(payment)).toBe(true);
+      service.release('t1');
+
+      expect(await service.reserve(transaction('t2', PaymentStatus.PENDING))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { AppDataSource } from '../../config/database';
+import { PaymentService } from '../PaymentService';
+
+describe('PaymentService.getPayment', () => {
+  const repository = { findOne: jest.fn() };
+  let service: PaymentService;
+
+  beforeEach(() => {
+    jest.spyOn(AppDataSource, 'getRepository').mockReturnValue(repository as any);
+    repository.findOne.mockReset().mockResolvedValue(null);
+    service = new PaymentService();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("does not find another merchant's payment by either ID", async () => {
+    await expect(service.getPayment('merchant_1', 'pay_1')).rejects.toThrow('Transaction not found');
+
+    expect(repository.findOne).toHaveBeenCalledWith({
+      where: [
+        { id: 'pay_1', merchant_id: 'merchant_1' },
+        { psp_transaction_id: 'pay_1', merchant_id: 'merchant_1' }
+      ]
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { Refund, RefundStatus } from '../../models/Refund';
+import { PaymentStatus } from '../../types/payment.types';
+import { matchRefundReport, refundedStatus, refundTotal } from '../RefundLedger';
+
+const refund = (amount: number, status: RefundStatus, psp_refund_id?: string): Refund =>
+  Object.assign(new Refund(), { id: `rf_${amount}_${status}`, amount, status, psp_refund_id });
+
+describe('refund ledger', () => {
+  describe('refundedStatus', () => {
+    it('derives the status from the refunded total', () => {
+      expect(refundedStatus(PaymentStatus.PAID, 3000, 10000)).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+      expect(refundedStatus(PaymentStatus.PARTIALLY_REFUNDED, 10000, 10000)).toBe(PaymentStatus.REFUNDED);
+      expect(refundedStatus(PaymentStatus.REFUNDED, 0, 10000)).toBe(PaymentStatus.PAID);
+    });
+
+    it('leaves payments that were never paid alone', () => {
+      expect(refundedStatus(PaymentStatus.VOIDED, 0, 10000)).toBe(PaymentStatus.VOIDED);
+      expect(refundedStatus(PaymentStatus.AUTHORIZED, 0, 10000)).toBe(PaymentStatus.AUTHORIZED);
+    });
+  });
+
+  it('only counts succeeded refunds towards the total', () => {
+    const refunds = [
+      refund(1000, RefundStatus.SUCCEEDED),
+      refund(2000, RefundStatus.PENDING),
+      refund(4000, RefundStatus.FAILED)
+    ];
+    expect(refundTotal(refunds)).toBe(1000);
+    expect(refundTotal(refunds, [RefundStatus.SUCCEEDED, RefundStatus.PENDING])).toBe(3000);
+  });
+
+  describe('matchRefundReport', () => {
+    it('ignores a webhook for a refund the API already settled', () => {
+      const refunds = [refund(3000, RefundStatus.SUCCEEDED, 'act_1')];
+      expect(matchRefundReport(refunds, { psp_refund_id: 'act_1', amount: 3000, succeeded: true }))
+        .toEqual({ action: 'none' });
+    });
+
+    it('settles a pending refund when the webhook beats the API response', () => {
+      const pending = refund(3000, RefundStatus.PENDING);
+      const refunds = [refund(2000, RefundStatus.SUCCEEDED, 'act_0'), pending];
+      expect(matchRefundReport(refunds, { psp_refund_id: 'act_1', amount: 3000, succeeded: true }))
+        .toEqual({ action: 'settle', refund: pending });
+    });
+
+    it('marks a known refund failed when the PSP declines it', () => {
+      const known = refund(3000, RefundStatus.SUCCEEDED, 'act_1');
+      expect(matchRefundReport([known], { psp_refund_id: 'act_1', amount: 3000, succeeded: false }))
+        .toEqual({ action: 'settle', refund: known });
+    });
+
+    it('records a refund made outside the API', () => {
+      const refunds = [refund(3000, RefundStatus.SUCCEEDED, 'act_1')];
+      expect(matchRefundReport(refunds, { psp_refund_id: 'act_2', amount: 1500, succeeded: true }))
+        .toEqual({ action: 'record', amount: 1500 });
+    });
+
+    it('never records a failed refund it does not know', () => {
+      expect(matchRefundReport([], { psp_refund_id: 'act_9', amount: 1500, succeeded: false }))
+        .toEqual({ action: 'none' });
+    });
+
+    describe('running totals (Moyasar)', () => {
+      it('does not double-count a partial refund the API already applied', () => {
+        const refunds = [refund(3000, RefundStatus.SUCCEEDED, 'rf_1')];
+        expect(matchRefundReport(refunds, { refunded_total: 3000, succeeded: true })).toEqual({ action: 'none' });
+      });
+
+      it('settles the pending refund the new total accounts for', () => {
+        const pending = refund(2000, RefundStatus.PENDING);
+        const refunds = [refund(3000, RefundStatus.SUCCEEDED, 'rf_1'), pending];
+        expect(matchRefundReport(refunds, { refunded_total: 5000, succeeded: true }))
+          .toEqual({ action: 'settle', refund: pending });
+      });
+
+      it('waits for pending refunds when the total does not match them', () => {
+        const refunds = [refund(2000, RefundStatus.PENDING)];
+        expect(matchRefundReport(refunds, { refunded_total: 4500, succeeded: true })).toEqual({ action: 'none' });
+      });
+
+      it('records the difference when nothing is pending', () => {
+        const refunds = [refund(3000, RefundStatus.SUCCEEDED, 'rf_1')];
+        expect(matchRefundReport(refunds, { refunded_total: 4000, succeeded: true }))
+          .toEqual({ action: 'record', amount: 1000 });
+      });
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { EventEmitter } from 'events';
+import { AppDataSource } from '../../config/database';
+import { RoutingRuleCache } from '../RoutingRuleCache';
+
+const fakeRedis = () => Object.assign(new EventEmitter(), {
+  connect: jest.fn().mockResolvedValue(undefined),
+  publish: jest.fn().mockResolvedValue(1),
+  subscribe: jest.fn().mockResolvedValue(1)
+});
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RoutingRuleCache', () => {
+  const repository = { find: jest.fn().mockResolvedValue([]) };
+  let connections: ReturnType<typeof fakeRedis>[];
+  let cache: RoutingRuleCache;
+
+  beforeEach(() => {
+    jest.spyOn(AppDataSource, 'getRepository').mockReturnValue(repository as any);
+    connections = [];
+    jest.spyOn(RoutingRuleCache.prototype as any, 'connect').mockImplementation(() => {
+      const connection = fakeRedis();
+      connections.push(connection);
+      return connection;
+    });
+    repository.find.mockClear();
+    cache = new RoutingRuleCache();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('publishes again once Redis is back', async () => {
+    cache.invalidate();
+    const [publisher] = connections;
+    publisher.publish.mockRejectedValueOnce(new Error('Connection is closed.'));
+    await flush();
+
+    cache.invalidate();
+    await flush();
+    expect(publisher.publish).toHaveBeenCalledTimes(2);
+
+    publisher.emit('ready');
+    await flush();
+    expect(publisher.publish).toHaveBeenCalledTimes(3);
+  });
+
+  it('reloads on the short TTL until the subscription is confirmed and after it drops', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    await cache.getRules();
+    const [subscriber] = connections;
+    const loads = () => repository.find.mock.calls.length / 2;
+
+    now.mockReturnValue(31_000);
+    await cache.getRules();
+    expect(loads()).toBe(2);
+
+    subscriber.emit('ready');
+    await flush();
+    await cache.getRules();
+    now.mockReturnValue(100_000);
+    await cache.getRules();
+    expect(loads()).toBe(3);
+
+    subscriber.emit('close');
+    await cache.getRules();
+    expect(loads()).toBe(4);
+  });
+});
@@ -0,0 +1,123 @@
+import { connectorRegistry } from '../../connectors/ConnectorRegistry';
+import { RoutingRule } from '../../models/RoutingRule';
+import { Currency, PaymentMethod, PaymentRequest, PSPProvider } from '../../types/payment.types';
+import { feeScheduleService } from '../FeeScheduleService';
+import * as pspCapabilities from '../pspCapabilities';
+import { pspQuotaService } from '../PSPQuotaService';
+import { compileRule, routingRuleCache } from '../RoutingRuleCache';
+import { RoutingService } from '../RoutingService';
+import { successRateTracker } from '../SuccessRateTracker';
+
+const rule = (overrides: Partial<RoutingRule>): RoutingRule =>
+  Object.assign(new RoutingRule(), {
+    id: 'rule_1',
+    name: 'SAR to Tap',
+    priority: 10,
+    conditions: [{ field: 'currency', operator: 'equals', value: 'SAR' }],
+    target_psp: PSPProvider.TAP,
+    split: null,
+    enabled: true,
+    version: 2,
+    merchant_id: null,
+    ...overrides
+  });
+
+const request: PaymentRequest = {
+  amount: 100,
+  currency: Currency.SAR,
+  source: { type: PaymentMethod.CREDITCARD, token: 'tok_1' }
+};
+
+describe('RoutingService decisions', () => {
+  let service: RoutingService;
+  let belowMinimum: Set<PSPProvider>;
+
+  beforeEach(() => {
+    service = new RoutingService();
+    belowMinimum = new Set();
+    jest.spyOn(connectorRegistry, 'getEnabledProviders')
+      .mockReturnValue([PSPProvider.MOYASAR, PSPProvider.TAP, PSPProvider.CHECKOUT]);
+    jest.spyOn(pspQuotaService, 'check').mockImplementation(async () => ({ capped: new Set(), belowMinimum }));
+    jest.spyOn(feeScheduleService, 'usesCard').mockResolvedValue(false);
+    jest.spyOn(feeScheduleService, 'estimate').mockResolvedValue(new Map());
+    jest.spyOn(routingRuleCache, 'getRules').mockResolvedValue([compileRule(rule({}))]);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const withMode = (mode: 'rules' | 'auto' | 'cost') => jest.spyOn(service as any, 'getMode').mockResolvedValue(mode);
+
+  it('records the rule that picked the PSP in rules mode', async () => {
+    withMode('rules');
+    const { psp, decision } = await service.route(request);
+
+    expect(psp).toBe(PSPProvider.TAP);
+    expect(decision.source).toBe('rule');
+    expect(decision.rule).toEqual({ id: 'rule_1', name: 'SAR to Tap', version: 2, scope: 'global' });
+    expect(decision.candidate_rule).toBeUndefined();
+  });
+
+  it('reports the matching rule only as a candidate rule when auto mode ranks the pool', async () => {
+    withMode('auto');
+    jest.spyOn(successRateTracker, 'getRate').mockImplementation((psp) =>
+      ({ attempts: 50, approved: 0, rate: psp === PSPProvider.MOYASAR ? 99 : 50 }));
+    jest.spyOn(Math, 'random').mockReturnValue(0.99); // no exploration
+
+    const { decision } = await service.route(request);
+
+    expect(decision.source).toBe('auto');
+    expect(decision.rule).toBeNull();
+    expect(decision.candidate_rule).toMatchObject({ id: 'rule_1' });
+  });
+
+  it('reports the matching rule only as a candidate rule in cost mode', async () => {
+    withMode('cost');
+    const { decision } = await service.route(request);
+
+    expect(decision.rule).toBeNull();
+    expect(decision.candidate_rule).toMatchObject({ id: 'rule_1' });
+  });
+
+  it('does not credit the rule when a PSP below its minimum moves ahead of it', async () => {
+    withMode('rules');
+    jest.spyOn(routingRuleCache, 'getRules').mockResolvedValue([
+      compileRule(rule({})),
+      compileRule(rule({ id: 'rule_2', name: 'SAR to Moyasar', priority: 5, target_psp: PSPProvider.MOYASAR }))
+    ]);
+    belowMinimum.add(PSPProvider.MOYASAR);
+
+    const { psp, decision } = await service.route(request);
+
+    expect(psp).toBe(PSPProvider.MOYASAR);
+    expect(decision.rule).toBeNull();
+    expect(decision.candidate_rule).toMatchObject({ id: 'rule_1' });
+  });
+
+  it('falls back to DEFAULT_PSP only when it is available', async () => {
+    withMode('rules');
+    jest.spyOn(connectorRegistry, 'getEnabledProviders').mockReturnValue([PSPProvider.TAP, PSPProvider.CHECKOUT]);
+
+    expect((await service.route(request)).decision.candidates).toEqual([PSPProvider.TAP]);
+
+    jest.spyOn(routingRuleCache, 'getRules').mockResolvedValue([]);
+    const { psp, decision } = await service.route(request);
+    expect(psp).toBe(PSPProvider.TAP);
+    expect(decision.source).toBe('fallback');
+    expect(decision.candidates).toEqual([PSPProvider.TAP, PSPProvider.CHECKOUT]);
+  });
+
+  it('only sends payments to the mock PSP when a rule names it', async () => {
+    withMode('auto');
+    jest.spyOn(connectorRegistry, 'getEnabledProviders').mockReturnValue([PSPProvider.TAP, PSPProvider.MOCK]);
+    jest.spyOn(pspCapabilities, 'capabilityGap').mockReturnValue(null);
+    jest.spyOn(routingRuleCache, 'getRules').mockResolvedValue([]);
+    jest.spyOn(Math, 'random').mockReturnValue(0.99); // no exploration
+
+    expect((await service.route(request)).decision.candidates).toEqual([PSPProvider.TAP]);
+
+    jest.spyOn(routingRuleCache, 'getRules').mockResolvedValue([
+      compileRule(rule({ name: 'SAR to mock', target_psp: PSPProvider.MOCK }))
+    ]);
+    expect((await service.route(request)).psp).toBe(PSPProvider.MOCK);
+  });
+});
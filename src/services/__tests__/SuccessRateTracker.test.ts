@@ -0,0 +1,41 @@
+import { Transaction } from '../../models/Transaction';
+import { Currency, PaymentMethod, PaymentStatus, PSPProvider } from '../../types/payment.types';
+import { APPROVED_STATUSES, SuccessRateTracker } from '../SuccessRateTracker';
+
+const transaction = (id: string, status: PaymentStatus): Transaction =>
+  Object.assign(new Transaction(), {
+    id,
+    status,
+    psp_provider: PSPProvider.TAP,
+    payment_method: PaymentMethod.CREDITCARD,
+    currency: Currency.SAR
+  });
+
+describe('SuccessRateTracker', () => {
+  it('only counts final approvals as approved', () => {
+    expect(APPROVED_STATUSES.has(PaymentStatus.PAID)).toBe(true);
+    expect(APPROVED_STATUSES.has(PaymentStatus.AUTHORIZED)).toBe(true);
+    expect(APPROVED_STATUSES.has(PaymentStatus.PROCESSING)).toBe(false);
+    expect(APPROVED_STATUSES.has(PaymentStatus.PENDING)).toBe(false);
+  });
+
+  it('waits for the final outcome of a payment that is still processing', () => {
+    const tracker = new SuccessRateTracker();
+
+    tracker.recordTransaction(transaction('t1', PaymentStatus.PROCESSING));
+    expect(tracker.getRate(PSPProvider.TAP)).toMatchObject({ attempts: 0, approved: 0 });
+
+    tracker.recordTransaction(transaction('t1', PaymentStatus.FAILED));
+    expect(tracker.getRate(PSPProvider.TAP)).toMatchObject({ attempts: 1, approved: 0 });
+  });
+
+  it('counts each transaction once per PSP', () => {
+    const tracker = new SuccessRateTracker();
+
+    tracker.recordTransaction(transaction('t1', PaymentStatus.PAID));
+    tracker.recordTransaction(transaction('t1', PaymentStatus.REFUNDED));
+    tracker.recordTransaction(transaction('t2', PaymentStatus.FAILED));
+
+    expect(tracker.getRate(PSPProvider.TAP)).toMatchObject({ attempts: 2, approved: 1 });
+  });
+});
@@ -0,0 +1,39 @@
+import { capabilityGap, ruleCapabilityWarnings } from '../pspCapabilities';
+import { Currency, PaymentMethod, PaymentRequest, PSPProvider } from '../../types/payment.types';
+
+const tokenPayment = (currency: Currency, type: PaymentMethod): PaymentRequest => ({
+  amount: 100,
+  currency,
+  source: { type, token: 'tok_1' }
+});
+
+describe('capabilityGap', () => {
+  it('skips PSPs that do not process the currency', () => {
+    expect(capabilityGap(PSPProvider.CHECKOUT, tokenPayment(Currency.EGP, PaymentMethod.CREDITCARD)))
+      .toBe('currency EGP not supported');
+    expect(capabilityGap(PSPProvider.TAP, tokenPayment(Currency.EGP, PaymentMethod.CREDITCARD))).toBeNull();
+  });
+
+  it('only takes mada and STC Pay in SAR', () => {
+    expect(capabilityGap(PSPProvider.PAYTABS, tokenPayment(Currency.USD, PaymentMethod.MADA)))
+      .toBe('payment method mada not supported in USD');
+    expect(capabilityGap(PSPProvider.TAP, tokenPayment(Currency.KWD, PaymentMethod.STC_PAY)))
+      .toBe('payment method stcpay not supported in KWD');
+    expect(capabilityGap(PSPProvider.HYPERPAY, tokenPayment(Currency.SAR, PaymentMethod.MADA))).toBeNull();
+  });
+
+  it('knows no mock PSP unless MOCK_PSP_ENABLED is set', () => {
+    expect(capabilityGap(PSPProvider.MOCK, tokenPayment(Currency.SAR, PaymentMethod.CREDITCARD))).toBe('no connector');
+  });
+});
+
+describe('ruleCapabilityWarnings', () => {
+  it('warns when a rule sends mada outside SAR', () => {
+    const warnings = ruleCapabilityWarnings([
+      { field: 'payment_method', operator: 'equals', value: 'mada' },
+      { field: 'currency', operator: 'equals', value: 'AED' }
+    ], [PSPProvider.CHECKOUT]);
+
+    expect(warnings).toEqual(['checkout does not support payment method mada in AED']);
+  });
+});
@@ -0,0 +1,62 @@
+import { compileConditions, validateConditions } from '../routingConditions';
+import { Currency, PSPProvider, RuleCondition } from '../../types/payment.types';
+
+const regex = (value: string): RuleCondition[] => [{ field: 'metadata.reference', operator: 'regex', value }];
+
+const context = (reference: string) => ({
+  request: { amount: 100, currency: Currency.SAR, metadata: { reference } },
+  target: PSPProvider.MOYASAR,
+  card: null,
+  now: new Date()
+});
+
+describe('routing condition regexes', () => {
+  it('accepts ordinary patterns and matches case-insensitively', () => {
+    expect(validateConditions(regex('^inv-\\d{4,8}$'))).toBeNull();
+    expect(compileConditions(regex('^inv-\\d{4,8}$'))(context('INV-12345'))).toBe(true);
+  });
+
+  it.each([
+    ['numbered backreferences', '(a)\\1'],
+    ['named backreferences', '(?<x>a)\\k<x>'],
+    ['lookahead', '^(?=inv-)']
+  ])('rejects %s', (_, pattern) => {
+    expect(validateConditions(regex(pattern))).toMatch(/^conditions\[0\]: regex/);
+  });
+
+  it.each([
+    ['nested quantifiers', '^(a+)+$', 'a'.repeat(40) + '!'],
+    ['a repeated alternation', '^(a|ab)*$', 'a'.repeat(40) + '!'],
+    ['stacked wildcards', '.*.*.*.*.*!', 'a'.repeat(256)]
+  ])('runs %s in linear time', (_, pattern, reference) => {
+    expect(validateConditions(regex(pattern))).toBeNull();
+    const matches = compileConditions(regex(pattern));
+    const started = Date.now();
+    expect(matches(context(reference))).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('never runs a pattern RE2 does not support saved before validation', () => {
+    expect(compileConditions(regex('(a)\\1'))(context('aa'))).toBe(false);
+  });
+
+  it('does not match values longer than the input limit', () => {
+    const matches = compileConditions(regex('^a+$'));
+    expect(matches(context('a'.repeat(256)))).toBe(true);
+    expect(matches(context('a'.repeat(257)))).toBe(false);
+  });
+});
+
+describe('card conditions', () => {
+  it('matches card_type against the card scheme', () => {
+    const matches = compileConditions([{ field: 'card_type', operator: 'equals', value: 'MADA' }]);
+    const card = {
+      bin: '440647', card_brand: 'visa', card_scheme: 'mada', card_type: 'mada',
+      issuer_country: 'SA', funding_type: null
+    };
+
+    expect(validateConditions([{ field: 'card_type', operator: 'equals', value: 'mada' }])).toBeNull();
+    expect(matches({ ...context('x'), card })).toBe(true);
+    expect(matches(context('x'))).toBe(false);
+  });
+});
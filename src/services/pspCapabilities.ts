@@ -0,0 +1,114 @@
+import { connectorRegistry } from '../connectors/ConnectorRegistry';
+import { Currency, PaymentMethod, PaymentRequest, PSPProvider, RoutingCondition, RuleCondition } from '../types/payment.types';
+
+/** How a payment reaches the PSP, from what the request carries */
+export type PaymentFlow = 'token' | 'card_data' | 'hosted_page';
+
+export const paymentFlow = (request: PaymentRequest): PaymentFlow => {
+  if (request.source?.token) return 'token';
+  if (request.source?.number) return 'card_data';
+  return 'hosted_page';
+};
+
+const FLOW_LABELS: Record<PaymentFlow, string> = {
+  token: 'token payments',
+  card_data: 'direct card payments',
+  hosted_page: 'hosted payment pages'
+};
+
+/**
+ * Why the PSP's connector can't process this payment (see PSPCapabilities),
+ * or null when it can.
+ */
+export const capabilityGap = (psp: PSPProvider, request: PaymentRequest): string | null => {
+  const capabilities = connectorRegistry.getCapabilities(psp);
+  if (!capabilities) return 'no connector';
+
+  // Without a source the shopper picks the method on the PSP's own page
+  const method = request.source?.type;
+  if (method && !capabilities.payment_methods.includes(method)) {
+    return `payment method ${method} not supported`;
+  }
+  if (!capabilities.currencies.includes(request.currency)) {
+    return `currency ${request.currency} not supported`;
+  }
+  const methodCurrencies = method && capabilities.method_currencies?.[method];
+  if (methodCurrencies && !methodCurrencies.includes(request.currency)) {
+    return `payment method ${method} not supported in ${request.currency}`;
+  }
+
+  const flow = paymentFlow(request);
+  const supportsFlow = {
+    token: capabilities.supports_token,
+    card_data: capabilities.supports_card_data,
+    hosted_page: capabilities.supports_hosted_page
+  }[flow];
+  if (!supportsFlow) return `${FLOW_LABELS[flow]} not supported`;
+
+  if (request.capture === false && !capabilities.supports_capture) {
+    return 'authorize-only payments not supported';
+  }
+
+  const limits = capabilities.amount_limits?.[request.currency];
+  const amount = Number(request.amount);
+  if (limits?.min !== undefined && amount < limits.min) {
+    return `amount below the ${limits.min} ${request.currency} minimum`;
+  }
+  if (limits?.max !== undefined && amount > limits.max) {
+    return `amount above the ${limits.max} ${request.currency} maximum`;
+  }
+  return null;
+};
+
+/**
+ * Warnings for a rule whose conditions only let through payments some of its
+ * target PSPs can't process — e.g. `payment_method equals stcpay` routed to a
+ * PSP without STC Pay. Only conditions every matching payment must meet are
+ * considered: top-level ones and those in `all` groups.
+ */
+export const ruleCapabilityWarnings = (conditions: RuleCondition[], targets: PSPProvider[]): string[] => {
+  const required = requiredConditions(conditions);
+  const allowed = (field: string): string[] => required
+    .filter(c => c.field === field && (c.operator === 'equals' || c.operator === 'in'))
+    .flatMap(c => (Array.isArray(c.value) ? c.value : [c.value]))
+    .map(String);
+
+  const currencies = allowed('currency').map(v => v.toUpperCase());
+  const methods = allowed('payment_method').map(v => v.toLowerCase());
+  const tokenOnly = required.some(c => c.field === 'has_token' && c.operator === 'equals' && c.value === true);
+
+  const warnings: string[] = [];
+  for (const psp of new Set(targets)) {
+    const capabilities = connectorRegistry.getCapabilities(psp);
+    if (!capabilities) continue;
+
+    for (const currency of currencies) {
+      if (!capabilities.currencies.includes(currency as Currency)) {
+        warnings.push(`${psp} does not support currency ${currency}`);
+      }
+    }
+    for (const method of methods) {
+      if (!capabilities.payment_methods.includes(method as PaymentMethod)) {
+        warnings.push(`${psp} does not support payment method ${method}`);
+        continue;
+      }
+      const methodCurrencies = capabilities.method_currencies?.[method as PaymentMethod];
+      for (const currency of currencies) {
+        if (methodCurrencies && !methodCurrencies.includes(currency as Currency)) {
+          warnings.push(`${psp} does not support payment method ${method} in ${currency}`);
+        }
+      }
+    }
+    if (tokenOnly && !capabilities.supports_token) {
+      warnings.push(`${psp} does not support token payments`);
+    }
+  }
+  return warnings;
+};
+
+const requiredConditions = (conditions: RuleCondition[]): RoutingCondition[] =>
+  conditions.flatMap((c) => {
+    if ('all' in c) return requiredConditions(c.all);
+    if ('any' in c) return [];
+    return [c];
+  });
@@ -0,0 +1,427 @@
+import { RE2JS } from 're2js';
+import { loadRoutingConfig } from '../config/routing';
+import {
+  ConditionField,
+  ConditionOperator,
+  ConditionValue,
+  PaymentMethod,
+  PaymentRequest,
+  PSPProvider,
+  RoutingCondition,
+  RuleCondition
+} from '../types/payment.types';
+import { CardInfo } from './BinLookupService';
+import { successRateTracker } from './SuccessRateTracker';
+import { logger } from '../utils/logger';
+
+/**
+ * The routing rule condition language.
+ *
+ * A rule's `conditions` list must all hold. Each entry is either a condition
+ * `{ field, operator, value }` or a group — `{ any: [...] }` (one member must
+ * hold) or `{ all: [...] }` (every member must) — nested up to MAX_DEPTH.
+ *
+ * String comparisons ignore case. A condition on a value the payment doesn't
+ * have (no card, no customer country, a missing metadata key, a success rate
+ * without enough samples) never matches, whatever the operator.
+ */
+
+/** What a condition is evaluated against */
+export interface ConditionContext {
+  request: PaymentRequest;
+  merchantId?: string;
+  /** PSP the rule resolved to — used by success_rate */
+  target: PSPProvider;
+  /** BIN lookup of the payment's card, when a rule needs it */
+  card: CardInfo | null;
+  now: Date;
+}
+
+/** How a field's values compare, and so which operators it accepts */
+type FieldKind = 'number' | 'string' | 'boolean' | 'time' | 'day' | 'any';
+
+const FIELDS: Record<Exclude<ConditionField, `metadata.${string}`>, FieldKind> = {
+  amount: 'number',
+  currency: 'string',
+  payment_method: 'string',
+  has_token: 'boolean',
+  success_rate: 'number',
+  card_brand: 'string',
+  card_scheme: 'string',
+  card_type: 'string',
+  issuer_country: 'string',
+  funding_type: 'string',
+  customer_country: 'string',
+  merchant_id: 'string',
+  time_of_day: 'time',
+  day_of_week: 'day'
+};
+
+const ORDERING: ConditionOperator[] = ['greater_than', 'less_than', 'greater_than_or_equal', 'less_than_or_equal'];
+
+const OPERATORS: Record<FieldKind, ConditionOperator[]> = {
+  number: ['equals', 'not_equals', ...ORDERING, 'between', 'in', 'not_in'],
+  string: ['equals', 'not_equals', 'in', 'not_in', 'contains', 'regex'],
+  boolean: ['equals', 'not_equals'],
+  time: [...ORDERING, 'between'],
+  day: ['equals', 'not_equals', 'in', 'not_in'],
+  any: ['equals', 'not_equals', ...ORDERING, 'between', 'in', 'not_in', 'contains', 'regex']
+};
+
+/** Fields answered from the BIN table — see BinLookupService */
+export const CARD_FIELDS = new Set<string>(['card_brand', 'card_scheme', 'card_type', 'issuer_country', 'funding_type']);
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const METADATA_PATTERN = /^metadata(\.[A-Za-z0-9_-]+)+$/;
+const MAX_DEPTH = 4;
+const MAX_REGEX_LENGTH = 200;
+/** Longer values never match a regex condition */
+const MAX_REGEX_INPUT_LENGTH = 256;
+
+const config = loadRoutingConfig();
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Check a rule's conditions before they are saved. Returns an error message
+ * naming the offending entry (e.g. `conditions[1].any[0]: …`), or null.
+ */
+export const validateConditions = (conditions: unknown): string | null => {
+  if (!Array.isArray(conditions)) return 'conditions must be an array';
+  return validateList(conditions, 'conditions', 1);
+};
+
+const validateList = (list: unknown[], path: string, depth: number): string | null => {
+  for (let i = 0; i < list.length; i++) {
+    const error = validateEntry(list[i], `${path}[${i}]`, depth);
+    if (error) return error;
+  }
+  return null;
+};
+
+const validateEntry = (entry: any, path: string, depth: number): string | null => {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return `${path}: must be a condition or an { any } / { all } group`;
+  }
+
+  const groupKey = 'any' in entry ? 'any' : 'all' in entry ? 'all' : null;
+  if (groupKey) {
+    if (Object.keys(entry).length !== 1) return `${path}: a group has exactly one key, any or all`;
+    if (depth >= MAX_DEPTH) return `${path}: groups nest at most ${MAX_DEPTH - 1} levels deep`;
+    const members = entry[groupKey];
+    if (!Array.isArray(members) || members.length === 0) {
+      return `${path}.${groupKey}: must be a non-empty array`;
+    }
+    return validateList(members, `${path}.${groupKey}`, depth + 1);
+  }
+
+  const { field, operator, value } = entry as RoutingCondition;
+  const kind = fieldKind(field);
+  if (!kind) {
+    return `${path}: unknown field "${field}". Valid fields: ${Object.keys(FIELDS).join(', ')}, metadata.<key>`;
+  }
+  if (!OPERATORS[kind].includes(operator)) {
+    return `${path}: operator "${operator}" is not valid for ${field}. Use one of: ${OPERATORS[kind].join(', ')}`;
+  }
+
+  const valueError = validateValue(kind, operator, value);
+  return valueError ? `${path}: ${valueError}` : null;
+};
+
+const validateValue = (kind: FieldKind, operator: ConditionOperator, value: unknown): string | null => {
+  const isScalar = (v: unknown) => typeof v === 'string' || (typeof v === 'number' && Number.isFinite(v));
+  const checkOne = (v: unknown): string | null => {
+    if (kind === 'time') return typeof v === 'string' && TIME_PATTERN.test(v) ? null : `"${v}" is not an HH:MM time`;
+    if (kind === 'day') return DAYS.includes(String(v).toLowerCase()) ? null : `"${v}" is not a day (${DAYS.join(', ')})`;
+    if (kind === 'boolean') return typeof v === 'boolean' ? null : 'value must be true or false';
+    if (kind === 'number' && !(typeof v === 'number' && Number.isFinite(v))) return 'value must be a number';
+    return isScalar(v) ? null : 'value must be a string or number';
+  };
+
+  switch (operator) {
+    case 'in':
+    case 'not_in':
+      if (!Array.isArray(value) || value.length === 0) return `${operator} needs a non-empty array value`;
+      for (const v of value) {
+        const error = checkOne(v);
+        if (error) return error;
+      }
+      return null;
+
+    case 'between': {
+      if (!Array.isArray(value) || value.length !== 2) return 'between needs a [min, max] value';
+      if (kind === 'time') return checkOne(value[0]) ?? checkOne(value[1]);
+      const [min, max] = value;
+      if (typeof min !== 'number' || typeof max !== 'number' || !Number.isFinite(min) || !Number.isFinite(max)) {
+        return 'between needs two numbers';
+      }
+      return min <= max ? null : 'between needs min <= max';
+    }
+
+    case 'greater_than':
+    case 'less_than':
+    case 'greater_than_or_equal':
+    case 'less_than_or_equal':
+      if (kind === 'time') return checkOne(value);
+      return typeof value === 'number' && Number.isFinite(value) ? null : `${operator} needs a number`;
+
+    case 'regex':
+      if (typeof value !== 'string' || !value) return 'regex needs a pattern string';
+      if (value.length > MAX_REGEX_LENGTH) return `regex patterns are limited to ${MAX_REGEX_LENGTH} characters`;
+      try {
+        RE2JS.compile(value);
+      } catch (error: any) {
+        return `regex "${value}" is not supported: ${error.message}`;
+      }
+      return null;
+
+    case 'contains':
+      return isScalar(value) ? null : 'contains needs a string value';
+
+    default:
+      return checkOne(value);
+  }
+};
+
+const fieldKind = (field: unknown): FieldKind | null => {
+  if (typeof field !== 'string') return null;
+  if (METADATA_PATTERN.test(field)) return 'any';
+  return Object.prototype.hasOwnProperty.call(FIELDS, field) ? FIELDS[field as keyof typeof FIELDS] : null;
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * A rule's conditions, resolved once — field kinds looked up and checked,
+ * regexes compiled — into a predicate that only reads the payment.
+ */
+export type CompiledConditions = (ctx: ConditionContext) => boolean;
+
+/** Compile a conditions list; an empty list always matches */
+export const compileConditions = (conditions: RuleCondition[] | null | undefined): CompiledConditions => {
+  const checks = (conditions ?? []).map(compileEntry);
+  return ctx => checks.every(check => check(ctx));
+};
+
+/** Every field the conditions refer to, groups included */
+export const conditionFields = (conditions: RuleCondition[] | null | undefined): string[] =>
+  (conditions ?? []).flatMap((c) => {
+    if ('any' in c) return conditionFields(c.any);
+    if ('all' in c) return conditionFields(c.all);
+    return [c.field];
+  });
+
+const compileEntry = (entry: RuleCondition): CompiledConditions => {
+  if ('any' in entry) {
+    const members = entry.any.map(compileEntry);
+    return ctx => members.some(m => m(ctx));
+  }
+  if ('all' in entry) {
+    const members = entry.all.map(compileEntry);
+    return ctx => members.every(m => m(ctx));
+  }
+
+  const kind = fieldKind(entry.field);
+  if (!kind || !OPERATORS[kind].includes(entry.operator)) {
+    // Only rules saved before validation existed can get here
+    logger.warn(`[routing] ignoring rule condition with unknown field or operator: ${entry.field} ${entry.operator}`);
+    return () => false;
+  }
+  if (entry.operator === 'regex' && !compile(String(entry.value))) {
+    // Only rules saved before validation existed, or before regexes ran on RE2, can get here
+    logger.warn(`[routing] ignoring rule condition with invalid regex: ${entry.value}`);
+    return () => false;
+  }
+  return ctx => compare(entry, kind, resolveField(entry.field, ctx));
+};
+
+const compare = (c: RoutingCondition, kind: FieldKind, actual: unknown): boolean => {
+  if (actual === undefined || actual === null || actual === '') return false;
+
+  const v = c.value;
+  switch (c.operator) {
+    case 'equals':                return same(actual, v, kind);
+    case 'not_equals':            return !same(actual, v, kind);
+    case 'in':                    return asList(v).some(x => same(actual, x, kind));
+    case 'not_in':                return !asList(v).some(x => same(actual, x, kind));
+    case 'greater_than':          return toNumber(actual, kind) > toNumber(v, kind);
+    case 'less_than':             return toNumber(actual, kind) < toNumber(v, kind);
+    case 'greater_than_or_equal': return toNumber(actual, kind) >= toNumber(v, kind);
+    case 'less_than_or_equal':    return toNumber(actual, kind) <= toNumber(v, kind);
+    case 'between':               return between(actual, asList(v), kind);
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some(x => same(x, v, kind))
+        : String(actual).toLowerCase().includes(String(v).toLowerCase());
+    case 'regex': {
+      const re = compile(String(v));
+      const text = String(actual);
+      return !!re && text.length <= MAX_REGEX_INPUT_LENGTH && re.test(text);
+    }
+    default:                      return false;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Tracing (routing simulation)
+// ---------------------------------------------------------------------------
+
+/** One condition or group as evaluated — every member, no short-circuiting */
+export type ConditionTrace =
+  | {
+      field: string;
+      operator: string;
+      expected: ConditionValue;
+      /** The payment's value — null when it has none */
+      actual: unknown;
+      passed: boolean;
+    }
+  | { group: 'any' | 'all'; passed: boolean; members: ConditionTrace[] };
+
+/** Evaluate like compileConditions, recording each condition's outcome */
+export const traceConditions = (
+  conditions: RuleCondition[] | null | undefined,
+  ctx: ConditionContext
+): { matched: boolean; conditions: ConditionTrace[] } => {
+  const traced = (conditions ?? []).map(c => traceEntry(c, ctx));
+  return { matched: traced.every(t => t.passed), conditions: traced };
+};
+
+const traceEntry = (entry: RuleCondition, ctx: ConditionContext): ConditionTrace => {
+  if ('any' in entry || 'all' in entry) {
+    const group = 'any' in entry ? 'any' : 'all';
+    const members = ('any' in entry ? entry.any : entry.all).map(c => traceEntry(c, ctx));
+    const passed = group === 'any' ? members.some(m => m.passed) : members.every(m => m.passed);
+    return { group, passed, members };
+  }
+
+  const kind = fieldKind(entry.field);
+  const valid = kind !== null && OPERATORS[kind].includes(entry.operator);
+  const actual = kind ? resolveField(entry.field, ctx) : undefined;
+  return {
+    field: entry.field,
+    operator: entry.operator,
+    expected: entry.value,
+    actual: kind === 'time' && typeof actual === 'number' ? formatMinutes(actual) : actual ?? null,
+    passed: valid && compare(entry, kind!, actual)
+  };
+};
+
+const formatMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/** The payment's value for a field — undefined when it has none */
+const resolveField = (field: ConditionField, ctx: ConditionContext): unknown => {
+  const { request, card } = ctx;
+
+  if (field.startsWith('metadata.')) {
+    let value: any = request.metadata;
+    for (const key of field.split('.').slice(1)) value = value?.[key];
+    return value;
+  }
+
+  switch (field) {
+    case 'amount':           return request.amount;
+    case 'currency':         return request.currency;
+    case 'payment_method':   return request.source?.type;
+    case 'has_token':        return !!request.source?.token;
+    case 'merchant_id':      return ctx.merchantId;
+    case 'customer_country': return request.metadata?.customer?.country ?? request.metadata?.customer_country;
+    case 'card_brand':
+    case 'card_scheme':
+    case 'card_type':
+    case 'issuer_country':
+    case 'funding_type':     return card?.[field];
+    case 'success_rate':
+      // Recent approval rate (0–100) of the rule's target PSP
+      return successRateTracker.getRate(
+        ctx.target,
+        request.source?.type ?? PaymentMethod.CREDITCARD,
+        request.currency
+      ).rate ?? undefined;
+    case 'time_of_day':      return localTime(ctx.now).minutes;
+    case 'day_of_week':      return localTime(ctx.now).day;
+    default:                 return undefined;
+  }
+};
+
+const same = (actual: unknown, expected: unknown, kind: FieldKind): boolean => {
+  if (kind === 'number' || typeof actual === 'number') return toNumber(actual, kind) === toNumber(expected, kind);
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+};
+
+/** Numbers as numbers; HH:MM times as minutes since midnight */
+const toNumber = (value: unknown, kind: FieldKind): number => {
+  if (kind === 'time' && typeof value === 'string') {
+    const [h, m] = value.split(':').map(Number);
+    return h * 60 + m;
+  }
+  return Number(value);
+};
+
+/**
+ * Inclusive for numbers. Time windows include the start and exclude the end,
+ * and may wrap midnight: ["22:00", "06:00"] is the night.
+ */
+const between = (actual: unknown, [min, max]: Array<string | number>, kind: FieldKind): boolean => {
+  const n = toNumber(actual, kind);
+  const lo = toNumber(min, kind);
+  const hi = toNumber(max, kind);
+  if (kind !== 'time') return n >= lo && n <= hi;
+  return lo <= hi ? n >= lo && n < hi : n >= lo || n < hi;
+};
+
+const asList = (value: ConditionValue): Array<string | number> =>
+  Array.isArray(value) ? value : [value as string | number];
+
+/**
+ * Compiled regex conditions — null for invalid patterns. Rule regexes run on
+ * the payment path, so they use RE2 (linear in the input, whatever the
+ * pattern) rather than JavaScript's backtracking engine; RE2 has no
+ * backreferences or lookaround.
+ */
+const regexCache = new Map<string, RE2JS | null>();
+const compile = (pattern: string): RE2JS | null => {
+  if (regexCache.has(pattern)) return regexCache.get(pattern)!;
+
+  let re: RE2JS | null = null;
+  if (pattern.length <= MAX_REGEX_LENGTH) {
+    try {
+      re = RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+    } catch {
+      // invalid — stays null
+    }
+  }
+  regexCache.set(pattern, re);
+  return re;
+};
+
+const timeFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: config.timezone,
+  weekday: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+/** Last localTime() result — both values only change once a minute */
+let localTimeCache: { minute: number; minutes: number; day: string } | null = null;
+
+/** Minutes since midnight and short weekday ("fri") in ROUTING_TIMEZONE */
+const localTime = (now: Date): { minutes: number; day: string } => {
+  const minute = Math.floor(now.getTime() / 60_000);
+  if (localTimeCache?.minute === minute) return localTimeCache;
+
+  const parts = Object.fromEntries(timeFormat.formatToParts(now).map(p => [p.type, p.value]));
+  localTimeCache = {
+    minute,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    day: String(parts.weekday).toLowerCase()
+  };
+  return localTimeCache;
+};
@@ -24,13 +24,42 @@ export enum PSPProvider {
   PAYTABS = 'paytabs',
   HYPERPAY = 'hyperpay',
   TAP = 'tap',
-  CHECKOUT = 'checkout'
+  CHECKOUT = 'checkout',
+  MOCK = 'mock' // offline test PSP — never available in production
+}
+
+/**
+ * PSP-independent reason a payment was declined or failed. Every connector
+ * maps its own codes / messages onto these, so merchants can show consistent
+ * messages and retry / failover logic can act on codes instead of strings.
+ */
+export enum DeclineCode {
+  INSUFFICIENT_FUNDS = 'insufficient_funds',
+  DO_NOT_HONOR = 'do_not_honor',
+  EXPIRED_CARD = 'expired_card',
+  INCORRECT_CVC = 'incorrect_cvc',
+  INVALID_CARD = 'invalid_card',
+  CARD_NOT_SUPPORTED = 'card_not_supported',
+  LIMIT_EXCEEDED = 'limit_exceeded',
+  LOST_OR_STOLEN = 'lost_or_stolen',
+  FRAUD_SUSPECTED = 'fraud_suspected',
+  THREE_DS_FAILED = '3ds_failed',
+  PROCESSOR_UNAVAILABLE = 'processor_unavailable', // PSP / issuer down or timed out — worth retrying
+  INVALID_REQUEST = 'invalid_request',              // we sent something the PSP rejected
+  CONFIGURATION_ERROR = 'configuration_error',      // bad or inactive PSP credentials
+  GENERIC_DECLINE = 'generic_decline'               // declined, reason unknown
 }
 
 export enum Currency {
   SAR = 'SAR',
   USD = 'USD',
-  AED = 'AED'
+  AED = 'AED',
+  KWD = 'KWD',
+  BHD = 'BHD',
+  QAR = 'QAR',
+  OMR = 'OMR',
+  EGP = 'EGP',
+  EUR = 'EUR'
 }
 
 export interface PaymentRequest {
@@ -41,6 +70,12 @@ export interface PaymentRequest {
   source?: PaymentSource;
   metadata?: Record<string, any>;
   psp?: PSPProvider; // Optional: force a specific PSP, overrides routing logic
+  capture?: boolean; // false = authorize only; capture later via POST /payments/:id/capture
+  idempotency_key?: string; // From the Idempotency-Key header — set by the controller
+}
+
+export interface CaptureRequest {
+  amount?: number; // Omit to capture the full authorized amount
 }
 
 export interface PaymentSource {
@@ -51,6 +86,8 @@ export interface PaymentSource {
   year?: string;
   cvc?: string;
   token?: string;
+  /** First 6–8 card digits, when a tokenized source exposes them — used for BIN routing */
+  bin?: string;
 }
 
 export interface PaymentResponse {
@@ -58,7 +95,10 @@ export interface PaymentResponse {
   status: PaymentStatus;
   amount: number;
   currency: Currency;
+  /** Fee charged by the PSP, when it reports one */
   fee?: number;
+  /** Fee expected from the PSP's fee schedule when the payment was routed */
+  estimated_fee?: number;
   source?: {
     type: PaymentMethod;
     company?: string;
@@ -75,11 +115,31 @@ export interface PaymentResponse {
   callback_url?: string;
   /** Hosted payment page URL — present when the PSP uses a redirect flow (e.g. PayTabs) */
   payment_url?: string;
+  /** Raw PSP response / decline code, when the PSP reports one */
+  response_code?: string;
+  /** Normalized decline reason — set when status is failed */
+  decline_code?: DeclineCode;
+  /** PSP that processed the payment (after any failover) */
+  psp_provider?: PSPProvider;
+  /** Why routing picked the PSP — see RoutingDecision */
+  routing?: RoutingDecision;
+}
+
+/** One PSP attempt for a payment — a payment has several when failover kicks in */
+export interface PSPAttempt {
+  psp: PSPProvider;
+  status: PaymentStatus;
+  psp_transaction_id?: string;
+  response_code?: string;
+  decline_code?: DeclineCode;
+  error?: string;
+  attempted_at: string;
 }
 
 export interface RefundRequest {
   amount?: number;
   reason?: string;
+  created_by?: string; // e.g. support agent id — defaults to the merchant id
 }
 
 export interface RefundResponse {
@@ -88,6 +148,9 @@ export interface RefundResponse {
   amount: number;
   status: string;
   created_at: string;
+  reason?: string;
+  psp_refund_id?: string;
+  created_by?: string;
 }
 
 export interface WebhookPayload {
@@ -101,15 +164,95 @@ export interface RoutingRule {
   id: string;
   name: string;
   priority: number;
-  conditions: RoutingCondition[];
-  target_psp: PSPProvider;
+  /** All must hold (an empty list always matches) */
+  conditions: RuleCondition[];
+  target_psp: PSPProvider | null;
+  split: SplitTarget[] | null;
   enabled: boolean;
 }
 
+/** One leg of a weighted traffic split — weights of a split add up to 100 */
+export interface SplitTarget {
+  psp: PSPProvider;
+  weight: number;
+}
+
+export type ConditionField =
+  | 'amount' | 'currency' | 'payment_method' | 'has_token' | 'success_rate'
+  | 'card_brand' | 'card_scheme' | 'card_type' | 'issuer_country' | 'funding_type'
+  | 'customer_country' | 'merchant_id'
+  | 'time_of_day' | 'day_of_week'
+  | `metadata.${string}`;
+
+export type ConditionOperator =
+  | 'equals' | 'not_equals'
+  | 'greater_than' | 'less_than' | 'greater_than_or_equal' | 'less_than_or_equal'
+  | 'between' | 'in' | 'not_in' | 'contains' | 'regex';
+
+export type ConditionValue = string | number | boolean | Array<string | number>;
+
 export interface RoutingCondition {
-  field: 'card_type' | 'amount' | 'currency' | 'success_rate';
-  operator: 'equals' | 'greater_than' | 'less_than' | 'contains';
-  value: string | number;
+  field: ConditionField;
+  operator: ConditionOperator;
+  /** A list for in / not_in, a [min, max] pair for between */
+  value: ConditionValue;
+}
+
+/** Nested group: `any` matches when one member holds, `all` when every one does */
+export type ConditionGroup =
+  | { any: RuleCondition[] }
+  | { all: RuleCondition[] };
+
+export type RuleCondition = RoutingCondition | ConditionGroup;
+
+/**
+ * How the PSP for a payment was chosen:
+ *  - override: the request named the PSP (`psp` field)
+ *  - rule:     a routing rule matched
+ *  - auto:     auto mode ranked the candidates by success rate
+ *  - cost:     cost mode ranked the candidates by estimated fee
+ *  - fallback: no rule matched — DEFAULT_PSP, or the other available PSPs
+ */
+export type RoutingSource = 'override' | 'rule' | 'auto' | 'cost' | 'fallback';
+
+/** Audit record of one routing decision, stored on the transaction */
+/** A routing rule as it was when a payment was routed */
+export interface RoutingRuleRef {
+  id: string;
+  name: string;
+  version: number;
+  scope: 'merchant' | 'global';
+}
+
+export interface RoutingDecision {
+  source: RoutingSource;
+  mode: 'rules' | 'auto' | 'cost';
+  /** The rule that picked the PSP — rules mode only */
+  rule: RoutingRuleRef | null;
+  /**
+   * First matching rule when it only made PSPs eligible and something else
+   * chose among them: auto or cost ranking, or a committed minimum
+   */
+  candidate_rule?: RoutingRuleRef;
+  /** Eligible PSPs in preference order, the chosen one first */
+  candidates: PSPProvider[];
+  evaluated_at: string;
+  /** Time spent evaluating, in milliseconds */
+  duration_ms: number;
+  /**
+   * Estimated fee per candidate, in major units of the payment currency —
+   * only for PSPs with a matching fee schedule
+   */
+  estimated_fees?: Partial<Record<PSPProvider, number>>;
+  /** Available PSPs left out because they can't process the payment, with why */
+  incapable?: Partial<Record<PSPProvider, string>>;
+  /** PSP volume quotas that shaped the order — only when some applied */
+  quota?: {
+    /** Skipped: this payment would exceed one of their maximums */
+    capped: PSPProvider[];
+    /** Moved ahead: still below a committed minimum */
+    below_minimum: PSPProvider[];
+  };
 }
 
 export interface PSPConfig {
@@ -118,6 +261,14 @@ export interface PSPConfig {
   api_url: string;
   webhook_secret?: string;
   enabled: boolean;
+  /** Provider-specific settings (e.g. PayTabs profile_id) */
+  options?: Record<string, string>;
+}
+
+/** Secrets of a merchant-owned PSP account — stored encrypted */
+export interface PSPAccountCredentials {
+  api_key: string;
+  webhook_secret?: string;
 }
 
 export interface Transaction {
@@ -0,0 +1,49 @@
+import { Currency } from '../../types/payment.types';
+import {
+  formatAmount,
+  fromMinorUnits,
+  getMinorUnits,
+  hasValidPrecision,
+  minorUnitsColumn,
+  toMinorUnits
+} from '../currency';
+
+describe('currency utils', () => {
+  it('knows the ISO 4217 decimals of each currency', () => {
+    expect(getMinorUnits(Currency.SAR)).toBe(2);
+    expect(getMinorUnits(Currency.KWD)).toBe(3);
+    expect(getMinorUnits('jpy')).toBe(0);
+    expect(() => getMinorUnits('XYZ')).toThrow('Unsupported currency: XYZ');
+  });
+
+  it('converts major to minor units without float drift', () => {
+    expect(toMinorUnits(100.5, Currency.SAR)).toBe(10050);
+    expect(toMinorUnits(1.005, Currency.KWD)).toBe(1005);
+    expect(toMinorUnits(0.29, Currency.USD)).toBe(29);
+    expect(toMinorUnits(12.375, Currency.OMR)).toBe(12375);
+  });
+
+  it('converts minor back to major units', () => {
+    expect(fromMinorUnits(10050, Currency.SAR)).toBe(100.5);
+    expect(fromMinorUnits(10500, Currency.KWD)).toBe(10.5);
+    expect(fromMinorUnits(toMinorUnits(19.99, Currency.AED), Currency.AED)).toBe(19.99);
+  });
+
+  it('rejects amounts finer than the currency allows', () => {
+    expect(hasValidPrecision(10.5, Currency.SAR)).toBe(true);
+    expect(hasValidPrecision(10.505, Currency.SAR)).toBe(false);
+    expect(hasValidPrecision(10.505, Currency.KWD)).toBe(true);
+    expect(hasValidPrecision(10.5055, Currency.KWD)).toBe(false);
+  });
+
+  it('formats amounts with the currency decimals', () => {
+    expect(formatAmount(92, Currency.SAR)).toBe('92.00');
+    expect(formatAmount(10.5, Currency.BHD)).toBe('10.500');
+  });
+
+  it('reads Postgres bigint strings as numbers', () => {
+    expect(minorUnitsColumn.from('10050')).toBe(10050);
+    expect(minorUnitsColumn.from(null)).toBeNull();
+    expect(minorUnitsColumn.to(10050)).toBe(10050);
+  });
+});
@@ -0,0 +1,71 @@
+import { ValueTransformer } from 'typeorm';
+import { Currency } from '../types/payment.types';
+
+/**
+ * ISO 4217 minor units — the number of decimal places of each currency.
+ * 1 KWD = 1000 fils, 1 SAR = 100 halalas, JPY has no minor unit.
+ *
+ * Currencies we accept are the Currency enum; the extra entries only exist
+ * so amounts a PSP reports in other currencies still convert correctly.
+ */
+const MINOR_UNITS: Record<string, number> = {
+  [Currency.SAR]: 2,
+  [Currency.USD]: 2,
+  [Currency.AED]: 2,
+  [Currency.KWD]: 3,
+  [Currency.BHD]: 3,
+  [Currency.QAR]: 2,
+  [Currency.OMR]: 3,
+  [Currency.EGP]: 2,
+  [Currency.EUR]: 2,
+  JPY: 0
+};
+
+export const SUPPORTED_CURRENCIES: Currency[] = Object.values(Currency);
+
+export const isSupportedCurrency = (currency: string): currency is Currency =>
+  (SUPPORTED_CURRENCIES as string[]).includes(currency);
+
+/** Decimal places of a currency. Throws for currencies we don't know. */
+export const getMinorUnits = (currency: string): number => {
+  const digits = MINOR_UNITS[String(currency).toUpperCase()];
+  if (digits === undefined) {
+    throw new Error(`Unsupported currency: ${currency}`);
+  }
+  return digits;
+};
+
+/**
+ * Major → minor units (10.5 KWD → 10500). Rounds away binary float noise
+ * such as 1.005 * 100 = 100.49999999999999.
+ */
+export const toMinorUnits = (amount: number, currency: string): number => {
+  const scaled = Number(amount) * 10 ** getMinorUnits(currency);
+  return Math.round(Number(scaled.toPrecision(15)));
+};
+
+/** Minor → major units (10500 KWD fils → 10.5) */
+export const fromMinorUnits = (minor: number, currency: string): number => {
+  const digits = getMinorUnits(currency);
+  return Number((Number(minor) / 10 ** digits).toFixed(digits));
+};
+
+/** Major-unit amount as a fixed-decimal string ("10.500" for KWD, "10.50" for SAR) */
+export const formatAmount = (amount: number, currency: string): string =>
+  Number(amount).toFixed(getMinorUnits(currency));
+
+/** True when the amount has no more decimal places than the currency allows */
+export const hasValidPrecision = (amount: number, currency: string): boolean => {
+  const digits = getMinorUnits(currency);
+  const scaled = Number((Number(amount) * 10 ** digits).toPrecision(15));
+  return Number.isInteger(scaled);
+};
+
+/**
+ * TypeORM column transformer for bigint minor-unit columns. Postgres returns
+ * bigint as a string; entities see a plain number.
+ */
+export const minorUnitsColumn: ValueTransformer = {
+  to: (value: number | null | undefined) => value,
+  from: (value: string | null) => (value === null || value === undefined ? value : Number(value))
+};
@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { ValueTransformer } from 'typeorm';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * 32-byte key used to encrypt secrets at rest, from PSP_CREDENTIALS_KEY
+ * (64 hex chars — generate with `openssl rand -hex 32`).
+ *
+ * Read on every call rather than at import time so a missing key only breaks
+ * the features that need it, not server startup.
+ */
+const getKey = (): Buffer => {
+  const hex = (process.env.PSP_CREDENTIALS_KEY ?? '').trim();
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('PSP_CREDENTIALS_KEY must be set to 64 hex characters (32 bytes)');
+  }
+  return Buffer.from(hex, 'hex');
+};
+
+/**
+ * Encrypt a string with AES-256-GCM.
+ * Output format: `v1:<iv>:<auth tag>:<ciphertext>`, each part base64.
+ */
+export const encrypt = (plaintext: string): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return ['v1', iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+};
+
+/**
+ * Decrypt a value produced by encrypt(). Throws when the value was tampered
+ * with or encrypted under a different key.
+ */
+export const decrypt = (payload: string): string => {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== 'v1' || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognised encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+};
+
+/**
+ * TypeORM column transformer storing a JSON value encrypted. Entities see the
+ * plain object; the database only ever holds ciphertext.
+ */
+export const encryptedJson: ValueTransformer = {
+  to: (value: unknown) => (value === null || value === undefined ? value : encrypt(JSON.stringify(value))),
+  from: (value: string | null) => (value === null || value === undefined ? value : JSON.parse(decrypt(value)))
+};
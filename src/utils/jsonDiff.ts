@@ -0,0 +1,29 @@
+/** One changed leaf between two JSON values */
+export interface JsonChange {
+  /** Dotted path with array indexes, e.g. `conditions[0].value` */
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Leaf-level differences between two JSON-compatible values. Objects are
+ * compared key by key and arrays index by index; anything else that differs
+ * is reported whole. Missing values are reported as null.
+ */
+export const diffJson = (from: unknown, to: unknown, path = ''): JsonChange[] => {
+  if (JSON.stringify(from) === JSON.stringify(to)) return [];
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])];
+    return keys.flatMap(k => diffJson(from[k], to[k], path ? `${path}.${k}` : k));
+  }
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const length = Math.max(from.length, to.length);
+    return Array.from({ length }, (_, i) => diffJson(from[i], to[i], `${path}[${i}]`)).flat();
+  }
+  return [{ path, from: from ?? null, to: to ?? null }];
+};
@@ -36,5 +36,7 @@ export const logger = winston.createLogger({
     winston.format.json()
   ),
   defaultMeta: { service: 'payment-orchestration' },
+  // LOG_LEVEL=silent turns logging off (used by the test suite)
+  silent: logLevel === 'silent',
   transports
 });